@@ -12,6 +12,48 @@ import {
   INodeProperties,
 } from 'n8n-workflow';
 
+// Shared with the OAuth2 credential, the transport builds the base URL from these fields
+export const environmentProperties: INodeProperties[] = [
+  {
+    displayName: 'Environment',
+    name: 'environment',
+    type: 'options',
+    options: [
+      {
+        name: 'Production',
+        value: 'production',
+      },
+      {
+        name: 'Custom',
+        value: 'custom',
+        description: 'A staging proxy, mock server or other host',
+      },
+    ],
+    default: 'production',
+  },
+  {
+    displayName: 'Base URL',
+    name: 'baseUrl',
+    type: 'string',
+    displayOptions: {
+      show: {
+        environment: ['custom'],
+      },
+    },
+    default: '',
+    placeholder: 'https://attentive-proxy.example.com',
+    required: true,
+    description: 'Host to send requests to. A trailing API version such as /v1 is ignored.',
+  },
+  {
+    displayName: 'API Version',
+    name: 'apiVersion',
+    type: 'string',
+    default: 'v1',
+    description: 'API version path appended to the host',
+  },
+];
+
 export class AttentiveApi implements ICredentialType {
   name = 'attentiveApi';
   displayName = 'Attentive API';
@@ -28,6 +70,7 @@ export class AttentiveApi implements ICredentialType {
       required: true,
       description: 'API Key from your Attentive App Marketplace. Go to Integrations → API Keys to generate one.',
     },
+    ...environmentProperties,
   ];
 
   authenticate: IAuthenticateGeneric = {
@@ -41,7 +84,8 @@ export class AttentiveApi implements ICredentialType {
 
   test: ICredentialTestRequest = {
     request: {
-      baseURL: 'https://api.attentivemobile.com/v1',
+      baseURL:
+        '={{($credentials.environment || ($credentials.baseUrl && $credentials.baseUrl.replace(/\\/+$/, "") !== "https://api.attentivemobile.com/v1" ? "custom" : "production")) === "custom" ? $credentials.baseUrl.replace(/\\/+$/, "").replace(/\\/v\\d+$/, "") : "https://api.attentivemobile.com"}}/{{$credentials.apiVersion || "v1"}}',
       url: '/me',
       method: 'GET',
     },
@@ -0,0 +1,72 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+import { environmentProperties } from './AttentiveApi.credentials';
+
+const DEFAULT_SCOPES = [
+  'subscriptions:write',
+  'attributes:write',
+  'events:write',
+  'ecommerce:write',
+  'messages:write',
+  'segments:write',
+  'journeys:read',
+  'sign-up-units:read',
+  'keywords:read',
+  'webhooks:write',
+];
+
+export class AttentiveOAuth2Api implements ICredentialType {
+  name = 'attentiveOAuth2Api';
+  extends = ['oAuth2Api'];
+  displayName = 'Attentive OAuth2 API';
+  documentationUrl = 'https://docs.attentivemobile.com/pages/authentication/';
+  properties: INodeProperties[] = [
+    {
+      displayName: 'Grant Type',
+      name: 'grantType',
+      type: 'hidden',
+      default: 'authorizationCode',
+    },
+    {
+      displayName: 'Authorization URL',
+      name: 'authUrl',
+      type: 'string',
+      default: 'https://ui.attentivemobile.com/integrations/oauth-install',
+      required: true,
+    },
+    {
+      displayName: 'Access Token URL',
+      name: 'accessTokenUrl',
+      type: 'string',
+      default: 'https://api.attentivemobile.com/v1/authorization-codes/tokens',
+      required: true,
+    },
+    {
+      displayName: 'Scope',
+      name: 'scope',
+      type: 'string',
+      default: DEFAULT_SCOPES.join(' '),
+      description: 'Space-separated scopes requested by your Attentive app',
+    },
+    {
+      displayName: 'Auth URI Query Parameters',
+      name: 'authQueryParameters',
+      type: 'hidden',
+      default: '',
+    },
+    {
+      displayName: 'Authentication',
+      name: 'authentication',
+      type: 'hidden',
+      default: 'body',
+    },
+    ...environmentProperties,
+  ];
+}
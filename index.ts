@@ -6,5 +6,7 @@
  */
 
 export * from './credentials/AttentiveApi.credentials';
+export * from './credentials/AttentiveOAuth2Api.credentials';
 export * from './nodes/Attentive/Attentive.node';
+export * from './nodes/Attentive/AttentivePollTrigger.node';
 export * from './nodes/Attentive/AttentiveTrigger.node';
@@ -6,17 +6,47 @@
  */
 
 import {
+  IDataObject,
   IExecuteFunctions,
   INodeExecutionData,
+  INodeParameters,
   INodeType,
   INodeTypeDescription,
 } from 'n8n-workflow';
 
-import { logLicensingNotice } from './utils';
+import { addOutputMetadata, logLicensingNotice } from './utils';
+import { AttentiveApiError, getCredentialType, getEnvironmentInfo } from './transport';
+import { listSearch } from './methods';
+import { consumeLimiterStats } from './transport/rateLimiter';
+import { consumeDryRunRequests } from './transport/dryRun';
+import {
+  consumeIdempotencyStats,
+  setIdempotencyItem,
+  setIdempotencyScope,
+} from './transport/idempotency';
+import {
+  authenticationProperty,
+  credentialDescriptions,
+  dryRunRequestOptions,
+  idempotencyRequestOptions,
+  outputRequestOptions,
+  rateLimitRequestOptions,
+  retryRequestOptions,
+} from './transport/description';
 
 // Import operations and fields
-import { subscriberOperations, subscriberFields, executeSubscriberOperation } from './actions/subscriber';
-import { messageOperations, messageFields, executeMessageOperation } from './actions/message';
+import {
+  subscriberOperations,
+  subscriberFields,
+  executeSubscriberOperation,
+  executeSubscriberImportBulk,
+} from './actions/subscriber';
+import {
+  messageOperations,
+  messageFields,
+  executeMessageOperation,
+  isDeferredItem,
+} from './actions/message';
 import { customEventOperations, customEventFields, executeCustomEventOperation } from './actions/customEvent';
 import { customAttributeOperations, customAttributeFields, executeCustomAttributeOperation } from './actions/customAttribute';
 import { ecommerceOperations, ecommerceFields, executeEcommerceOperation } from './actions/ecommerce';
@@ -26,27 +56,89 @@ import { signUpUnitOperations, signUpUnitFields, executeSignUpUnitOperation } fr
 import { keywordOperations, keywordFields, executeKeywordOperation } from './actions/keyword';
 import { webhookOperations, webhookFields, executeWebhookOperation } from './actions/webhook';
 
+/**
+ * Outputs of the node, with a second output for messages deferred by quiet hours
+ * @param parameters - Node parameters
+ * @returns Output configuration
+ */
+const configuredOutputs = (parameters: INodeParameters) => {
+  const deferred =
+    parameters.resource === 'message' &&
+    ['send', 'sendBulk'].includes(parameters.operation as string) &&
+    parameters.quietHours === 'defer';
+
+  return deferred
+    ? [
+        { type: 'main', displayName: 'Sent' },
+        { type: 'main', displayName: 'Deferred' },
+      ]
+    : [{ type: 'main' }];
+};
+
+/**
+ * Replace the output of an item with the requests recorded during a dry run
+ * @param result - Output of the operation
+ * @param requests - Requests that would have been sent
+ * @param itemIndex - Item index
+ * @returns Dry run output, keeping items routed to the deferred output
+ */
+function buildDryRunResult(
+  result: INodeExecutionData[],
+  requests: IDataObject[],
+  itemIndex: number,
+): INodeExecutionData[] {
+  const deferred = result.filter((item) => isDeferredItem(item));
+  const output = result.filter((item) => !isDeferredItem(item));
+
+  if (output.length === 0 && requests.length === 0) {
+    return deferred;
+  }
+
+  const metadata = output[0]?.json._attentive as IDataObject | undefined;
+  return [
+    {
+      json: { dryRun: true, requests, ...(metadata ? { _attentive: metadata } : {}) },
+      pairedItem: { item: itemIndex },
+    },
+    ...deferred,
+  ];
+}
+
+/**
+ * Build the "Continue On Fail" output item of a failed item
+ * @param error - Error the item failed with
+ * @param environment - Environment the request was made against
+ * @param i - Item index
+ * @returns Output item with the structured error
+ */
+function buildErrorItem(error: Error, environment: IDataObject, i: number): INodeExecutionData {
+  return {
+    json: {
+      ...(error instanceof AttentiveApiError ? error.toOutput() : { error: error.message }),
+      _attentive: { environment },
+    },
+    pairedItem: { item: i },
+  };
+}
+
 export class Attentive implements INodeType {
   description: INodeTypeDescription = {
     displayName: 'Attentive',
     name: 'attentive',
     icon: 'file:attentive.svg',
     group: ['transform'],
-    version: 1,
+    version: [1, 1.1],
+    defaultVersion: 1.1,
     subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
     description: 'Interact with the Attentive SMS Marketing API',
     defaults: {
       name: 'Attentive',
     },
     inputs: ['main'],
-    outputs: ['main'],
-    credentials: [
-      {
-        name: 'attentiveApi',
-        required: true,
-      },
-    ],
+    outputs: `={{(${configuredOutputs})($parameter)}}`,
+    credentials: credentialDescriptions,
     properties: [
+      authenticationProperty,
       {
         displayName: 'Resource',
         name: 'resource',
@@ -118,19 +210,89 @@ export class Attentive implements INodeType {
       ...signUpUnitFields,
       ...keywordFields,
       ...webhookFields,
+      {
+        displayName: 'Request Options',
+        name: 'requestOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        options: [
+          ...retryRequestOptions,
+          ...rateLimitRequestOptions,
+          ...idempotencyRequestOptions,
+          ...dryRunRequestOptions,
+          ...outputRequestOptions,
+        ],
+      },
     ],
   };
 
+  methods = {
+    listSearch,
+  };
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     // Log licensing notice once per node load
     logLicensingNotice();
 
     const items = this.getInputData();
     const returnData: INodeExecutionData[] = [];
+    const deferredData: INodeExecutionData[] = [];
     const resource = this.getNodeParameter('resource', 0) as string;
     const operation = this.getNodeParameter('operation', 0) as string;
+    const requestOptions = this.getNodeParameter('requestOptions', 0, {}) as IDataObject;
+    const environment = getEnvironmentInfo(
+      await this.getCredentials(getCredentialType.call(this)),
+    );
+    const outputs = configuredOutputs({
+      resource,
+      operation,
+      quietHours: this.getNodeParameter('quietHours', 0, 'schedule') as string,
+    });
+
+    // Operations that consume all input items in a single run
+    setIdempotencyScope(this, `${resource}.${operation}`);
+
+    if (resource === 'subscriber' && operation === 'importBulk') {
+      let rows: INodeExecutionData[];
+      try {
+        rows = await executeSubscriberImportBulk.call(this, items);
+      } catch (error) {
+        consumeLimiterStats(this);
+        consumeIdempotencyStats(this);
+        consumeDryRunRequests(this);
+        if (this.continueOnFail()) {
+          return [[buildErrorItem(error as Error, environment, 0)]];
+        }
+        throw error;
+      }
+      if (requestOptions.dryRun) {
+        const requests = consumeDryRunRequests(this);
+        for (const row of rows) {
+          delete row.json.response;
+          row.json.dryRun = true;
+          row.json.requests = requests
+            .filter((request) => request.itemIndex === row.json.row)
+            .map((request) => {
+              const copy = { ...request };
+              delete copy.itemIndex;
+              return copy;
+            });
+        }
+      }
+      return [addOutputMetadata(rows, { environment })];
+    }
+
+    // A bulk message to all input items runs once with the parameters of the first item
+    const sendToInputItems =
+      resource === 'message' &&
+      operation === 'sendBulk' &&
+      this.getNodeParameter('recipientSource', 0, 'manual') === 'inputItems';
+    const itemCount = sendToInputItems ? Math.min(items.length, 1) : items.length;
+
+    for (let i = 0; i < itemCount; i++) {
+      setIdempotencyItem(this, i);
 
-    for (let i = 0; i < items.length; i++) {
       try {
         let result: INodeExecutionData[];
 
@@ -169,21 +331,37 @@ export class Attentive implements INodeType {
             throw new Error(`Unknown resource: ${resource}`);
         }
 
-        returnData.push(...result);
+        addOutputMetadata(result, { environment });
+
+        const limiterStats = consumeLimiterStats(this);
+        if (requestOptions.includeLimiterStats && limiterStats) {
+          addOutputMetadata(result, { rateLimiter: limiterStats });
+        }
+
+        const idempotencyStats = consumeIdempotencyStats(this);
+        if (idempotencyStats) {
+          addOutputMetadata(result, { idempotency: idempotencyStats });
+        }
+
+        if (requestOptions.dryRun) {
+          result = buildDryRunResult(result, consumeDryRunRequests(this), i);
+        }
+
+        for (const item of result) {
+          (isDeferredItem(item) ? deferredData : returnData).push(item);
+        }
       } catch (error) {
+        consumeLimiterStats(this);
+        consumeIdempotencyStats(this);
+        consumeDryRunRequests(this);
         if (this.continueOnFail()) {
-          returnData.push({
-            json: {
-              error: (error as Error).message,
-            },
-            pairedItem: { item: i },
-          });
+          returnData.push(buildErrorItem(error as Error, environment, i));
           continue;
         }
         throw error;
       }
     }
 
-    return [returnData];
+    return outputs.length > 1 ? [returnData, deferredData] : [returnData];
   }
 }
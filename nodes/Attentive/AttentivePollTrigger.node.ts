@@ -0,0 +1,176 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  IDataObject,
+  INodeExecutionData,
+  INodeType,
+  INodeTypeDescription,
+  IPollFunctions,
+} from 'n8n-workflow';
+
+import { buildResourceLocator, listSearch } from './methods';
+import { logLicensingNotice } from './utils';
+import {
+  authenticationProperty,
+  credentialDescriptions,
+  rateLimitRequestOptions,
+  retryRequestOptions,
+} from './transport/description';
+import { buildTriggerPayload, normalizePollEvent } from './trigger/payload';
+import { IPollState, POLL_EVENTS, PollSource, getPollStateKey, pollEvents } from './trigger/poll';
+
+/**
+ * Build the options of an event filter
+ * @param events - Event names
+ * @returns Options named like "Message Delivered"
+ */
+const toEventOptions = (events: string[]) =>
+  events.map((event) => ({
+    name: event
+      .split(/[._]/)
+      .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+      .join(' '),
+    value: event,
+  }));
+
+export class AttentivePollTrigger implements INodeType {
+  description: INodeTypeDescription = {
+    displayName: 'Attentive Poll Trigger',
+    name: 'attentivePollTrigger',
+    icon: 'file:attentive.svg',
+    group: ['trigger'],
+    version: 1,
+    subtitle: '={{$parameter["source"]}}',
+    description:
+      'Starts the workflow when Attentive events occur, by polling. Use it when Attentive cannot reach n8n to deliver webhooks.',
+    defaults: {
+      name: 'Attentive Poll Trigger',
+    },
+    polling: true,
+    inputs: [],
+    outputs: ['main'],
+    credentials: credentialDescriptions,
+    properties: [
+      authenticationProperty,
+      {
+        displayName: 'Source',
+        name: 'source',
+        type: 'options',
+        noDataExpression: true,
+        options: [
+          {
+            name: 'Journey Status Changes',
+            value: 'journeyStatus',
+            description: 'Journeys that were activated, paused or otherwise changed status',
+          },
+          {
+            name: 'Message Events',
+            value: 'messages',
+            description: 'Messages that were sent, delivered, clicked, replied to or failed',
+          },
+          {
+            name: 'Segment Membership Changes',
+            value: 'segmentMembers',
+            description: 'Subscribers that joined or left a segment',
+          },
+          {
+            name: 'Subscriptions',
+            value: 'subscriptions',
+            description: 'New subscriptions and opt-outs',
+          },
+        ],
+        default: 'subscriptions',
+      },
+      buildResourceLocator('segment', {
+        displayName: 'Segment',
+        name: 'segmentId',
+        displayOptions: {
+          show: {
+            source: ['segmentMembers'],
+          },
+        },
+        description: 'The segment to watch',
+      }),
+      ...(['subscriptions', 'messages', 'segmentMembers'] as PollSource[]).map((source) => ({
+        displayName: 'Events',
+        name: 'events',
+        type: 'multiOptions' as const,
+        displayOptions: {
+          show: {
+            source: [source],
+          },
+        },
+        options: toEventOptions(POLL_EVENTS[source]),
+        default: [],
+        description:
+          'The events to emit. All events of the source are emitted when none are selected.',
+      })),
+      {
+        displayName: 'Simplify',
+        name: 'simplify',
+        type: 'boolean',
+        default: true,
+        description:
+          'Whether to return the same normalized payload as the Attentive Trigger, instead of the event as polled',
+      },
+      {
+        displayName: 'Request Options',
+        name: 'requestOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        description: 'Options for the requests of each poll',
+        options: [...retryRequestOptions, ...rateLimitRequestOptions],
+      },
+    ],
+  };
+
+  methods = {
+    listSearch,
+  };
+
+  async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+    logLicensingNotice();
+
+    const source = this.getNodeParameter('source') as PollSource;
+    const segmentId =
+      source === 'segmentMembers'
+        ? (this.getNodeParameter('segmentId', '', { extractValue: true }) as string)
+        : undefined;
+    const events =
+      source === 'journeyStatus' ? [] : (this.getNodeParameter('events', []) as string[]);
+    const manual = this.getMode() === 'manual';
+
+    // High-water marks and snapshots persist between polls, but not for manual executions
+    const staticData = this.getWorkflowStaticData('node');
+    const stateKey = getPollStateKey(source, { segmentId, events });
+    const storedState = staticData.pollState as IPollState | undefined;
+    const state: IPollState =
+      !manual && storedState?.stateKey === stateKey ? storedState : { stateKey };
+
+    const polled = await pollEvents.call(this, source, state, { segmentId, events, manual });
+    if (!manual) {
+      staticData.pollState = state as IDataObject;
+    }
+
+    // A manual execution only needs the latest event as sample data
+    const emitted = manual ? polled.slice(-1) : polled;
+    if (emitted.length === 0) {
+      return null;
+    }
+
+    const simplify = this.getNodeParameter('simplify', true) as boolean;
+    return [
+      emitted.map((event) => ({
+        json: simplify
+          ? normalizePollEvent(event)
+          : buildTriggerPayload(event.event, event.data, event.raw, event.timestamp),
+      })),
+    ];
+  }
+}
@@ -12,11 +12,66 @@ import {
   INodeTypeDescription,
   IWebhookResponseData,
   IDataObject,
+  INodeParameters,
 } from 'n8n-workflow';
 
-import { attentiveApiRequest } from './transport';
-import { WEBHOOK_EVENTS } from './types/AttentiveTypes';
-import { logLicensingNotice } from './utils';
+import { AttentiveConflictError, attentiveApiRequest } from './transport';
+import { DEFAULT_DEDUPLICATION_WINDOW_SECONDS, checkDuplicateEvent } from './trigger/dedup';
+import { expandWebhookEvents, getWebhookEventOptions } from './trigger/events';
+import {
+  IDesiredWebhook,
+  cleanUpOrphanedWebhooks,
+  deleteWebhook,
+  getWebhook,
+  hashSecret,
+  listWebhooks,
+  reconcileWebhook,
+} from './trigger/lifecycle';
+import { normalizeWebhookBody, normalizeWebhookEvent } from './trigger/payload';
+import { addOutputMetadata, logLicensingNotice } from './utils';
+import {
+  SIGNATURE_HEADER,
+  isTimestampWithinTolerance,
+  parseEventTime,
+  parseSecrets,
+  verifySignature,
+} from './utils/signature';
+import {
+  authenticationProperty,
+  credentialDescriptions,
+  rateLimitRequestOptions,
+  retryRequestOptions,
+} from './transport/description';
+
+/**
+ * Get the webhook the node configuration asks for
+ * @returns Webhook URL, expanded events and secret
+ */
+function getDesiredWebhook(this: IHookFunctions): IDesiredWebhook {
+  const options = this.getNodeParameter('options') as IDataObject;
+
+  return {
+    url: this.getNodeWebhookUrl('default') as string,
+    events: expandWebhookEvents(this.getNode(), this.getNodeParameter('events') as string[]),
+    secret: (options.secret as string | undefined) ?? '',
+  };
+}
+
+/**
+ * Outputs of the trigger, with a second output for duplicate deliveries when enabled
+ * @param parameters - Node parameters
+ * @returns Output configuration
+ */
+const configuredOutputs = (parameters: INodeParameters) => {
+  const options = (parameters.options as IDataObject | undefined) || {};
+
+  return options.outputDuplicates
+    ? [
+        { type: 'main', displayName: 'Events' },
+        { type: 'main', displayName: 'Duplicates' },
+      ]
+    : [{ type: 'main' }];
+};
 
 export class AttentiveTrigger implements INodeType {
   description: INodeTypeDescription = {
@@ -24,19 +79,15 @@ export class AttentiveTrigger implements INodeType {
     name: 'attentiveTrigger',
     icon: 'file:attentive.svg',
     group: ['trigger'],
-    version: 1,
+    version: [1, 1.1],
+    defaultVersion: 1.1,
     description: 'Starts the workflow when Attentive events occur',
     defaults: {
       name: 'Attentive Trigger',
     },
     inputs: [],
-    outputs: ['main'],
-    credentials: [
-      {
-        name: 'attentiveApi',
-        required: true,
-      },
-    ],
+    outputs: `={{(${configuredOutputs})($parameter)}}`,
+    credentials: credentialDescriptions,
     webhooks: [
       {
         name: 'default',
@@ -46,20 +97,29 @@ export class AttentiveTrigger implements INodeType {
       },
     ],
     properties: [
+      authenticationProperty,
       {
         displayName: 'Events',
         name: 'events',
         type: 'multiOptions',
         required: true,
-        options: WEBHOOK_EVENTS.map((event) => ({
-          name: event
-            .split('.')
-            .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
-            .join(' '),
-          value: event,
-        })),
+        options: getWebhookEventOptions(),
         default: [],
-        description: 'The events to listen to',
+        description:
+          'The events to listen to. Wildcards such as "All Message Events" are expanded to the individual events when the webhook is registered.',
+      },
+      {
+        displayName: 'Simplify',
+        name: 'simplify',
+        type: 'boolean',
+        displayOptions: {
+          show: {
+            '@version': [{ _cnd: { gte: 1.1 } }],
+          },
+        },
+        default: true,
+        description:
+          'Whether to return a normalized payload with the same fields for every delivery of an event type, instead of the event as received',
       },
       {
         displayName: 'Options',
@@ -78,8 +138,77 @@ export class AttentiveTrigger implements INodeType {
             default: '',
             description: 'Secret for webhook signature verification. If provided, incoming webhooks will be verified.',
           },
+          {
+            displayName: 'Additional Secrets',
+            name: 'additionalSecrets',
+            type: 'string',
+            typeOptions: {
+              password: true,
+            },
+            default: '',
+            description:
+              'Comma-separated secrets that are also accepted, e.g. the previous secret while rotating. Only used when Webhook Secret is set.',
+          },
+          {
+            displayName: 'Timestamp Tolerance (Seconds)',
+            name: 'timestampTolerance',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 300,
+            description:
+              'Reject signed deliveries whose timestamp differs from the current time by more than this. Deliveries without a timestamp are not checked. Set to 0 to disable. Only used when Webhook Secret is set.',
+          },
+          {
+            displayName: 'Deduplication Window (Seconds)',
+            name: 'deduplicationWindow',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: DEFAULT_DEDUPLICATION_WINDOW_SECONDS,
+            description:
+              'How long to remember received events. Redeliveries of an event within this window do not start the workflow. Set to 0 to disable. Nodes created before version 1.1 only deduplicate when this option is added.',
+          },
+          {
+            displayName: 'Max Event Age (Seconds)',
+            name: 'maxEventAge',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 0,
+            description:
+              'Drop events whose timestamp is older than this, e.g. late retries or replays. Set to 0 to disable.',
+          },
+          {
+            displayName: 'Clean Up Orphaned Webhooks',
+            name: 'cleanUpOrphanedWebhooks',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether to delete other webhooks registered for this trigger on the same n8n instance when the workflow is activated, e.g. left behind by test executions',
+          },
+          {
+            displayName: 'Output Duplicates',
+            name: 'outputDuplicates',
+            type: 'boolean',
+            default: false,
+            description:
+              'Whether to send duplicate deliveries to a second output instead of dropping them',
+          },
         ],
       },
+      {
+        displayName: 'Request Options',
+        name: 'requestOptions',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        description: 'Options for the requests that register and remove the webhook',
+        options: [...retryRequestOptions, ...rateLimitRequestOptions],
+      },
     ],
   };
 
@@ -88,85 +217,84 @@ export class AttentiveTrigger implements INodeType {
       async checkExists(this: IHookFunctions): Promise<boolean> {
         logLicensingNotice();
 
-        const webhookUrl = this.getNodeWebhookUrl('default');
+        const desired = getDesiredWebhook.call(this);
+        const options = this.getNodeParameter('options') as IDataObject;
         const webhookData = this.getWorkflowStaticData('node');
+        const manual = this.getMode() === 'manual';
+        // Test registrations are temporary, so only activations clean up after them
+        const cleanUp = !!options.cleanUpOrphanedWebhooks && !manual;
+        // The stored webhook is the production one, so test registrations only match the test URL
+        const storedSecretHash = manual
+          ? undefined
+          : (webhookData.secretHash as string | null | undefined);
 
-        // Check if webhook already exists
-        if (webhookData.webhookId) {
-          try {
-            await attentiveApiRequest.call(
-              this,
-              'GET',
-              `/webhooks/${webhookData.webhookId}`,
-            );
-            return true;
-          } catch {
-            // Webhook doesn't exist, need to create
-            delete webhookData.webhookId;
-            return false;
-          }
+        let webhook =
+          webhookData.webhookId && !manual
+            ? await getWebhook.call(this, webhookData.webhookId as string)
+            : undefined;
+        let webhooks: IDataObject[] = [];
+        if (!webhook || cleanUp) {
+          webhooks = await listWebhooks.call(this);
+          webhook ??= webhooks.find((candidate) => candidate.url === desired.url);
         }
 
-        // Check if a webhook with this URL already exists
-        try {
-          const response = await attentiveApiRequest.call(this, 'GET', '/webhooks');
-          const webhooks = (response.webhooks as IDataObject[]) || [];
-
-          for (const webhook of webhooks) {
-            if (webhook.url === webhookUrl) {
-              webhookData.webhookId = webhook.id;
-              return true;
-            }
-          }
-        } catch {
-          // Ignore error
+        if (cleanUp) {
+          await cleanUpOrphanedWebhooks.call(this, webhooks, desired.url, webhook?.id);
+        }
+
+        if (!webhook || !(await reconcileWebhook.call(this, webhook, desired, storedSecretHash))) {
+          delete webhookData.webhookId;
+          delete webhookData.secretHash;
+          return false;
         }
 
-        return false;
+        webhookData.webhookId = webhook.id;
+        webhookData.secretHash = hashSecret(desired.secret);
+        return true;
       },
 
       async create(this: IHookFunctions): Promise<boolean> {
         logLicensingNotice();
 
-        const webhookUrl = this.getNodeWebhookUrl('default');
-        const events = this.getNodeParameter('events') as string[];
-        const options = this.getNodeParameter('options') as IDataObject;
+        const desired = getDesiredWebhook.call(this);
         const webhookData = this.getWorkflowStaticData('node');
 
         const body: IDataObject = {
-          url: webhookUrl,
-          events,
+          url: desired.url,
+          events: desired.events,
         };
 
-        if (options.secret) {
-          body.secret = options.secret;
+        if (desired.secret) {
+          body.secret = desired.secret;
         }
 
         try {
           const response = await attentiveApiRequest.call(this, 'POST', '/webhooks', body);
           webhookData.webhookId = (response as IDataObject).id;
-          return true;
         } catch (error) {
-          throw new Error(`Failed to create Attentive webhook: ${(error as Error).message}`);
+          // Registered since checkExists ran, e.g. by a concurrent activation
+          const existing =
+            error instanceof AttentiveConflictError
+              ? (await listWebhooks.call(this)).find((webhook) => webhook.url === desired.url)
+              : undefined;
+          if (!existing || !(await reconcileWebhook.call(this, existing, desired))) {
+            throw new Error(`Failed to create Attentive webhook: ${(error as Error).message}`);
+          }
+          webhookData.webhookId = existing.id;
         }
+
+        webhookData.secretHash = hashSecret(desired.secret);
+        return true;
       },
 
       async delete(this: IHookFunctions): Promise<boolean> {
         const webhookData = this.getWorkflowStaticData('node');
 
         if (webhookData.webhookId) {
-          try {
-            await attentiveApiRequest.call(
-              this,
-              'DELETE',
-              `/webhooks/${webhookData.webhookId}`,
-            );
-          } catch (error) {
-            // Ignore error if webhook already deleted
-            console.warn(`Failed to delete webhook: ${(error as Error).message}`);
-          }
+          await deleteWebhook.call(this, webhookData.webhookId as string);
 
           delete webhookData.webhookId;
+          delete webhookData.secretHash;
         }
 
         return true;
@@ -183,8 +311,8 @@ export class AttentiveTrigger implements INodeType {
 
     // Verify webhook signature if secret is configured
     if (options.secret) {
-      const signature = headers['x-attentive-signature'] as string | undefined;
-      
+      const signature = headers[SIGNATURE_HEADER] as string | undefined;
+
       if (!signature) {
         // Return error for missing signature
         return {
@@ -195,31 +323,96 @@ export class AttentiveTrigger implements INodeType {
         };
       }
 
-      // Note: In production, you would verify the HMAC signature here
-      // This is a simplified check - Attentive uses HMAC-SHA256
-      // const expectedSignature = crypto
-      //   .createHmac('sha256', options.secret as string)
-      //   .update(JSON.stringify(body))
-      //   .digest('hex');
-      
-      // For now, just log that signature verification would happen
-      console.log('Webhook signature received:', signature);
+      // The signature covers the exact bytes Attentive sent, so prefer the raw body
+      const rawBody = this.getRequestObject().rawBody as Buffer | undefined;
+      const payload = rawBody ?? JSON.stringify(body);
+      const secrets = parseSecrets(
+        options.secret as string,
+        options.additionalSecrets as string | undefined,
+      );
+
+      if (!verifySignature(payload, signature, secrets)) {
+        return {
+          webhookResponse: {
+            status: 401,
+            body: 'Invalid signature',
+          },
+        };
+      }
+
+      // Deliveries without a timestamp predate replay protection and are only verified by signature
+      const tolerance = (options.timestampTolerance as number | undefined) ?? 300;
+      const timestamp = body.timestamp as string | number | undefined;
+      if (
+        tolerance > 0 &&
+        timestamp !== undefined &&
+        timestamp !== null &&
+        timestamp !== '' &&
+        !isTimestampWithinTolerance(timestamp, tolerance)
+      ) {
+        return {
+          webhookResponse: {
+            status: 401,
+            body: 'Timestamp outside tolerance',
+          },
+        };
+      }
+    }
+
+    // Stale events are acknowledged rather than rejected, so Attentive stops retrying them
+    const maxEventAge = (options.maxEventAge as number | undefined) ?? 0;
+    const eventTime = parseEventTime(body.timestamp as string | number | undefined);
+    if (maxEventAge > 0 && eventTime !== undefined && Date.now() - eventTime > maxEventAge * 1000) {
+      return {
+        webhookResponse: {
+          status: 200,
+          body: 'Event too old',
+        },
+      };
+    }
+
+    // Version 1 nodes keep the event as received, without the Simplify parameter
+    const simplify = this.getNodeParameter('simplify', false) as boolean;
+    const item = {
+      json: simplify
+        ? (normalizeWebhookEvent(body) as unknown as IDataObject)
+        : normalizeWebhookBody(body),
+    };
+    const outputDuplicates = !!options.outputDuplicates;
+    // Version 1 nodes only deduplicate when the window is set, so redeliveries keep reaching them
+    const deduplicationWindow =
+      (options.deduplicationWindow as number | undefined) ??
+      (this.getNode().typeVersion >= 1.1 ? DEFAULT_DEDUPLICATION_WINDOW_SECONDS : 0);
+
+    if (deduplicationWindow > 0) {
+      const { key, duplicate, firstSeenAt } = checkDuplicateEvent(
+        this.getWorkflowStaticData('node'),
+        body,
+        deduplicationWindow,
+      );
+
+      if (duplicate) {
+        if (!outputDuplicates) {
+          return {
+            webhookResponse: {
+              status: 200,
+              body: 'Duplicate event',
+            },
+          };
+        }
+
+        addOutputMetadata([item], {
+          duplicate: { key, firstSeenAt: new Date(firstSeenAt).toISOString() },
+        });
+        return {
+          workflowData: [[], [item]],
+        };
+      }
     }
 
     // Return the webhook data
     return {
-      workflowData: [
-        [
-          {
-            json: {
-              event: body.event || body.type,
-              timestamp: body.timestamp || new Date().toISOString(),
-              data: body.data || body,
-              raw: body,
-            },
-          },
-        ],
-      ],
+      workflowData: outputDuplicates ? [[item], []] : [[item]],
     };
   }
 }
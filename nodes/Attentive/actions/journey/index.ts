@@ -6,7 +6,12 @@
  */
 
 import { IExecuteFunctions, IDataObject, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { attentiveApiRequest, attentiveApiRequestAllItems } from '../../transport';
+import { attentiveApiRequest, attentivePaginate, getPaginationMetadata } from '../../transport';
+import {
+  buildVersionedResourceLocator,
+  describeMissingResource,
+  getResourceId,
+} from '../../methods';
 import { buildReturnData } from '../../utils';
 
 export const journeyOperations: INodeProperties[] = [
@@ -46,20 +51,24 @@ export const journeyOperations: INodeProperties[] = [
 
 export const journeyFields: INodeProperties[] = [
   // Journey ID for get, getStats
-  {
-    displayName: 'Journey ID',
-    name: 'journeyId',
-    type: 'string',
-    required: true,
-    displayOptions: {
-      show: {
-        resource: ['journey'],
-        operation: ['get', 'getStats'],
+  ...buildVersionedResourceLocator(
+    'journey',
+    {
+      displayName: 'Journey',
+      name: 'journeyId',
+      displayOptions: {
+        show: {
+          resource: ['journey'],
+          operation: ['get', 'getStats'],
+        },
       },
+      description: 'The journey to use',
     },
-    default: '',
-    description: 'The ID of the journey',
-  },
+    {
+      displayName: 'Journey ID',
+      description: 'The ID of the journey',
+    },
+  ),
   // Get all options
   {
     displayName: 'Return All',
@@ -158,12 +167,17 @@ export async function executeJourneyOperation(
   i: number,
 ): Promise<INodeExecutionData[]> {
   let responseData: IDataObject | IDataObject[];
+  let metadata: IDataObject = {};
 
   switch (operation) {
     case 'get': {
-      const journeyId = this.getNodeParameter('journeyId', i) as string;
+      const journeyId = await getResourceId.call(this, 'journeyId', 'journey', i);
 
-      responseData = await attentiveApiRequest.call(this, 'GET', `/journeys/${journeyId}`);
+      try {
+        responseData = await attentiveApiRequest.call(this, 'GET', `/journeys/${journeyId}`);
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'journey', journeyId, i);
+      }
       break;
     }
 
@@ -177,26 +191,19 @@ export async function executeJourneyOperation(
         query.status = filters.status;
       }
 
-      if (returnAll) {
-        responseData = await attentiveApiRequestAllItems.call(
-          this,
-          'GET',
-          '/journeys',
-          {},
-          query,
-          'journeys',
-        );
-      } else {
-        const limit = this.getNodeParameter('limit', i) as number;
-        query.limit = limit;
-        const response = await attentiveApiRequest.call(this, 'GET', '/journeys', {}, query);
-        responseData = (response.journeys as IDataObject[]) || [];
-      }
+      const maxItems = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+
+      const result = await attentivePaginate.call(this, 'GET', '/journeys', {}, query, {
+        dataKey: 'journeys',
+        maxItems,
+      });
+      responseData = result.items;
+      metadata = getPaginationMetadata(result);
       break;
     }
 
     case 'getStats': {
-      const journeyId = this.getNodeParameter('journeyId', i) as string;
+      const journeyId = await getResourceId.call(this, 'journeyId', 'journey', i);
       const dateRange = this.getNodeParameter('dateRange', i) as IDataObject;
 
       const query: IDataObject = {};
@@ -209,13 +216,17 @@ export async function executeJourneyOperation(
         query.endDate = new Date(dateRange.endDate as string).toISOString();
       }
 
-      responseData = await attentiveApiRequest.call(
-        this,
-        'GET',
-        `/journeys/${journeyId}/stats`,
-        {},
-        query,
-      );
+      try {
+        responseData = await attentiveApiRequest.call(
+          this,
+          'GET',
+          `/journeys/${journeyId}/stats`,
+          {},
+          query,
+        );
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'journey', journeyId, i);
+      }
       break;
     }
 
@@ -223,5 +234,5 @@ export async function executeJourneyOperation(
       throw new Error(`Unknown operation: ${operation}`);
   }
 
-  return buildReturnData(responseData);
+  return buildReturnData(responseData, metadata);
 }
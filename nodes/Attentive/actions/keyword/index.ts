@@ -6,7 +6,12 @@
  */
 
 import { IExecuteFunctions, IDataObject, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { attentiveApiRequest, attentiveApiRequestAllItems } from '../../transport';
+import { attentiveApiRequest, attentivePaginate, getPaginationMetadata } from '../../transport';
+import {
+  buildVersionedResourceLocator,
+  describeMissingResource,
+  getResourceId,
+} from '../../methods';
 import { buildReturnData } from '../../utils';
 
 export const keywordOperations: INodeProperties[] = [
@@ -40,20 +45,24 @@ export const keywordOperations: INodeProperties[] = [
 
 export const keywordFields: INodeProperties[] = [
   // Keyword ID
-  {
-    displayName: 'Keyword ID',
-    name: 'keywordId',
-    type: 'string',
-    required: true,
-    displayOptions: {
-      show: {
-        resource: ['keyword'],
-        operation: ['get'],
+  ...buildVersionedResourceLocator(
+    'keyword',
+    {
+      displayName: 'Keyword',
+      name: 'keywordId',
+      displayOptions: {
+        show: {
+          resource: ['keyword'],
+          operation: ['get'],
+        },
       },
+      description: 'The keyword to use',
     },
-    default: '',
-    description: 'The ID of the keyword',
-  },
+    {
+      displayName: 'Keyword ID',
+      description: 'The ID of the keyword',
+    },
+  ),
   // Get all options
   {
     displayName: 'Return All',
@@ -94,32 +103,34 @@ export async function executeKeywordOperation(
   i: number,
 ): Promise<INodeExecutionData[]> {
   let responseData: IDataObject | IDataObject[];
+  let metadata: IDataObject = {};
 
   switch (operation) {
     case 'get': {
-      const keywordId = this.getNodeParameter('keywordId', i) as string;
+      const keywordId = await getResourceId.call(this, 'keywordId', 'keyword', i);
 
-      responseData = await attentiveApiRequest.call(this, 'GET', `/keywords/${keywordId}`);
+      try {
+        responseData = await attentiveApiRequest.call(this, 'GET', `/keywords/${keywordId}`);
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'keyword', keywordId, i);
+      }
       break;
     }
 
     case 'getAll': {
       const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+      const maxItems = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-      if (returnAll) {
-        responseData = await attentiveApiRequestAllItems.call(
-          this,
-          'GET',
-          '/keywords',
-          {},
-          {},
-          'keywords',
-        );
-      } else {
-        const limit = this.getNodeParameter('limit', i) as number;
-        const response = await attentiveApiRequest.call(this, 'GET', '/keywords', {}, { limit });
-        responseData = (response.keywords as IDataObject[]) || [];
-      }
+      const result = await attentivePaginate.call(
+        this,
+        'GET',
+        '/keywords',
+        {},
+        {},
+        { dataKey: 'keywords', maxItems },
+      );
+      responseData = result.items;
+      metadata = getPaginationMetadata(result);
       break;
     }
 
@@ -127,5 +138,5 @@ export async function executeKeywordOperation(
       throw new Error(`Unknown operation: ${operation}`);
   }
 
-  return buildReturnData(responseData);
+  return buildReturnData(responseData, metadata);
 }
@@ -6,13 +6,41 @@
  */
 
 import { IExecuteFunctions, IDataObject, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { attentiveApiRequest } from '../../transport';
+import {
+  AttentiveApiError,
+  attentiveApiRequest,
+  attentivePaginate,
+  createValidationError,
+  getPaginationMetadata,
+  isDryRun,
+} from '../../transport';
+import { sleep } from '../../transport/retry';
 import {
   formatPhoneNumber,
   validatePhoneNumber,
   cleanObject,
   buildReturnData,
+  parseCustomAttributes,
+  addOutputMetadata,
+  getValueByPath,
+  chunkArray,
+  getTimestamp,
 } from '../../utils';
+import { normalizeMessageStatus } from '../../utils/messageStatus';
+import {
+  DEFAULT_SEND_WINDOW,
+  DEFAULT_TIMEZONE,
+  formatLocalTime,
+  getNextAllowedTime,
+  isValidTimezone,
+  resolveRecipientTimezone,
+} from '../../utils/quietHours';
+import {
+  calculateSegments,
+  getMmsLengthMessage,
+  getSegmentLimitMessage,
+} from '../../utils/smsSegments';
+import { ITemplateResult, renderTemplate } from '../../utils/template';
 
 export const messageOperations: INodeProperties[] = [
   {
@@ -26,6 +54,30 @@ export const messageOperations: INodeProperties[] = [
       },
     },
     options: [
+      {
+        name: 'Get',
+        value: 'get',
+        description: 'Get a message with its delivery status',
+        action: 'Get a message',
+      },
+      {
+        name: 'Get Many',
+        value: 'getAll',
+        description: 'Get many sent messages with their delivery status',
+        action: 'Get many messages',
+      },
+      {
+        name: 'Get Status',
+        value: 'getStatus',
+        description: 'Get the delivery status of a message',
+        action: 'Get the status of a message',
+      },
+      {
+        name: 'Preview',
+        value: 'preview',
+        description: 'Render a message template without sending it',
+        action: 'Preview a message',
+      },
       {
         name: 'Send',
         value: 'send',
@@ -49,7 +101,141 @@ export const messageOperations: INodeProperties[] = [
   },
 ];
 
+export const DEFAULT_BULK_CHUNK_SIZE = 100;
+
+/** Longest time, in minutes, the node waits in the workflow for a send window */
+export const MAX_QUIET_HOURS_WAIT = 15;
+
+const segmentLimitOptions: INodeProperties[] = [
+  {
+    displayName: 'Max Segments',
+    name: 'maxSegments',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    default: 1,
+    description: 'Maximum number of SMS segments the message body may use',
+  },
+  {
+    displayName: 'When Max Segments Is Exceeded',
+    name: 'segmentLimitAction',
+    type: 'options',
+    options: [
+      {
+        name: 'Fail',
+        value: 'fail',
+        description: 'Stop without sending the message',
+      },
+      {
+        name: 'Warn',
+        value: 'warn',
+        description: 'Send the message and add a warning to the output',
+      },
+    ],
+    default: 'fail',
+    description: 'What to do when the message body needs more segments than allowed',
+  },
+];
+
 export const messageFields: INodeProperties[] = [
+  // Lookup fields
+  {
+    displayName: 'Message ID',
+    name: 'messageId',
+    type: 'string',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['get', 'getStatus'],
+      },
+    },
+    default: '',
+    description: 'ID of the message, as returned when it was sent',
+  },
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['getAll'],
+      },
+    },
+    default: false,
+    description: 'Whether to return all results or only up to a given limit',
+  },
+  {
+    displayName: 'Limit',
+    name: 'limit',
+    type: 'number',
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['getAll'],
+        returnAll: [false],
+      },
+    },
+    typeOptions: {
+      minValue: 1,
+      maxValue: 100,
+    },
+    default: 50,
+    description: 'Max number of results to return',
+  },
+  {
+    displayName: 'Filters',
+    name: 'filters',
+    type: 'collection',
+    placeholder: 'Add Filter',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['getAll'],
+      },
+    },
+    options: [
+      {
+        displayName: 'External ID',
+        name: 'externalId',
+        type: 'string',
+        default: '',
+        description: 'Only return messages sent with this external reference ID',
+      },
+      {
+        displayName: 'Message Name',
+        name: 'messageName',
+        type: 'string',
+        default: '',
+        description: 'Only return messages sent with this message name',
+      },
+      {
+        displayName: 'Phone Number',
+        name: 'phone',
+        type: 'string',
+        default: '',
+        placeholder: '+19148440001',
+        description: 'Only return messages sent to this phone number',
+      },
+      {
+        displayName: 'Sent After',
+        name: 'startDate',
+        type: 'dateTime',
+        default: '',
+        description: 'Only return messages sent at or after this time',
+      },
+      {
+        displayName: 'Sent Before',
+        name: 'endDate',
+        type: 'dateTime',
+        default: '',
+        description: 'Only return messages sent before this time',
+      },
+    ],
+  },
   // Send fields
   {
     displayName: 'To Phone Number',
@@ -77,11 +263,87 @@ export const messageFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['message'],
-        operation: ['send', 'sendBulk', 'sendTransactional'],
+        operation: ['preview', 'send', 'sendBulk', 'sendTransactional'],
       },
     },
     default: '',
-    description: 'The message content to send',
+    description:
+      'The message content to send. Send, Send Bulk and Preview support {{firstName}} placeholders, filters like {{firstName | default: "there" | upper}} and {{#if vip}}...{{else}}...{{/if}} blocks.',
+  },
+  {
+    displayName: 'Template Data',
+    name: 'templateData',
+    type: 'options',
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['preview', 'send', 'sendBulk'],
+      },
+    },
+    options: [
+      {
+        name: 'None',
+        value: 'none',
+        description: 'Send the message body as is',
+      },
+      {
+        name: 'Input Item',
+        value: 'item',
+        description: 'Render placeholders with the JSON of the input item',
+      },
+      {
+        name: 'Custom Attributes',
+        value: 'attributes',
+        description: 'Render placeholders with the attributes entered below',
+      },
+      {
+        name: 'Custom Attributes and Input Item',
+        value: 'both',
+        description:
+          'Render placeholders with the attributes entered below, falling back to the input item',
+      },
+    ],
+    default: 'none',
+    description: 'Values used to render the placeholders in the message body',
+  },
+  {
+    displayName: 'Template Attributes',
+    name: 'templateAttributes',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['preview', 'send', 'sendBulk'],
+        templateData: ['attributes', 'both'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        name: 'attributes',
+        displayName: 'Attribute',
+        values: [
+          {
+            displayName: 'Key',
+            name: 'key',
+            type: 'string',
+            default: '',
+            description: 'Placeholder name',
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string',
+            default: '',
+            description: 'Placeholder value',
+          },
+        ],
+      },
+    ],
+    description: 'Custom attributes available to the message template',
   },
   {
     displayName: 'Message Name',
@@ -98,6 +360,37 @@ export const messageFields: INodeProperties[] = [
     description: 'Unique identifier for the transactional message template',
   },
   // Bulk send fields
+  {
+    displayName: 'Recipient Source',
+    name: 'recipientSource',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['sendBulk'],
+      },
+    },
+    options: [
+      {
+        name: 'Define Below',
+        value: 'manual',
+        description: 'Send one bulk message per input item to the recipients entered below',
+      },
+      {
+        name: 'JSON Array',
+        value: 'json',
+        description: 'Send one bulk message per input item to the recipients of a JSON array',
+      },
+      {
+        name: 'All Input Items',
+        value: 'inputItems',
+        description: 'Send a single bulk message with one recipient per input item',
+      },
+    ],
+    default: 'manual',
+    description: 'Where the recipients of the bulk message come from',
+  },
   {
     displayName: 'Recipients',
     name: 'recipients',
@@ -110,6 +403,7 @@ export const messageFields: INodeProperties[] = [
       show: {
         resource: ['message'],
         operation: ['sendBulk'],
+        recipientSource: ['manual'],
       },
     },
     default: {},
@@ -126,11 +420,241 @@ export const messageFields: INodeProperties[] = [
             placeholder: '+19148440001',
             description: 'Recipient phone number in E.164 format',
           },
+          {
+            displayName: 'Custom Attributes',
+            name: 'customAttributes',
+            type: 'json',
+            default: '{}',
+            description: 'Attributes of the recipient, also available to the message template',
+          },
+          {
+            displayName: 'Message Body',
+            name: 'body',
+            type: 'string',
+            default: '',
+            description: 'Message body for this recipient instead of the default message body',
+          },
+          {
+            displayName: 'Media URL',
+            name: 'mediaUrl',
+            type: 'string',
+            default: '',
+            description: 'Media for this recipient instead of the default media URL',
+          },
         ],
       },
     ],
     description: 'List of recipients for bulk message',
   },
+  {
+    displayName: 'Recipients (JSON)',
+    name: 'recipientsJson',
+    type: 'json',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['sendBulk'],
+        recipientSource: ['json'],
+      },
+    },
+    default: '[]',
+    placeholder: '[{"phone": "+19148440001", "customAttributes": {"firstName": "Jane"}}]',
+    description:
+      'Array of recipients with a phone number and optional customAttributes, body and mediaUrl',
+  },
+  {
+    displayName: 'Phone Number Field',
+    name: 'recipientPhoneField',
+    type: 'string',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['sendBulk'],
+        recipientSource: ['inputItems'],
+      },
+    },
+    default: 'phone',
+    placeholder: 'customer.phone',
+    description: 'Path of the input item field holding the recipient phone number',
+  },
+  {
+    displayName: 'Recipient Fields',
+    name: 'recipientFields',
+    type: 'collection',
+    placeholder: 'Add Field',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['sendBulk'],
+        recipientSource: ['inputItems'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Custom Attributes Field',
+        name: 'customAttributesField',
+        type: 'string',
+        default: '',
+        placeholder: 'customAttributes',
+        description: 'Path of the input item field holding an object of recipient attributes',
+      },
+      {
+        displayName: 'Message Body Field',
+        name: 'bodyField',
+        type: 'string',
+        default: '',
+        description: 'Path of the input item field holding a message body for the recipient',
+      },
+      {
+        displayName: 'Media URL Field',
+        name: 'mediaUrlField',
+        type: 'string',
+        default: '',
+        description: 'Path of the input item field holding a media URL for the recipient',
+      },
+    ],
+  },
+  // Quiet hours
+  {
+    displayName: 'Quiet Hours',
+    name: 'quietHours',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['send', 'sendBulk'],
+      },
+    },
+    options: [
+      {
+        name: 'Ignore',
+        value: 'off',
+        description: 'Send immediately regardless of the recipient time',
+      },
+      {
+        name: 'Schedule for Next Allowed Time',
+        value: 'schedule',
+        description: 'Pass the start of the next send window to Attentive as the send time',
+      },
+      {
+        name: 'Wait for Next Allowed Time',
+        value: 'wait',
+        description: `Wait in the workflow, up to ${MAX_QUIET_HOURS_WAIT} minutes, until the send window opens, then send`,
+      },
+      {
+        name: 'Route to Deferred Output',
+        value: 'defer',
+        description: 'Output messages outside the send window on a second output without sending',
+      },
+    ],
+    default: 'schedule',
+    description: 'How to handle recipients whose local time is outside the allowed send window',
+  },
+  {
+    displayName: 'Quiet Hours Options',
+    name: 'quietHoursOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['message'],
+        operation: ['send', 'sendBulk'],
+        quietHours: ['schedule', 'wait', 'defer'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Send Window Start',
+        name: 'sendWindowStart',
+        type: 'string',
+        default: DEFAULT_SEND_WINDOW.start,
+        placeholder: '08:00',
+        description: 'Earliest recipient local time (HH:mm) messages may be sent',
+      },
+      {
+        displayName: 'Send Window End',
+        name: 'sendWindowEnd',
+        type: 'string',
+        default: DEFAULT_SEND_WINDOW.end,
+        placeholder: '21:00',
+        description: 'Recipient local time (HH:mm) after which messages may no longer be sent',
+      },
+      {
+        displayName: 'Country Send Windows',
+        name: 'countryWindows',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
+        default: {},
+        options: [
+          {
+            name: 'window',
+            displayName: 'Window',
+            values: [
+              {
+                displayName: 'Country',
+                name: 'country',
+                type: 'string',
+                default: '',
+                placeholder: 'US',
+                description: 'ISO 3166-1 alpha-2 country code',
+              },
+              {
+                displayName: 'Start',
+                name: 'start',
+                type: 'string',
+                default: DEFAULT_SEND_WINDOW.start,
+                description: 'Earliest local time (HH:mm)',
+              },
+              {
+                displayName: 'End',
+                name: 'end',
+                type: 'string',
+                default: DEFAULT_SEND_WINDOW.end,
+                description: 'Latest local time (HH:mm)',
+              },
+            ],
+          },
+        ],
+        description: 'Send windows that replace the default window for recipients in a country',
+      },
+      {
+        displayName: 'Timezone Field',
+        name: 'timezoneField',
+        type: 'string',
+        default: '',
+        placeholder: 'customAttributes.timezone',
+        description:
+          'Path of the field holding the recipient IANA timezone. Takes precedence over the phone number. Read from the input item, or from the recipient for bulk messages defined below or as JSON.',
+      },
+      {
+        displayName: 'Default Timezone',
+        name: 'defaultTimezone',
+        type: 'string',
+        default: DEFAULT_TIMEZONE,
+        description:
+          'Timezone used when neither the timezone field nor the phone number resolve one',
+      },
+      {
+        displayName: 'Max Wait (Minutes)',
+        name: 'maxWait',
+        type: 'number',
+        typeOptions: {
+          minValue: 0,
+          maxValue: MAX_QUIET_HOURS_WAIT,
+        },
+        default: 5,
+        description:
+          'Longest time to wait for the send window when waiting for the next allowed time. The item fails if the window opens later.',
+      },
+    ],
+  },
   // Additional fields for all send operations
   {
     displayName: 'Options',
@@ -192,6 +716,22 @@ export const messageFields: INodeProperties[] = [
         default: '',
         description: 'External reference ID for tracking',
       },
+      {
+        displayName: 'Recipients per Request',
+        name: 'chunkSize',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        displayOptions: {
+          show: {
+            '/operation': ['sendBulk'],
+          },
+        },
+        default: DEFAULT_BULK_CHUNK_SIZE,
+        description: 'Maximum number of recipients sent in one bulk request',
+      },
+      ...segmentLimitOptions,
     ],
   },
   // Transactional message options
@@ -255,24 +795,614 @@ export const messageFields: INodeProperties[] = [
         ],
         description: 'Template variables to merge into the message',
       },
+      ...segmentLimitOptions,
     ],
   },
 ];
 
+/**
+ * Get the values available to the message template
+ * @param i - Item index
+ * @param sourceIndex - Index of the input item whose JSON is used
+ * @returns Template data, or undefined if the body is sent as is
+ */
+function getTemplateData(
+  this: IExecuteFunctions,
+  i: number,
+  sourceIndex = i,
+): IDataObject | undefined {
+  const templateData = this.getNodeParameter('templateData', i, 'none') as string;
+
+  if (templateData === 'none') {
+    return undefined;
+  }
+
+  let data: IDataObject = {};
+  if (templateData === 'item' || templateData === 'both') {
+    data = { ...this.getInputData()[sourceIndex].json };
+  }
+  if (templateData === 'attributes' || templateData === 'both') {
+    const attributes = this.getNodeParameter('templateAttributes', i, {}) as IDataObject;
+    Object.assign(data, parseCustomAttributes(attributes));
+  }
+  return data;
+}
+
+/**
+ * Render a message body with its template data
+ * @param i - Item index
+ * @param body - Message body template
+ * @param data - Template data, the body is sent as is without it
+ * @returns Rendered template
+ */
+function renderMessageBody(
+  this: IExecuteFunctions,
+  i: number,
+  body: string,
+  data = getTemplateData.call(this, i),
+): ITemplateResult {
+  if (!data) {
+    return { text: body, variables: [], missing: [] };
+  }
+
+  try {
+    return renderTemplate(body, data);
+  } catch (error) {
+    throw createValidationError(
+      this.getNode(),
+      `Invalid message template: ${(error as Error).message}`,
+      {
+        itemIndex: i,
+      },
+    );
+  }
+}
+
+/**
+ * Calculate the segments of a message body and enforce the configured segment limit
+ * @param i - Item index
+ * @param body - Message body as sent
+ * @param options - Message options
+ * @returns Output metadata with the segment information
+ */
+function getSegmentMetadata(
+  this: IExecuteFunctions,
+  i: number,
+  body: string,
+  options: IDataObject,
+): IDataObject {
+  const info = calculateSegments(body, {
+    useShortLinks: options.useShortLinks as boolean | undefined,
+    mediaUrl: options.mediaUrl as string | undefined,
+  });
+  const maxSegments = (options.maxSegments as number) || 0;
+  const limitMessage = getSegmentLimitMessage(info, maxSegments);
+
+  if (limitMessage && options.segmentLimitAction !== 'warn') {
+    throw createValidationError(this.getNode(), limitMessage, {
+      itemIndex: i,
+      description: 'Shorten the message body or raise "Max Segments"',
+    });
+  }
+
+  // Without Max Segments, nothing is enforced and an MMS over the length limit is only reported
+  const warning = maxSegments > 0 ? limitMessage : getMmsLengthMessage(info);
+  const segments = info as unknown as IDataObject;
+  return { segments: warning ? { ...segments, warning } : segments };
+}
+
+interface IQuietHoursRecipient {
+  phone: string;
+  sendAt?: Date;
+  info: IDataObject;
+}
+
+const deferredItems = new WeakSet<INodeExecutionData>();
+
+/**
+ * Check whether an output item was routed to the deferred output by quiet hours
+ * @param item - Output item
+ * @returns true if the item belongs on the deferred output
+ */
+export function isDeferredItem(item: INodeExecutionData): boolean {
+  return deferredItems.has(item);
+}
+
+/**
+ * Resolve the timezone and next allowed send time of each recipient
+ * @param i - Item index
+ * @param recipients - Recipient phone numbers with the data holding their timezone field
+ * @returns Recipients with their send time, if sending has to wait
+ */
+function getQuietHoursRecipients(
+  this: IExecuteFunctions,
+  i: number,
+  recipients: Array<{ phone: string; source: IDataObject }>,
+): IQuietHoursRecipient[] {
+  const options = this.getNodeParameter('quietHoursOptions', i, {}) as IDataObject;
+  const defaultTimezone = (options.defaultTimezone as string) || DEFAULT_TIMEZONE;
+  const countryWindows =
+    ((options.countryWindows as IDataObject | undefined)?.window as IDataObject[] | undefined) ||
+    [];
+
+  if (!isValidTimezone(defaultTimezone)) {
+    throw createValidationError(this.getNode(), `Unknown timezone "${defaultTimezone}"`, {
+      itemIndex: i,
+    });
+  }
+
+  const now = new Date();
+
+  return recipients.map(({ phone, source: recipientSource }) => {
+    const timezoneField = options.timezoneField
+      ? getValueByPath(recipientSource, options.timezoneField as string)
+      : undefined;
+    const { timezone, country, source } = resolveRecipientTimezone(
+      phone,
+      timezoneField ? String(timezoneField) : undefined,
+      defaultTimezone,
+    );
+    const countryWindow = countryWindows.find(
+      (window) => String(window.country).trim().toUpperCase() === country,
+    );
+    const window = {
+      start:
+        ((countryWindow?.start ?? options.sendWindowStart) as string) || DEFAULT_SEND_WINDOW.start,
+      end: ((countryWindow?.end ?? options.sendWindowEnd) as string) || DEFAULT_SEND_WINDOW.end,
+    };
+
+    let nextAllowedTime: Date;
+    try {
+      nextAllowedTime = getNextAllowedTime(now, timezone, window);
+    } catch (error) {
+      throw createValidationError(this.getNode(), (error as Error).message, { itemIndex: i });
+    }
+    const sendAt = nextAllowedTime > now ? nextAllowedTime : undefined;
+
+    return {
+      phone,
+      sendAt,
+      info: cleanObject({
+        phone,
+        timezone,
+        timezoneSource: source,
+        country,
+        localTime: formatLocalTime(now, timezone),
+        sendWindow: `${window.start}-${window.end}`,
+        deferred: !!sendAt,
+        nextAllowedAt: sendAt?.toISOString(),
+      }),
+    };
+  });
+}
+
+/**
+ * Get how long to wait for the send window, failing if it opens after the configured max wait
+ * @param i - Item index
+ * @param sendAt - Start of the send window
+ * @returns Wait time in milliseconds, 0 during a dry run
+ */
+function getSendWindowWait(this: IExecuteFunctions, i: number, sendAt: Date): number {
+  const options = this.getNodeParameter('quietHoursOptions', i, {}) as IDataObject;
+  const maxWait = Math.min((options.maxWait as number | undefined) ?? 5, MAX_QUIET_HOURS_WAIT);
+  const maxWaitMs = maxWait * 60000;
+  const waitMs = sendAt.getTime() - Date.now();
+
+  if (waitMs > maxWaitMs) {
+    throw createValidationError(
+      this.getNode(),
+      `The send window opens at ${sendAt.toISOString()}, later than the max wait allows`,
+      {
+        itemIndex: i,
+        description: 'Schedule or defer the message instead',
+      },
+    );
+  }
+
+  return isDryRun.call(this) ? 0 : waitMs;
+}
+
+/**
+ * Build a deferred output item for the input item
+ * @param i - Item index
+ * @param metadata - Metadata describing why the item was deferred
+ * @returns Output item marked as deferred
+ */
+function buildDeferredItem(
+  this: IExecuteFunctions,
+  i: number,
+  metadata: IDataObject,
+): INodeExecutionData {
+  const [item] = addOutputMetadata(
+    [{ json: { ...this.getInputData()[i].json }, pairedItem: { item: i } }],
+    metadata,
+  );
+  deferredItems.add(item);
+  return item;
+}
+
+interface IBulkRecipient {
+  phone: string;
+  customAttributes?: IDataObject;
+  body?: string;
+  mediaUrl?: string;
+  sourceIndex: number;
+  source: IDataObject;
+}
+
+/**
+ * Parse the custom attributes of a recipient
+ * @param i - Item index
+ * @param value - Attributes object or JSON string
+ * @returns Attributes
+ */
+function parseRecipientAttributes(
+  this: IExecuteFunctions,
+  i: number,
+  value: IDataObject[string] | undefined,
+): IDataObject | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  let attributes = value;
+  if (typeof attributes === 'string') {
+    try {
+      attributes = JSON.parse(attributes);
+    } catch {
+      throw createValidationError(this.getNode(), 'Recipient custom attributes must be JSON', {
+        itemIndex: i,
+      });
+    }
+  }
+
+  if (typeof attributes !== 'object' || Array.isArray(attributes)) {
+    throw createValidationError(this.getNode(), 'Recipient custom attributes must be an object', {
+      itemIndex: i,
+    });
+  }
+  return attributes as IDataObject;
+}
+
+/**
+ * Collect the recipients of a bulk message from the configured recipient source
+ * @param i - Item index
+ * @returns Recipients with their attributes and overrides
+ */
+function getBulkRecipients(this: IExecuteFunctions, i: number): IBulkRecipient[] {
+  const recipientSource = this.getNodeParameter('recipientSource', i, 'manual') as string;
+  let recipients: IBulkRecipient[];
+
+  if (recipientSource === 'inputItems') {
+    const phoneField = this.getNodeParameter('recipientPhoneField', i) as string;
+    const fields = this.getNodeParameter('recipientFields', i, {}) as IDataObject;
+
+    recipients = this.getInputData().map(({ json }, sourceIndex) => {
+      const read = (path: unknown) => (path ? getValueByPath(json, path as string) : undefined);
+      const phone = read(phoneField);
+      const body = read(fields.bodyField);
+      const mediaUrl = read(fields.mediaUrlField);
+      return {
+        phone: phone !== undefined && phone !== null ? String(phone) : '',
+        customAttributes: parseRecipientAttributes.call(
+          this,
+          i,
+          read(fields.customAttributesField),
+        ),
+        body: body ? String(body) : undefined,
+        mediaUrl: mediaUrl ? String(mediaUrl) : undefined,
+        sourceIndex,
+        source: json,
+      };
+    });
+  } else {
+    let list: IDataObject[];
+    if (recipientSource === 'json') {
+      let value = this.getNodeParameter('recipientsJson', i) as IDataObject[] | string;
+      if (typeof value === 'string') {
+        try {
+          value = JSON.parse(value) as IDataObject[];
+        } catch {
+          throw createValidationError(this.getNode(), 'Recipients (JSON) must be valid JSON', {
+            itemIndex: i,
+          });
+        }
+      }
+      if (!Array.isArray(value)) {
+        throw createValidationError(this.getNode(), 'Recipients (JSON) must be an array', {
+          itemIndex: i,
+        });
+      }
+      list = value;
+    } else {
+      const recipientsInput = this.getNodeParameter('recipients', i) as IDataObject;
+      list = (recipientsInput.recipient as IDataObject[] | undefined) || [];
+    }
+
+    recipients = list.map((recipient) => ({
+      phone: String(recipient.phone ?? ''),
+      customAttributes: parseRecipientAttributes.call(this, i, recipient.customAttributes),
+      body: (recipient.body as string | undefined) || undefined,
+      mediaUrl: (recipient.mediaUrl as string | undefined) || undefined,
+      sourceIndex: i,
+      source: recipient,
+    }));
+  }
+
+  for (const recipient of recipients) {
+    recipient.phone = formatPhoneNumber(recipient.phone);
+    validatePhoneNumber(recipient.phone, this);
+  }
+
+  if (recipients.length === 0) {
+    throw createValidationError(this.getNode(), 'No recipients to send the message to', {
+      itemIndex: i,
+    });
+  }
+
+  return recipients;
+}
+
+/**
+ * Send a bulk message, personalized per recipient and split into chunks and quiet hours batches
+ * @param i - Item index
+ * @returns Aggregated results, plus a deferred item for recipients routed to the deferred output
+ */
+async function executeSendBulk(this: IExecuteFunctions, i: number): Promise<INodeExecutionData[]> {
+  const template = this.getNodeParameter('body', i) as string;
+  const options = this.getNodeParameter('options', i) as IDataObject;
+  const quietHours = this.getNodeParameter('quietHours', i, 'schedule') as string;
+  const chunkSize = (options.chunkSize as number | undefined) ?? DEFAULT_BULK_CHUNK_SIZE;
+  const recipients = getBulkRecipients.call(this, i);
+
+  const body = renderMessageBody.call(this, i, template).text;
+  let metadata = getSegmentMetadata.call(this, i, body, options);
+  const maxSegments = (data: IDataObject) => (data.segments as IDataObject).segments as number;
+
+  // Render each recipient's message, reporting the segments of the longest one
+  const messages = new Map<IBulkRecipient, IDataObject>();
+  for (const recipient of recipients) {
+    const templateData = getTemplateData.call(this, i, recipient.sourceIndex);
+    const recipientBody = renderMessageBody.call(
+      this,
+      i,
+      recipient.body ?? template,
+      templateData && { ...templateData, ...recipient.customAttributes },
+    ).text;
+
+    if (recipientBody !== body || recipient.mediaUrl) {
+      const segmentMetadata = getSegmentMetadata.call(this, i, recipientBody, {
+        ...options,
+        mediaUrl: recipient.mediaUrl || options.mediaUrl,
+      });
+      if (maxSegments(segmentMetadata) > maxSegments(metadata)) {
+        metadata = segmentMetadata;
+      }
+    }
+
+    messages.set(
+      recipient,
+      cleanObject({
+        phone: recipient.phone,
+        customAttributes: recipient.customAttributes,
+        body: recipientBody !== body ? recipientBody : undefined,
+        mediaUrl: recipient.mediaUrl,
+      }),
+    );
+  }
+
+  const requestBody: IDataObject = {
+    body,
+  };
+
+  if (options.subscriptionType) {
+    requestBody.subscriptionType = options.subscriptionType;
+  }
+
+  if (options.mediaUrl) {
+    requestBody.mediaUrl = options.mediaUrl;
+  }
+
+  if (options.messageName) {
+    requestBody.messageName = options.messageName;
+  }
+
+  if (options.useShortLinks !== undefined) {
+    requestBody.useShortLinks = options.useShortLinks;
+  }
+
+  // Group recipients by send time, starting with the recipients that can be sent to now
+  const batches = new Map<number, IBulkRecipient[]>();
+  const deferredOutput: INodeExecutionData[] = [];
+
+  if (quietHours === 'off') {
+    batches.set(0, recipients);
+  } else {
+    const planned = getQuietHoursRecipients.call(this, i, recipients);
+    metadata.quietHours = { recipients: planned.map((recipient) => recipient.info) };
+
+    const deferred = planned.filter((recipient) => recipient.sendAt);
+    if (quietHours === 'defer' && deferred.length > 0) {
+      deferredOutput.push(
+        buildDeferredItem.call(this, i, {
+          ...metadata,
+          quietHours: { recipients: deferred.map((recipient) => recipient.info) },
+        }),
+      );
+    }
+
+    planned.forEach((plan, index) => {
+      if (quietHours === 'defer' && plan.sendAt) {
+        return;
+      }
+      const sendTime = plan.sendAt?.getTime() ?? 0;
+      batches.set(sendTime, [...(batches.get(sendTime) || []), recipients[index]]);
+    });
+  }
+
+  const sendTimes = [...batches.keys()].sort((a, b) => a - b);
+  if (sendTimes.length === 0) {
+    return deferredOutput;
+  }
+
+  // Fail before sending anything if the last send window opens too late
+  const lastSendTime = sendTimes[sendTimes.length - 1];
+  if (quietHours === 'wait' && lastSendTime) {
+    getSendWindowWait.call(this, i, new Date(lastSendTime));
+  }
+
+  const results: IDataObject[] = [];
+  let firstError: AttentiveApiError | undefined;
+
+  for (const sendTime of sendTimes) {
+    const sendAt = sendTime ? new Date(sendTime) : undefined;
+
+    if (sendAt && quietHours === 'wait') {
+      await sleep(getSendWindowWait.call(this, i, sendAt));
+    }
+
+    for (const chunk of chunkArray(batches.get(sendTime) as IBulkRecipient[], chunkSize)) {
+      const result: IDataObject = {
+        sendAt: sendAt ? sendAt.toISOString() : null,
+        recipients: chunk.map((recipient) => recipient.phone),
+      };
+
+      try {
+        result.response = await attentiveApiRequest.call(
+          this,
+          'POST',
+          '/messages/bulk',
+          cleanObject({
+            ...requestBody,
+            recipients: chunk.map((recipient) => messages.get(recipient) as IDataObject),
+            sendAt: sendAt && quietHours === 'schedule' ? sendAt.toISOString() : undefined,
+          }),
+        );
+        results.push({ success: true, ...result });
+      } catch (error) {
+        // Keep sending the remaining chunks, the failed ones are reported in the output
+        if (!(error instanceof AttentiveApiError)) {
+          throw error;
+        }
+        firstError = firstError || error;
+        results.push({ success: false, ...result, ...error.toOutput() });
+      }
+    }
+  }
+
+  // Failed chunks only stay in the output when continuing on fail and some chunks were sent
+  const failedRequests = results.filter((result) => !result.success).length;
+  if (firstError && (failedRequests === results.length || !this.continueOnFail())) {
+    if (failedRequests < results.length) {
+      firstError.description = [
+        `${failedRequests} of ${results.length} bulk requests failed, the other recipients were sent the message`,
+        firstError.description,
+      ]
+        .filter(Boolean)
+        .join('. ');
+    }
+    throw firstError;
+  }
+
+  const responseData =
+    results.length === 1 && quietHours === 'off'
+      ? (results[0].response as IDataObject)
+      : {
+          recipients: recipients.length,
+          requests: results.length,
+          failedRequests,
+          batches: results,
+        };
+
+  return [...buildReturnData(responseData, metadata), ...deferredOutput];
+}
+
 export async function executeMessageOperation(
   this: IExecuteFunctions,
   operation: string,
   i: number,
 ): Promise<INodeExecutionData[]> {
-  let responseData: IDataObject;
+  let responseData: IDataObject | undefined;
+  let metadata: IDataObject = {};
+  const deferredOutput: INodeExecutionData[] = [];
 
   switch (operation) {
+    case 'get': {
+      const messageId = this.getNodeParameter('messageId', i) as string;
+      const message = await attentiveApiRequest.call(
+        this,
+        'GET',
+        `/messages/${encodeURIComponent(messageId)}`,
+      );
+      const record = (message.message as IDataObject | undefined) || message;
+      responseData = { ...normalizeMessageStatus(record), message: record };
+      break;
+    }
+
+    case 'getAll': {
+      const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+      const maxItems = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+      const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+
+      const query: IDataObject = {
+        messageName: filters.messageName,
+        externalId: filters.externalId,
+        startDate: filters.startDate ? getTimestamp(filters.startDate as string) : undefined,
+        endDate: filters.endDate ? getTimestamp(filters.endDate as string) : undefined,
+      };
+      if (filters.phone) {
+        query.phone = formatPhoneNumber(filters.phone as string);
+        validatePhoneNumber(query.phone as string, this);
+      }
+
+      const result = await attentivePaginate.call(
+        this,
+        'GET',
+        '/messages',
+        {},
+        cleanObject(query),
+        { dataKey: 'messages', maxItems },
+      );
+      const records = result.items.map((message) => ({
+        ...normalizeMessageStatus(message),
+        message,
+      }));
+      return buildReturnData(records, getPaginationMetadata(result));
+    }
+
+    case 'getStatus': {
+      const messageId = this.getNodeParameter('messageId', i) as string;
+      const status = await attentiveApiRequest.call(
+        this,
+        'GET',
+        `/messages/${encodeURIComponent(messageId)}/status`,
+      );
+      responseData = normalizeMessageStatus({ messageId, ...status });
+      break;
+    }
+
+    case 'preview': {
+      const template = this.getNodeParameter('body', i) as string;
+      const rendered = renderMessageBody.call(this, i, template);
+
+      responseData = {
+        body: rendered.text,
+        length: rendered.text.length,
+        variables: rendered.variables,
+        missingVariables: rendered.missing,
+        segments: calculateSegments(rendered.text) as unknown as IDataObject,
+        template,
+      };
+      break;
+    }
+
     case 'send': {
       const to = formatPhoneNumber(this.getNodeParameter('to', i) as string);
       validatePhoneNumber(to, this);
 
-      const body = this.getNodeParameter('body', i) as string;
+      const body = renderMessageBody.call(this, i, this.getNodeParameter('body', i) as string).text;
       const options = this.getNodeParameter('options', i) as IDataObject;
+      metadata = getSegmentMetadata.call(this, i, body, options);
 
       const requestBody: IDataObject = {
         to,
@@ -303,61 +1433,37 @@ export async function executeMessageOperation(
         requestBody.externalId = options.externalId;
       }
 
-      responseData = await attentiveApiRequest.call(
-        this,
-        'POST',
-        '/messages/send',
-        cleanObject(requestBody),
-      );
-      break;
-    }
+      const quietHours = this.getNodeParameter('quietHours', i, 'schedule') as string;
+      if (quietHours !== 'off') {
+        const [recipient] = getQuietHoursRecipients.call(this, i, [
+          { phone: to, source: this.getInputData()[i].json },
+        ]);
+        metadata.quietHours = recipient.info;
 
-    case 'sendBulk': {
-      const body = this.getNodeParameter('body', i) as string;
-      const recipientsInput = this.getNodeParameter('recipients', i) as IDataObject;
-      const options = this.getNodeParameter('options', i) as IDataObject;
-
-      const recipients: IDataObject[] = [];
-      const recipientsList = recipientsInput.recipient as IDataObject[] | undefined;
-
-      if (recipientsList && Array.isArray(recipientsList)) {
-        for (const recipient of recipientsList) {
-          const phone = formatPhoneNumber(recipient.phone as string);
-          validatePhoneNumber(phone, this);
-          recipients.push({ phone });
+        if (recipient.sendAt && quietHours === 'defer') {
+          deferredOutput.push(buildDeferredItem.call(this, i, metadata));
+          break;
+        }
+        if (recipient.sendAt && quietHours === 'wait') {
+          await sleep(getSendWindowWait.call(this, i, recipient.sendAt));
+        }
+        if (recipient.sendAt && quietHours === 'schedule') {
+          requestBody.sendAt = recipient.sendAt.toISOString();
         }
-      }
-
-      const requestBody: IDataObject = {
-        recipients,
-        body,
-      };
-
-      if (options.subscriptionType) {
-        requestBody.subscriptionType = options.subscriptionType;
-      }
-
-      if (options.mediaUrl) {
-        requestBody.mediaUrl = options.mediaUrl;
-      }
-
-      if (options.messageName) {
-        requestBody.messageName = options.messageName;
-      }
-
-      if (options.useShortLinks !== undefined) {
-        requestBody.useShortLinks = options.useShortLinks;
       }
 
       responseData = await attentiveApiRequest.call(
         this,
         'POST',
-        '/messages/bulk',
+        '/messages/send',
         cleanObject(requestBody),
       );
       break;
     }
 
+    case 'sendBulk':
+      return executeSendBulk.call(this, i);
+
     case 'sendTransactional': {
       const to = formatPhoneNumber(this.getNodeParameter('to', i) as string);
       validatePhoneNumber(to, this);
@@ -365,6 +1471,7 @@ export async function executeMessageOperation(
       const body = this.getNodeParameter('body', i) as string;
       const messageName = this.getNodeParameter('messageName', i) as string;
       const options = this.getNodeParameter('transactionalOptions', i) as IDataObject;
+      metadata = getSegmentMetadata.call(this, i, body, options);
 
       const requestBody: IDataObject = {
         to,
@@ -410,5 +1517,6 @@ export async function executeMessageOperation(
       throw new Error(`Unknown operation: ${operation}`);
   }
 
-  return buildReturnData(responseData);
+  const returnData = responseData ? buildReturnData(responseData, metadata) : [];
+  return [...returnData, ...deferredOutput];
 }
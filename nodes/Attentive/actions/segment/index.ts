@@ -6,7 +6,12 @@
  */
 
 import { IExecuteFunctions, IDataObject, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { attentiveApiRequest, attentiveApiRequestAllItems } from '../../transport';
+import { attentiveApiRequest, attentivePaginate, getPaginationMetadata } from '../../transport';
+import {
+  buildVersionedResourceLocator,
+  describeMissingResource,
+  getResourceId,
+} from '../../methods';
 import { cleanObject, buildReturnData } from '../../utils';
 
 export const segmentOperations: INodeProperties[] = [
@@ -64,20 +69,24 @@ export const segmentOperations: INodeProperties[] = [
 
 export const segmentFields: INodeProperties[] = [
   // Segment ID for get, update, delete, getMembers
-  {
-    displayName: 'Segment ID',
-    name: 'segmentId',
-    type: 'string',
-    required: true,
-    displayOptions: {
-      show: {
-        resource: ['segment'],
-        operation: ['get', 'update', 'delete', 'getMembers'],
+  ...buildVersionedResourceLocator(
+    'segment',
+    {
+      displayName: 'Segment',
+      name: 'segmentId',
+      displayOptions: {
+        show: {
+          resource: ['segment'],
+          operation: ['get', 'update', 'delete', 'getMembers'],
+        },
       },
+      description: 'The segment to use',
     },
-    default: '',
-    description: 'The ID of the segment',
-  },
+    {
+      displayName: 'Segment ID',
+      description: 'The ID of the segment',
+    },
+  ),
   // Create fields
   {
     displayName: 'Segment Name',
@@ -176,6 +185,7 @@ export async function executeSegmentOperation(
   i: number,
 ): Promise<INodeExecutionData[]> {
   let responseData: IDataObject | IDataObject[];
+  let metadata: IDataObject = {};
 
   switch (operation) {
     case 'create': {
@@ -200,34 +210,35 @@ export async function executeSegmentOperation(
     }
 
     case 'get': {
-      const segmentId = this.getNodeParameter('segmentId', i) as string;
+      const segmentId = await getResourceId.call(this, 'segmentId', 'segment', i);
 
-      responseData = await attentiveApiRequest.call(this, 'GET', `/segments/${segmentId}`);
+      try {
+        responseData = await attentiveApiRequest.call(this, 'GET', `/segments/${segmentId}`);
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'segment', segmentId, i);
+      }
       break;
     }
 
     case 'getAll': {
       const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+      const maxItems = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-      if (returnAll) {
-        responseData = await attentiveApiRequestAllItems.call(
-          this,
-          'GET',
-          '/segments',
-          {},
-          {},
-          'segments',
-        );
-      } else {
-        const limit = this.getNodeParameter('limit', i) as number;
-        const response = await attentiveApiRequest.call(this, 'GET', '/segments', {}, { limit });
-        responseData = (response.segments as IDataObject[]) || [];
-      }
+      const result = await attentivePaginate.call(
+        this,
+        'GET',
+        '/segments',
+        {},
+        {},
+        { dataKey: 'segments', maxItems },
+      );
+      responseData = result.items;
+      metadata = getPaginationMetadata(result);
       break;
     }
 
     case 'update': {
-      const segmentId = this.getNodeParameter('segmentId', i) as string;
+      const segmentId = await getResourceId.call(this, 'segmentId', 'segment', i, true);
       const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
 
       const body: IDataObject = {};
@@ -250,7 +261,7 @@ export async function executeSegmentOperation(
     }
 
     case 'delete': {
-      const segmentId = this.getNodeParameter('segmentId', i) as string;
+      const segmentId = await getResourceId.call(this, 'segmentId', 'segment', i, true);
 
       await attentiveApiRequest.call(this, 'DELETE', `/segments/${segmentId}`);
       responseData = { success: true, segmentId };
@@ -258,29 +269,25 @@ export async function executeSegmentOperation(
     }
 
     case 'getMembers': {
-      const segmentId = this.getNodeParameter('segmentId', i) as string;
+      const segmentId = await getResourceId.call(this, 'segmentId', 'segment', i);
       const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+      const maxItems = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-      if (returnAll) {
-        responseData = await attentiveApiRequestAllItems.call(
+      let result;
+      try {
+        result = await attentivePaginate.call(
           this,
           'GET',
           `/segments/${segmentId}/members`,
           {},
           {},
-          'members',
-        );
-      } else {
-        const limit = this.getNodeParameter('limit', i) as number;
-        const response = await attentiveApiRequest.call(
-          this,
-          'GET',
-          `/segments/${segmentId}/members`,
-          {},
-          { limit },
+          { dataKey: 'members', maxItems },
         );
-        responseData = (response.members as IDataObject[]) || [];
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'segment', segmentId, i);
       }
+      responseData = result.items;
+      metadata = getPaginationMetadata(result);
       break;
     }
 
@@ -288,5 +295,5 @@ export async function executeSegmentOperation(
       throw new Error(`Unknown operation: ${operation}`);
   }
 
-  return buildReturnData(responseData);
+  return buildReturnData(responseData, metadata);
 }
@@ -6,7 +6,12 @@
  */
 
 import { IExecuteFunctions, IDataObject, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { attentiveApiRequest, attentiveApiRequestAllItems } from '../../transport';
+import { attentiveApiRequest, attentivePaginate, getPaginationMetadata } from '../../transport';
+import {
+  buildVersionedResourceLocator,
+  describeMissingResource,
+  getResourceId,
+} from '../../methods';
 import { buildReturnData } from '../../utils';
 
 export const signUpUnitOperations: INodeProperties[] = [
@@ -46,20 +51,24 @@ export const signUpUnitOperations: INodeProperties[] = [
 
 export const signUpUnitFields: INodeProperties[] = [
   // Sign-up unit ID
-  {
-    displayName: 'Sign-Up Unit ID',
-    name: 'signUpUnitId',
-    type: 'string',
-    required: true,
-    displayOptions: {
-      show: {
-        resource: ['signUpUnit'],
-        operation: ['get', 'getStats'],
+  ...buildVersionedResourceLocator(
+    'signUpUnit',
+    {
+      displayName: 'Sign-Up Unit',
+      name: 'signUpUnitId',
+      displayOptions: {
+        show: {
+          resource: ['signUpUnit'],
+          operation: ['get', 'getStats'],
+        },
       },
+      description: 'The sign-up unit to use',
     },
-    default: '',
-    description: 'The ID of the sign-up unit',
-  },
+    {
+      displayName: 'Sign-Up Unit ID',
+      description: 'The ID of the sign-up unit',
+    },
+  ),
   // Get all options
   {
     displayName: 'Return All',
@@ -158,16 +167,21 @@ export async function executeSignUpUnitOperation(
   i: number,
 ): Promise<INodeExecutionData[]> {
   let responseData: IDataObject | IDataObject[];
+  let metadata: IDataObject = {};
 
   switch (operation) {
     case 'get': {
-      const signUpUnitId = this.getNodeParameter('signUpUnitId', i) as string;
+      const signUpUnitId = await getResourceId.call(this, 'signUpUnitId', 'signUpUnit', i);
 
-      responseData = await attentiveApiRequest.call(
-        this,
-        'GET',
-        `/sign-up-units/${signUpUnitId}`,
-      );
+      try {
+        responseData = await attentiveApiRequest.call(
+          this,
+          'GET',
+          `/sign-up-units/${signUpUnitId}`,
+        );
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'signUpUnit', signUpUnitId, i);
+      }
       break;
     }
 
@@ -181,26 +195,19 @@ export async function executeSignUpUnitOperation(
         query.type = filters.type;
       }
 
-      if (returnAll) {
-        responseData = await attentiveApiRequestAllItems.call(
-          this,
-          'GET',
-          '/sign-up-units',
-          {},
-          query,
-          'signUpUnits',
-        );
-      } else {
-        const limit = this.getNodeParameter('limit', i) as number;
-        query.limit = limit;
-        const response = await attentiveApiRequest.call(this, 'GET', '/sign-up-units', {}, query);
-        responseData = (response.signUpUnits as IDataObject[]) || [];
-      }
+      const maxItems = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
+
+      const result = await attentivePaginate.call(this, 'GET', '/sign-up-units', {}, query, {
+        dataKey: 'signUpUnits',
+        maxItems,
+      });
+      responseData = result.items;
+      metadata = getPaginationMetadata(result);
       break;
     }
 
     case 'getStats': {
-      const signUpUnitId = this.getNodeParameter('signUpUnitId', i) as string;
+      const signUpUnitId = await getResourceId.call(this, 'signUpUnitId', 'signUpUnit', i);
       const dateRange = this.getNodeParameter('dateRange', i) as IDataObject;
 
       const query: IDataObject = {};
@@ -213,13 +220,17 @@ export async function executeSignUpUnitOperation(
         query.endDate = new Date(dateRange.endDate as string).toISOString();
       }
 
-      responseData = await attentiveApiRequest.call(
-        this,
-        'GET',
-        `/sign-up-units/${signUpUnitId}/stats`,
-        {},
-        query,
-      );
+      try {
+        responseData = await attentiveApiRequest.call(
+          this,
+          'GET',
+          `/sign-up-units/${signUpUnitId}/stats`,
+          {},
+          query,
+        );
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'signUpUnit', signUpUnitId, i);
+      }
       break;
     }
 
@@ -227,5 +238,5 @@ export async function executeSignUpUnitOperation(
       throw new Error(`Unknown operation: ${operation}`);
   }
 
-  return buildReturnData(responseData);
+  return buildReturnData(responseData, metadata);
 }
@@ -5,14 +5,33 @@
  * See LICENSE file for details.
  */
 
-import { IExecuteFunctions, IDataObject, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { attentiveApiRequest } from '../../transport';
+import {
+  IExecuteFunctions,
+  IDataObject,
+  INodeExecutionData,
+  INodeProperties,
+} from 'n8n-workflow';
+import {
+  attentiveApiRequest,
+  AttentiveApiError,
+  AttentiveNotFoundError,
+  createValidationError,
+} from '../../transport';
+import { buildVersionedResourceLocator, getResourceId } from '../../methods';
+import { SubscriberIdentifierType } from '../../types/AttentiveTypes';
 import {
   formatPhoneNumber,
   validatePhoneNumber,
   cleanObject,
   parseCustomAttributes,
   buildReturnData,
+  getValueByPath,
+  chunkArray,
+  runWithConcurrency,
+  buildUserIdentifier,
+  buildUserIdentifierQuery,
+  diffSubscriberFields,
+  extractSubscriber,
 } from '../../utils';
 
 export const subscriberOperations: INodeProperties[] = [
@@ -33,6 +52,12 @@ export const subscriberOperations: INodeProperties[] = [
         description: 'Get subscription status for a subscriber',
         action: 'Get subscriber status',
       },
+      {
+        name: 'Import',
+        value: 'importBulk',
+        description: 'Subscribe every input item with its own request, throttled in chunks',
+        action: 'Import subscribers',
+      },
       {
         name: 'Subscribe',
         value: 'subscribe',
@@ -51,6 +76,12 @@ export const subscriberOperations: INodeProperties[] = [
         description: 'Update subscriber attributes',
         action: 'Update subscriber',
       },
+      {
+        name: 'Upsert',
+        value: 'upsert',
+        description: 'Subscribe if new, otherwise update only the changed attributes',
+        action: 'Upsert subscriber',
+      },
     ],
     default: 'subscribe',
   },
@@ -66,26 +97,239 @@ export const subscriberFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['subscriber'],
-        operation: ['subscribe', 'unsubscribe', 'get', 'update'],
+        operation: ['subscribe'],
       },
     },
     default: '',
     placeholder: '+19148440001',
     description: 'Phone number in E.164 format (e.g., +19148440001)',
   },
+  // Identifier fields for get, update, unsubscribe
+  {
+    displayName: 'Identifier Type',
+    name: 'identifierType',
+    type: 'options',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['unsubscribe', 'get', 'update', 'upsert'],
+      },
+    },
+    options: [
+      { name: 'Phone', value: 'phone' },
+      { name: 'Email', value: 'email' },
+      { name: 'Subscriber ID', value: 'subscriberId' },
+      { name: 'Client External ID', value: 'clientUserId' },
+    ],
+    default: 'phone',
+    description: 'How to identify the subscriber',
+  },
   {
-    displayName: 'Sign-Up Source ID',
-    name: 'signUpSourceId',
+    displayName: 'Phone Number',
+    name: 'phone',
     type: 'string',
     required: true,
     displayOptions: {
       show: {
         resource: ['subscriber'],
-        operation: ['subscribe'],
+        operation: ['unsubscribe', 'get', 'update', 'upsert'],
+        identifierType: ['phone'],
+      },
+    },
+    default: '',
+    placeholder: '+19148440001',
+    description: 'Phone number in E.164 format (e.g., +19148440001)',
+  },
+  {
+    displayName: 'Email',
+    name: 'email',
+    type: 'string',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['unsubscribe', 'get', 'update', 'upsert'],
+        identifierType: ['email'],
+      },
+    },
+    default: '',
+    placeholder: 'name@email.com',
+    description: 'Email address of the subscriber',
+  },
+  {
+    displayName: 'Subscriber ID',
+    name: 'subscriberId',
+    type: 'string',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['unsubscribe', 'get', 'update', 'upsert'],
+        identifierType: ['subscriberId'],
       },
     },
     default: '',
-    description: 'The sign-up source ID from your Attentive account',
+    description: 'The Attentive subscriber ID',
+  },
+  {
+    displayName: 'Client External ID',
+    name: 'clientUserId',
+    type: 'string',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['unsubscribe', 'get', 'update', 'upsert'],
+        identifierType: ['clientUserId'],
+      },
+    },
+    default: '',
+    description: 'Your own identifier for the subscriber (externalIdentifiers.clientUserId)',
+  },
+  ...buildVersionedResourceLocator(
+    'signUpUnit',
+    {
+      displayName: 'Sign-Up Source',
+      name: 'signUpSourceId',
+      displayOptions: {
+        show: {
+          resource: ['subscriber'],
+          operation: ['subscribe', 'importBulk', 'upsert'],
+        },
+      },
+      description:
+        'The sign-up unit subscribers are attributed to. For Upsert, only used when the subscriber is created.',
+    },
+    {
+      displayName: 'Sign-Up Source ID',
+      description:
+        'The sign-up source ID from your Attentive account. For Upsert, only used when the subscriber is created.',
+    },
+  ),
+  // Bulk import fields
+  {
+    displayName: 'Phone Field',
+    name: 'phoneField',
+    type: 'string',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['importBulk'],
+      },
+    },
+    default: 'phone',
+    placeholder: 'customer.phone',
+    description: 'Dot-separated path of the phone number in each input item',
+  },
+  {
+    displayName: 'Email Field',
+    name: 'emailField',
+    type: 'string',
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['importBulk'],
+      },
+    },
+    default: 'email',
+    placeholder: 'customer.email',
+    description: 'Dot-separated path of the email address in each input item. Leave empty to skip.',
+  },
+  {
+    displayName: 'Attribute Fields',
+    name: 'attributeFields',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['importBulk'],
+      },
+    },
+    default: {},
+    options: [
+      {
+        name: 'field',
+        displayName: 'Field',
+        values: [
+          {
+            displayName: 'Attribute Name',
+            name: 'attribute',
+            type: 'string',
+            default: '',
+            description: 'Name of the custom attribute in Attentive',
+          },
+          {
+            displayName: 'Field Path',
+            name: 'path',
+            type: 'string',
+            default: '',
+            placeholder: 'customer.firstName',
+            description: 'Dot-separated path of the value in each input item',
+          },
+        ],
+      },
+    ],
+    description: 'Custom attributes to read from each input item',
+  },
+  {
+    displayName: 'Import Options',
+    name: 'importOptions',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['subscriber'],
+        operation: ['importBulk'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Chunk Size',
+        name: 'chunkSize',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+        },
+        default: 100,
+        description:
+          'Number of rows processed before moving on to the next chunk. Each row is sent to Attentive as its own request.',
+      },
+      {
+        displayName: 'Concurrency',
+        name: 'concurrency',
+        type: 'number',
+        typeOptions: {
+          minValue: 1,
+          maxValue: 20,
+        },
+        default: 5,
+        description: 'Maximum number of requests in flight within a chunk',
+      },
+      {
+        displayName: 'Locale',
+        name: 'locale',
+        type: 'string',
+        default: '',
+        description: 'Locale code applied to every row (e.g., en-US)',
+      },
+      {
+        displayName: 'Subscription Type',
+        name: 'subscriptionType',
+        type: 'options',
+        options: [
+          { name: 'Marketing', value: 'MARKETING' },
+          { name: 'Transactional', value: 'TRANSACTIONAL' },
+        ],
+        default: 'MARKETING',
+        description: 'Type of subscription',
+      },
+    ],
   },
   {
     displayName: 'Additional Fields',
@@ -191,7 +435,7 @@ export const subscriberFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['subscriber'],
-        operation: ['update'],
+        operation: ['update', 'upsert'],
       },
     },
     options: [
@@ -260,6 +504,26 @@ export const subscriberFields: INodeProperties[] = [
   },
 ];
 
+const IDENTIFIER_PARAMETERS: Record<SubscriberIdentifierType, string> = {
+  phone: 'phone',
+  email: 'email',
+  subscriberId: 'subscriberId',
+  clientUserId: 'clientUserId',
+};
+
+/**
+ * Build the `user` object from the identifier fields of an item
+ */
+function getSubscriberIdentity(this: IExecuteFunctions, i: number): IDataObject {
+  const identifierType = this.getNodeParameter(
+    'identifierType',
+    i,
+    'phone',
+  ) as SubscriberIdentifierType;
+  const value = this.getNodeParameter(IDENTIFIER_PARAMETERS[identifierType], i) as string;
+  return buildUserIdentifier(identifierType, value, this);
+}
+
 export async function executeSubscriberOperation(
   this: IExecuteFunctions,
   operation: string,
@@ -267,12 +531,11 @@ export async function executeSubscriberOperation(
 ): Promise<INodeExecutionData[]> {
   let responseData: IDataObject;
 
-  const phone = formatPhoneNumber(this.getNodeParameter('phone', i) as string);
-  validatePhoneNumber(phone, this);
-
   switch (operation) {
     case 'subscribe': {
-      const signUpSourceId = this.getNodeParameter('signUpSourceId', i) as string;
+      const phone = formatPhoneNumber(this.getNodeParameter('phone', i) as string);
+      validatePhoneNumber(phone, this);
+      const signUpSourceId = await getResourceId.call(this, 'signUpSourceId', 'signUpUnit', i);
       const additionalFields = this.getNodeParameter('additionalFields', i) as IDataObject;
 
       const body: IDataObject = {
@@ -319,9 +582,7 @@ export async function executeSubscriberOperation(
       const notification = this.getNodeParameter('notification', i, false) as boolean;
 
       const body: IDataObject = {
-        user: {
-          phone,
-        },
+        user: getSubscriberIdentity.call(this, i),
         notification,
       };
 
@@ -330,21 +591,34 @@ export async function executeSubscriberOperation(
     }
 
     case 'get': {
-      responseData = await attentiveApiRequest.call(this, 'GET', '/subscriptions', {}, { phone });
+      const user = getSubscriberIdentity.call(this, i);
+      responseData = await attentiveApiRequest.call(
+        this,
+        'GET',
+        '/subscriptions',
+        {},
+        buildUserIdentifierQuery(user),
+      );
       break;
     }
 
     case 'update': {
       const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+      const user = getSubscriberIdentity.call(this, i);
 
       const body: IDataObject = {
-        user: {
-          phone,
-        },
+        user,
       };
 
       if (updateFields.email) {
-        (body.user as IDataObject).email = updateFields.email;
+        if (user.email) {
+          throw createValidationError(
+            this.getNode(),
+            'The email of a subscriber identified by email cannot be changed. Identify the subscriber by phone or ID instead.',
+            { itemIndex: i },
+          );
+        }
+        user.email = updateFields.email;
       }
 
       if (updateFields.locale) {
@@ -362,9 +636,191 @@ export async function executeSubscriberOperation(
       break;
     }
 
+    case 'upsert': {
+      const user = getSubscriberIdentity.call(this, i);
+      const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+      const desired: IDataObject = {
+        email: updateFields.email,
+        locale: updateFields.locale,
+        customAttributes: updateFields.customAttributes
+          ? parseCustomAttributes(updateFields.customAttributes as IDataObject)
+          : {},
+      };
+
+      let existing: IDataObject | undefined;
+      try {
+        const lookup = await attentiveApiRequest.call(
+          this,
+          'GET',
+          '/subscriptions',
+          {},
+          buildUserIdentifierQuery(user),
+        );
+        existing = extractSubscriber(lookup);
+      } catch (error) {
+        if (!(error instanceof AttentiveNotFoundError)) {
+          throw error;
+        }
+      }
+
+      if (!existing) {
+        const signUpSourceId = await getResourceId.call(this, 'signUpSourceId', 'signUpUnit', i);
+        const newUser: IDataObject = { ...user };
+        if (desired.email && !newUser.email) {
+          newUser.email = desired.email;
+        }
+        if (!newUser.phone && !newUser.email) {
+          throw createValidationError(
+            this.getNode(),
+            'Subscriber not found. A phone number or email is required to create it.',
+            { itemIndex: i },
+          );
+        }
+
+        const body: IDataObject = {
+          user: newUser,
+          signUpSourceId,
+          locale: desired.locale,
+          customAttributes: desired.customAttributes,
+        };
+
+        const response = await attentiveApiRequest.call(
+          this,
+          'POST',
+          '/subscriptions',
+          cleanObject(body),
+        );
+        responseData = { status: 'created', changes: {}, response };
+        break;
+      }
+
+      const changes = diffSubscriberFields(existing, desired);
+      // The lookup email identifies the subscriber in the PATCH, so it can't carry the new address
+      if (changes.email && user.email) {
+        throw createValidationError(
+          this.getNode(),
+          'The email of a subscriber identified by email cannot be changed. Identify the subscriber by phone or ID instead.',
+          { itemIndex: i },
+        );
+      }
+      if (Object.keys(changes).length === 0) {
+        responseData = { status: 'unchanged', changes, subscriber: existing };
+        break;
+      }
+
+      const body: IDataObject = { user: { ...user } };
+      const changedAttributes: IDataObject = {};
+      for (const [field, change] of Object.entries(changes)) {
+        if (field === 'email') {
+          (body.user as IDataObject).email = (change as IDataObject).to;
+        } else if (field === 'locale') {
+          body.locale = (change as IDataObject).to;
+        } else {
+          changedAttributes[field.replace(/^customAttributes\./, '')] = (change as IDataObject).to;
+        }
+      }
+      if (Object.keys(changedAttributes).length > 0) {
+        body.customAttributes = changedAttributes;
+      }
+
+      const response = await attentiveApiRequest.call(
+        this,
+        'PATCH',
+        '/subscribers',
+        cleanObject(body),
+      );
+      responseData = { status: 'updated', changes, response };
+      break;
+    }
+
     default:
       throw new Error(`Unknown operation: ${operation}`);
   }
 
   return buildReturnData(responseData);
 }
+
+/**
+ * Subscribe every input item with its own request, in chunks with bounded concurrency.
+ * Attentive has no bulk subscription endpoint, so chunks only throttle the requests.
+ * Row fields are read at the row's item index; chunk size and concurrency at the first item.
+ * Returns one success or failure item per input item.
+ */
+export async function executeSubscriberImportBulk(
+  this: IExecuteFunctions,
+  items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+  const importOptions = this.getNodeParameter('importOptions', 0, {}) as IDataObject;
+  const chunkSize = (importOptions.chunkSize as number | undefined) ?? 100;
+  const concurrency = (importOptions.concurrency as number | undefined) ?? 5;
+
+  const importRow = async (index: number): Promise<INodeExecutionData> => {
+    const row = items[index].json;
+    let phone = '';
+
+    try {
+      const phoneField = this.getNodeParameter('phoneField', index) as string;
+      const rawPhone = getValueByPath(row, phoneField);
+      phone = formatPhoneNumber(rawPhone !== undefined ? String(rawPhone) : '');
+      validatePhoneNumber(phone, this);
+
+      const signUpSourceId = await getResourceId.call(this, 'signUpSourceId', 'signUpUnit', index);
+      const emailField = this.getNodeParameter('emailField', index, '') as string;
+      const attributeFields = this.getNodeParameter('attributeFields', index, {}) as IDataObject;
+      const rowOptions = this.getNodeParameter('importOptions', index, {}) as IDataObject;
+      const fields = (attributeFields.field as IDataObject[] | undefined) || [];
+
+      const user: IDataObject = { phone };
+      const email = emailField ? getValueByPath(row, emailField) : undefined;
+      if (email) {
+        user.email = email;
+      }
+
+      const customAttributes: IDataObject = {};
+      for (const field of fields) {
+        const value = getValueByPath(row, field.path as string);
+        if (field.attribute && value !== undefined) {
+          customAttributes[field.attribute as string] = value;
+        }
+      }
+
+      const body: IDataObject = {
+        user,
+        signUpSourceId,
+        subscriptionType: rowOptions.subscriptionType,
+        locale: rowOptions.locale,
+        customAttributes,
+      };
+
+      const response = await attentiveApiRequest.call(
+        this,
+        'POST',
+        '/subscriptions',
+        cleanObject(body),
+        {},
+        { itemIndex: index },
+      );
+
+      return {
+        json: { success: true, row: index, phone, response },
+        pairedItem: { item: index },
+      };
+    } catch (error) {
+      const details =
+        error instanceof AttentiveApiError ? error.toOutput() : { error: (error as Error).message };
+      return {
+        json: { success: false, row: index, phone, ...details },
+        pairedItem: { item: index },
+      };
+    }
+  };
+
+  const returnData: INodeExecutionData[] = [];
+  const indexes = items.map((_, index) => index);
+
+  for (const chunk of chunkArray(indexes, chunkSize)) {
+    returnData.push(...(await runWithConcurrency(chunk, concurrency, importRow)));
+  }
+
+  return returnData;
+}
@@ -5,10 +5,38 @@
  * See LICENSE file for details.
  */
 
-import { IExecuteFunctions, IDataObject, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { attentiveApiRequest, attentiveApiRequestAllItems } from '../../transport';
-import { WEBHOOK_EVENTS } from '../../types/AttentiveTypes';
+import {
+  IExecuteFunctions,
+  IDataObject,
+  INodeExecutionData,
+  INodeProperties,
+  IRequestOptions,
+} from 'n8n-workflow';
+import {
+  attentiveApiRequest,
+  attentivePaginate,
+  createValidationError,
+  getPaginationMetadata,
+  isDryRun,
+} from '../../transport';
+import {
+  buildVersionedResourceLocator,
+  describeMissingResource,
+  getResourceId,
+} from '../../methods';
+import {
+  buildSampleWebhookBody,
+  expandWebhookEvents,
+  getWebhookEventOptions,
+} from '../../trigger/events';
+import {
+  IWebhookSecretRotation,
+  IWebhookTestResult,
+  IWebhookUpdate,
+  WebhookTestMode,
+} from '../../types/AttentiveTypes';
 import { buildReturnData } from '../../utils';
+import { SIGNATURE_HEADER, computeSignature, generateWebhookSecret } from '../../utils/signature';
 
 export const webhookOperations: INodeProperties[] = [
   {
@@ -34,12 +62,48 @@ export const webhookOperations: INodeProperties[] = [
         description: 'Delete a webhook',
         action: 'Delete webhook',
       },
+      {
+        name: 'Disable',
+        value: 'disable',
+        description: 'Stop deliveries to a webhook without deleting it',
+        action: 'Disable webhook',
+      },
+      {
+        name: 'Enable',
+        value: 'enable',
+        description: 'Resume deliveries to a webhook',
+        action: 'Enable webhook',
+      },
+      {
+        name: 'Get',
+        value: 'get',
+        description: 'Get webhook details',
+        action: 'Get webhook',
+      },
       {
         name: 'Get All',
         value: 'getAll',
         description: 'Get all webhooks',
         action: 'Get all webhooks',
       },
+      {
+        name: 'Rotate Secret',
+        value: 'rotateSecret',
+        description: 'Replace the signing secret with a new random secret, returned only once',
+        action: 'Rotate webhook secret',
+      },
+      {
+        name: 'Send Test Event',
+        value: 'test',
+        description: 'Send a sample event to a webhook',
+        action: 'Send test event to webhook',
+      },
+      {
+        name: 'Update',
+        value: 'update',
+        description: 'Update the URL, events or secret of a webhook',
+        action: 'Update webhook',
+      },
     ],
     default: 'getAll',
   },
@@ -73,12 +137,9 @@ export const webhookFields: INodeProperties[] = [
         operation: ['create'],
       },
     },
-    options: WEBHOOK_EVENTS.map((event: string) => ({
-      name: event.split('.').map((s: string) => s.charAt(0).toUpperCase() + s.slice(1)).join(' '),
-      value: event,
-    })),
+    options: getWebhookEventOptions(),
     default: [],
-    description: 'Events to subscribe to',
+    description: 'Events to subscribe to. Category wildcards are expanded to the individual events.',
   },
   {
     displayName: 'Options',
@@ -105,20 +166,125 @@ export const webhookFields: INodeProperties[] = [
       },
     ],
   },
-  // Delete field
+  // Webhook ID for every operation on an existing webhook
+  ...buildVersionedResourceLocator(
+    'webhook',
+    {
+      displayName: 'Webhook',
+      name: 'webhookId',
+      displayOptions: {
+        show: {
+          resource: ['webhook'],
+          operation: ['get', 'update', 'enable', 'disable', 'rotateSecret', 'test', 'delete'],
+        },
+      },
+      description: 'The webhook to use',
+    },
+    {
+      displayName: 'Webhook ID',
+      description: 'The ID of the webhook',
+    },
+  ),
+  // Update fields
+  {
+    displayName: 'Update Fields',
+    name: 'updateFields',
+    type: 'collection',
+    placeholder: 'Add Field',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['webhook'],
+        operation: ['update'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Events',
+        name: 'events',
+        type: 'multiOptions',
+        options: getWebhookEventOptions(),
+        default: [],
+        description:
+          'Events to subscribe to, replacing the current events. Category wildcards are expanded to the individual events.',
+      },
+      {
+        displayName: 'Secret',
+        name: 'secret',
+        type: 'string',
+        typeOptions: {
+          password: true,
+        },
+        default: '',
+        description: 'New secret for webhook signature verification',
+      },
+      {
+        displayName: 'Webhook URL',
+        name: 'url',
+        type: 'string',
+        default: '',
+        placeholder: 'https://example.com/webhook',
+        description: 'New URL to receive webhook events',
+      },
+    ],
+  },
+  // Test fields
+  {
+    displayName: 'Mode',
+    name: 'testMode',
+    type: 'options',
+    displayOptions: {
+      show: {
+        resource: ['webhook'],
+        operation: ['test'],
+      },
+    },
+    options: [
+      {
+        name: 'Ask Attentive',
+        value: 'attentive',
+        description: 'Ask Attentive to deliver a sample event, signed with the webhook secret',
+      },
+      {
+        name: 'Send From n8n',
+        value: 'local',
+        description:
+          "Post a sample event to the webhook URL from n8n, e.g. to test a receiver Attentive can't reach yet",
+      },
+    ],
+    default: 'attentive',
+  },
+  {
+    displayName: 'Event',
+    name: 'testEvent',
+    type: 'options',
+    displayOptions: {
+      show: {
+        resource: ['webhook'],
+        operation: ['test'],
+      },
+    },
+    options: getWebhookEventOptions(false),
+    default: 'subscription.created',
+    description: 'The event to send a sample of',
+  },
   {
-    displayName: 'Webhook ID',
-    name: 'webhookId',
+    displayName: 'Signing Secret',
+    name: 'testSecret',
     type: 'string',
-    required: true,
+    typeOptions: {
+      password: true,
+    },
     displayOptions: {
       show: {
         resource: ['webhook'],
-        operation: ['delete'],
+        operation: ['test'],
+        testMode: ['local'],
       },
     },
     default: '',
-    description: 'The ID of the webhook to delete',
+    description:
+      'Secret to sign the sample event with, in the same header Attentive uses. Attentive never returns webhook secrets, so enter the secret set on the webhook. Leave empty to send the event unsigned.',
   },
   // Get all options
   {
@@ -154,12 +320,105 @@ export const webhookFields: INodeProperties[] = [
   },
 ];
 
+/**
+ * Ask Attentive to deliver a sample event to a webhook
+ * @param webhookId - Webhook id
+ * @param event - Event to send a sample of
+ * @returns Test result
+ */
+async function requestTestEvent(
+  this: IExecuteFunctions,
+  webhookId: string,
+  event: string,
+): Promise<IWebhookTestResult> {
+  const response = await attentiveApiRequest.call(this, 'POST', `/webhooks/${webhookId}/test`, {
+    event,
+  });
+
+  return {
+    success: true,
+    ...response,
+    webhookId,
+    event,
+    mode: 'attentive',
+  };
+}
+
+/**
+ * Post a sample event to the URL of a webhook, signed like Attentive's deliveries.
+ *
+ * Failed deliveries are reported in the result rather than thrown, since finding them is the
+ * point of the test.
+ * @param webhookId - Webhook id
+ * @param event - Event to send a sample of
+ * @param i - Item index
+ * @returns Test result, with the response status of the receiver
+ */
+async function sendLocalTestEvent(
+  this: IExecuteFunctions,
+  webhookId: string,
+  event: string,
+  i: number,
+): Promise<IWebhookTestResult> {
+  const secret = this.getNodeParameter('testSecret', i, '') as string;
+  const webhook = await attentiveApiRequest.call(this, 'GET', `/webhooks/${webhookId}`);
+  const url = webhook.url as string | undefined;
+  const payload = buildSampleWebhookBody(event);
+
+  // The receiver verifies the signature over the exact bytes sent, which is the JSON body
+  const headers: IDataObject = { 'Content-Type': 'application/json' };
+  if (secret) {
+    headers[SIGNATURE_HEADER] = computeSignature(secret, JSON.stringify(payload));
+  }
+
+  const options: IRequestOptions = {
+    method: 'POST',
+    uri: url,
+    headers,
+    body: payload,
+    json: true,
+    resolveWithFullResponse: true,
+  };
+  const result: IWebhookTestResult = {
+    webhookId,
+    event,
+    mode: 'local',
+    success: true,
+    url,
+    payload,
+  };
+
+  // A dry run doesn't read the webhook, so there is no URL to deliver to
+  if (isDryRun.call(this)) {
+    return result;
+  }
+
+  if (!url) {
+    throw createValidationError(this.getNode(), `Webhook "${webhookId}" has no URL`, {
+      itemIndex: i,
+    });
+  }
+
+  try {
+    const response = (await this.helpers.request(options)) as IDataObject;
+    result.statusCode = response.statusCode as number;
+  } catch (error) {
+    const { statusCode, message } = error as { statusCode?: number; message: string };
+    result.success = false;
+    result.statusCode = statusCode;
+    result.error = message;
+  }
+
+  return result;
+}
+
 export async function executeWebhookOperation(
   this: IExecuteFunctions,
   operation: string,
   i: number,
 ): Promise<INodeExecutionData[]> {
   let responseData: IDataObject | IDataObject[];
+  let metadata: IDataObject = {};
 
   switch (operation) {
     case 'create': {
@@ -169,7 +428,7 @@ export async function executeWebhookOperation(
 
       const body: IDataObject = {
         url,
-        events,
+        events: expandWebhookEvents(this.getNode(), events, i),
       };
 
       if (options.secret) {
@@ -182,26 +441,121 @@ export async function executeWebhookOperation(
 
     case 'getAll': {
       const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+      const maxItems = returnAll ? undefined : (this.getNodeParameter('limit', i) as number);
 
-      if (returnAll) {
-        responseData = await attentiveApiRequestAllItems.call(
-          this,
-          'GET',
-          '/webhooks',
-          {},
-          {},
-          'webhooks',
-        );
-      } else {
-        const limit = this.getNodeParameter('limit', i) as number;
-        const response = await attentiveApiRequest.call(this, 'GET', '/webhooks', {}, { limit });
-        responseData = (response.webhooks as IDataObject[]) || [];
+      const result = await attentivePaginate.call(
+        this,
+        'GET',
+        '/webhooks',
+        {},
+        {},
+        { dataKey: 'webhooks', maxItems },
+      );
+      responseData = result.items;
+      metadata = getPaginationMetadata(result);
+      break;
+    }
+
+    case 'get': {
+      const webhookId = await getResourceId.call(this, 'webhookId', 'webhook', i);
+
+      try {
+        responseData = await attentiveApiRequest.call(this, 'GET', `/webhooks/${webhookId}`);
+      } catch (error) {
+        throw describeMissingResource.call(this, error as Error, 'webhook', webhookId, i);
+      }
+      break;
+    }
+
+    case 'update': {
+      const webhookId = await getResourceId.call(this, 'webhookId', 'webhook', i, true);
+      const updateFields = this.getNodeParameter('updateFields', i) as IDataObject;
+
+      const body: IWebhookUpdate = {};
+
+      if (updateFields.url) {
+        body.url = updateFields.url as string;
       }
+
+      if ((updateFields.events as string[] | undefined)?.length) {
+        body.events = expandWebhookEvents(this.getNode(), updateFields.events as string[], i);
+      }
+
+      if (updateFields.secret) {
+        body.secret = updateFields.secret as string;
+      }
+
+      if (Object.keys(body).length === 0) {
+        throw createValidationError(this.getNode(), 'Add at least one field to update', {
+          itemIndex: i,
+        });
+      }
+
+      responseData = await attentiveApiRequest.call(
+        this,
+        'PATCH',
+        `/webhooks/${webhookId}`,
+        body as IDataObject,
+      );
+      break;
+    }
+
+    case 'enable':
+    case 'disable': {
+      const webhookId = await getResourceId.call(this, 'webhookId', 'webhook', i, true);
+      const body: IWebhookUpdate = { enabled: operation === 'enable' };
+
+      responseData = await attentiveApiRequest.call(
+        this,
+        'PATCH',
+        `/webhooks/${webhookId}`,
+        body as IDataObject,
+      );
+      break;
+    }
+
+    case 'rotateSecret': {
+      const webhookId = await getResourceId.call(this, 'webhookId', 'webhook', i, true);
+      const secret = generateWebhookSecret();
+      const rotatedAt = new Date().toISOString();
+      const body: IWebhookUpdate = { secret };
+
+      // A skipped rotation returns the recorded secret, the one Attentive actually received
+      const response = await attentiveApiRequest.call(
+        this,
+        'PATCH',
+        `/webhooks/${webhookId}`,
+        body as IDataObject,
+        {},
+        { recordedFields: { secret, rotatedAt } },
+      );
+
+      // Attentive never returns the secret, so this output is the only place it can be read
+      const rotation: IWebhookSecretRotation = {
+        ...(response as unknown as IWebhookSecretRotation),
+        id: (response.id as string | undefined) ?? webhookId,
+        secret: (response.secret as string | undefined) ?? secret,
+        rotatedAt: (response.rotatedAt as string | undefined) ?? rotatedAt,
+      };
+      responseData = rotation as unknown as IDataObject;
+      break;
+    }
+
+    case 'test': {
+      const webhookId = await getResourceId.call(this, 'webhookId', 'webhook', i, true);
+      const mode = this.getNodeParameter('testMode', i) as WebhookTestMode;
+      const event = this.getNodeParameter('testEvent', i) as string;
+
+      const result =
+        mode === 'local'
+          ? await sendLocalTestEvent.call(this, webhookId, event, i)
+          : await requestTestEvent.call(this, webhookId, event);
+      responseData = result as unknown as IDataObject;
       break;
     }
 
     case 'delete': {
-      const webhookId = this.getNodeParameter('webhookId', i) as string;
+      const webhookId = await getResourceId.call(this, 'webhookId', 'webhook', i, true);
 
       await attentiveApiRequest.call(this, 'DELETE', `/webhooks/${webhookId}`);
       responseData = { success: true, webhookId };
@@ -212,5 +566,5 @@ export async function executeWebhookOperation(
       throw new Error(`Unknown operation: ${operation}`);
   }
 
-  return buildReturnData(responseData);
+  return buildReturnData(responseData, metadata);
 }
@@ -0,0 +1,29 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  searchJourneys,
+  searchKeywords,
+  searchSegments,
+  searchSignUpUnits,
+  searchWebhooks,
+} from './listSearch';
+
+export {
+  buildResourceLocator,
+  buildVersionedResourceLocator,
+  describeMissingResource,
+  getResourceId,
+} from './resourceLocator';
+
+export const listSearch = {
+  searchSegments,
+  searchJourneys,
+  searchSignUpUnits,
+  searchKeywords,
+  searchWebhooks,
+};
@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, ILoadOptionsFunctions, INodeListSearchResult } from 'n8n-workflow';
+
+import { attentiveApiRequest } from '../transport';
+import {
+  DEFAULT_PAGE_SIZE,
+  detectPaginationStyle,
+  extractItems,
+  getNextPageQuery,
+} from '../transport/pagination';
+import { LOCATOR_RESOURCES, LocatorResource, getResourceUrl } from './resourceLocator';
+
+/**
+ * Get the display name of a record
+ * @param record - Record from a list endpoint
+ * @param nameKeys - Keys holding the name, in order of preference
+ * @returns Name, falling back to the ID
+ */
+function getRecordName(record: IDataObject, nameKeys: string[]): string {
+  const name = nameKeys.map((key) => record[key]).find((value) => value);
+  return name ? `${name}` : String(record.id);
+}
+
+/**
+ * Search one page of a list endpoint for a resource locator
+ *
+ * Attentive list endpoints have no name search, so each page is filtered here. The pagination
+ * token carries the query of the next page, whatever the pagination style of the endpoint.
+ * @param resource - Resource to list
+ * @param filter - Text the name or ID must contain
+ * @param paginationToken - Token returned with the previous page
+ * @returns Matching records of the page and the token of the next page
+ */
+export async function searchResources(
+  this: ILoadOptionsFunctions,
+  resource: LocatorResource,
+  filter?: string,
+  paginationToken?: string,
+): Promise<INodeListSearchResult> {
+  const { endpoint, dataKey, nameKeys } = LOCATOR_RESOURCES[resource];
+  const query: IDataObject = paginationToken
+    ? (JSON.parse(paginationToken) as IDataObject)
+    : { limit: DEFAULT_PAGE_SIZE };
+
+  const response = await attentiveApiRequest.call(this, 'GET', endpoint, {}, query);
+  const records = extractItems(response, dataKey);
+  const nextQuery = getNextPageQuery(
+    response,
+    detectPaginationStyle(response),
+    query,
+    records.length,
+    Number(query.limit),
+  );
+
+  const search = (filter || '').trim().toLowerCase();
+  const results = records
+    .map((record) => ({
+      name: getRecordName(record, nameKeys),
+      value: String(record.id),
+      url: getResourceUrl(resource, String(record.id)),
+    }))
+    .filter(
+      (result) =>
+        !search ||
+        result.name.toLowerCase().includes(search) ||
+        result.value.toLowerCase().includes(search),
+    );
+
+  return {
+    results,
+    paginationToken: nextQuery ? JSON.stringify(nextQuery) : undefined,
+  };
+}
+
+export async function searchSegments(
+  this: ILoadOptionsFunctions,
+  filter?: string,
+  paginationToken?: string,
+): Promise<INodeListSearchResult> {
+  return searchResources.call(this, 'segment', filter, paginationToken);
+}
+
+export async function searchJourneys(
+  this: ILoadOptionsFunctions,
+  filter?: string,
+  paginationToken?: string,
+): Promise<INodeListSearchResult> {
+  return searchResources.call(this, 'journey', filter, paginationToken);
+}
+
+export async function searchSignUpUnits(
+  this: ILoadOptionsFunctions,
+  filter?: string,
+  paginationToken?: string,
+): Promise<INodeListSearchResult> {
+  return searchResources.call(this, 'signUpUnit', filter, paginationToken);
+}
+
+export async function searchKeywords(
+  this: ILoadOptionsFunctions,
+  filter?: string,
+  paginationToken?: string,
+): Promise<INodeListSearchResult> {
+  return searchResources.call(this, 'keyword', filter, paginationToken);
+}
+
+export async function searchWebhooks(
+  this: ILoadOptionsFunctions,
+  filter?: string,
+  paginationToken?: string,
+): Promise<INodeListSearchResult> {
+  return searchResources.call(this, 'webhook', filter, paginationToken);
+}
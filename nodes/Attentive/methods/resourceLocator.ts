@@ -0,0 +1,277 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+import {
+  AttentiveNotFoundError,
+  attentiveApiRequest,
+  createValidationError,
+  isDryRun,
+} from '../transport';
+
+export type LocatorResource = 'segment' | 'journey' | 'signUpUnit' | 'keyword' | 'webhook';
+
+export interface ILocatorResource {
+  label: string;
+  endpoint: string;
+  dataKey: string;
+  searchMethod: string;
+  // Path segment of the resource in Attentive UI URLs
+  uiPath: string;
+  nameKeys: string[];
+}
+
+export const UI_BASE_URL = 'https://ui.attentivemobile.com';
+
+export const LOCATOR_RESOURCES: Record<LocatorResource, ILocatorResource> = {
+  segment: {
+    label: 'Segment',
+    endpoint: '/segments',
+    dataKey: 'segments',
+    searchMethod: 'searchSegments',
+    uiPath: 'segments',
+    nameKeys: ['name'],
+  },
+  journey: {
+    label: 'Journey',
+    endpoint: '/journeys',
+    dataKey: 'journeys',
+    searchMethod: 'searchJourneys',
+    uiPath: 'journeys',
+    nameKeys: ['name'],
+  },
+  signUpUnit: {
+    label: 'Sign-Up Unit',
+    endpoint: '/sign-up-units',
+    dataKey: 'signUpUnits',
+    searchMethod: 'searchSignUpUnits',
+    uiPath: 'sign-up-units',
+    nameKeys: ['name', 'type'],
+  },
+  keyword: {
+    label: 'Keyword',
+    endpoint: '/keywords',
+    dataKey: 'keywords',
+    searchMethod: 'searchKeywords',
+    uiPath: 'keywords',
+    nameKeys: ['keyword', 'name'],
+  },
+  webhook: {
+    label: 'Webhook',
+    endpoint: '/webhooks',
+    dataKey: 'webhooks',
+    searchMethod: 'searchWebhooks',
+    uiPath: 'webhooks',
+    nameKeys: ['url', 'name'],
+  },
+};
+
+// IDs whose existence was confirmed, per execution context
+const validatedIds = new WeakMap<object, Set<string>>();
+
+/**
+ * Get the URL of a record in the Attentive UI
+ * @param resource - Resource type
+ * @param id - Record ID
+ * @returns UI URL
+ */
+export function getResourceUrl(resource: LocatorResource, id: string): string {
+  return `${UI_BASE_URL}/${LOCATOR_RESOURCES[resource].uiPath}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Build a resource locator field with "From List", "By ID" and "By URL" modes
+ * @param resource - Resource the field picks
+ * @param field - Name, display name, display options and description of the field
+ * @returns Node property
+ */
+export function buildResourceLocator(
+  resource: LocatorResource,
+  field: Pick<INodeProperties, 'displayName' | 'name' | 'displayOptions' | 'description'>,
+): INodeProperties {
+  const { label, searchMethod, uiPath } = LOCATOR_RESOURCES[resource];
+  const urlPattern = `https?://ui\\.attentivemobile\\.com/(?:[\\w-]+/)*${uiPath}/([^/?#\\s]+)`;
+
+  return {
+    ...field,
+    type: 'resourceLocator',
+    required: true,
+    default: { mode: 'list', value: '' },
+    modes: [
+      {
+        displayName: 'From List',
+        name: 'list',
+        type: 'list',
+        placeholder: `Select a ${label.toLowerCase()}...`,
+        typeOptions: {
+          searchListMethod: searchMethod,
+          searchable: true,
+        },
+      },
+      {
+        displayName: 'By ID',
+        name: 'id',
+        type: 'string',
+        placeholder: 'e.g. 12345',
+        validation: [
+          {
+            type: 'regex',
+            properties: {
+              regex: '^[^\\s/]+$',
+              errorMessage: `Not a valid ${label.toLowerCase()} ID`,
+            },
+          },
+        ],
+      },
+      {
+        displayName: 'By URL',
+        name: 'url',
+        type: 'string',
+        placeholder: `${UI_BASE_URL}/${uiPath}/12345`,
+        validation: [
+          {
+            type: 'regex',
+            properties: {
+              regex: `${urlPattern}.*`,
+              errorMessage: `Not a valid Attentive ${label.toLowerCase()} URL`,
+            },
+          },
+        ],
+        extractValue: {
+          type: 'regex',
+          regex: urlPattern,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Build a resource locator field for node version 1.1 and later, and the plain ID field it
+ * replaced for version 1 nodes, whose saved values are plain strings
+ * @param resource - Resource the field picks
+ * @param field - Name, display name, display options and description of the field
+ * @param legacyField - Display name and description of the version 1 ID field
+ * @returns Node properties
+ */
+export function buildVersionedResourceLocator(
+  resource: LocatorResource,
+  field: Pick<INodeProperties, 'displayName' | 'name' | 'displayOptions' | 'description'>,
+  legacyField: Pick<INodeProperties, 'displayName' | 'description'>,
+): INodeProperties[] {
+  const show = field.displayOptions?.show ?? {};
+
+  return [
+    {
+      ...legacyField,
+      name: field.name,
+      type: 'string',
+      required: true,
+      displayOptions: { ...field.displayOptions, show: { ...show, '@version': [1] } },
+      default: '',
+    },
+    buildResourceLocator(resource, {
+      ...field,
+      displayOptions: {
+        ...field.displayOptions,
+        show: { ...show, '@version': [{ _cnd: { gte: 1.1 } }] },
+      },
+    }),
+  ];
+}
+
+/**
+ * Read the ID of a resource locator parameter, optionally checking that the record exists
+ *
+ * IDs picked by ID or URL are never checked by the editor, so operations that change the
+ * record validate it first. Operations that read the record map its 404 with
+ * describeMissingResource instead. Each ID is checked once per execution.
+ * @param parameterName - Name of the resource locator parameter
+ * @param resource - Resource the parameter picks
+ * @param i - Item index
+ * @param validate - Whether to check that the record exists
+ * @returns Record ID
+ */
+export async function getResourceId(
+  this: IExecuteFunctions,
+  parameterName: string,
+  resource: LocatorResource,
+  i: number,
+  validate = false,
+): Promise<string> {
+  const value = this.getNodeParameter(parameterName, i, '', { extractValue: true }) as
+    | string
+    | IDataObject;
+  const id = String(typeof value === 'object' ? (value.value ?? '') : value).trim();
+  const { label, endpoint } = LOCATOR_RESOURCES[resource];
+
+  if (!id) {
+    throw createValidationError(this.getNode(), `No ${label.toLowerCase()} selected`, {
+      field: parameterName,
+      itemIndex: i,
+    });
+  }
+
+  const validated = validatedIds.get(this) || new Set<string>();
+  const cacheKey = `${resource}:${id}`;
+  if (!validate || validated.has(cacheKey) || isDryRun.call(this)) {
+    return id;
+  }
+
+  try {
+    await attentiveApiRequest.call(this, 'GET', `${endpoint}/${encodeURIComponent(id)}`);
+  } catch (error) {
+    if (error instanceof AttentiveNotFoundError) {
+      throw createValidationError(this.getNode(), `${label} "${id}" does not exist`, {
+        field: parameterName,
+        itemIndex: i,
+        description: `Select the ${label.toLowerCase()} from the list, or check the ID or URL`,
+      });
+    }
+    throw error;
+  }
+
+  validated.add(cacheKey);
+  validatedIds.set(this, validated);
+  return id;
+}
+
+/**
+ * Describe a record that a read request did not find by its label and ID
+ * @param error - Error thrown by the request
+ * @param resource - Resource the request read
+ * @param id - Record ID
+ * @param i - Item index
+ * @returns Not found error naming the record, or the error itself for other failures
+ */
+export function describeMissingResource(
+  this: IExecuteFunctions,
+  error: Error,
+  resource: LocatorResource,
+  id: string,
+  i: number,
+): Error {
+  if (!(error instanceof AttentiveNotFoundError)) {
+    return error;
+  }
+
+  const { label } = LOCATOR_RESOURCES[resource];
+  const message = `${label} "${id}" does not exist`;
+  return new AttentiveNotFoundError(
+    this.getNode(),
+    { message },
+    {
+      statusCode: error.statusCode,
+      errors: error.errors,
+      requestId: error.requestId,
+      message,
+      description: `Select the ${label.toLowerCase()} from the list, or check the ID or URL`,
+      itemIndex: i,
+    },
+  );
+}
@@ -0,0 +1,203 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { INodeCredentialDescription, INodeProperties } from 'n8n-workflow';
+
+import { IDEMPOTENCY_HEADER } from './idempotency';
+import { DEFAULT_REQUESTS_PER_SECOND } from './rateLimiter';
+import { DEFAULT_RETRY_OPTIONS } from './retry';
+
+export const retryRequestOptions: INodeProperties[] = [
+  {
+    displayName: 'Max Attempts',
+    name: 'maxAttempts',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+      maxValue: 10,
+    },
+    default: DEFAULT_RETRY_OPTIONS.maxAttempts,
+    description:
+      'Maximum number of attempts per request. Rate-limited (429) and unavailable (503) responses are always retried; other failures only for idempotent methods.',
+  },
+  {
+    displayName: 'Max Total Wait (Seconds)',
+    name: 'maxTotalWait',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    default: DEFAULT_RETRY_OPTIONS.maxTotalWaitMs / 1000,
+    description: 'Maximum time to spend waiting between retries of a single request',
+  },
+];
+
+export const rateLimitRequestOptions: INodeProperties[] = [
+  {
+    displayName: 'Rate Limits',
+    name: 'rateLimits',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    default: {},
+    description:
+      'Requests-per-second budgets, shared by all executions using the same credential. Requests over budget are queued.',
+    options: [
+      {
+        name: 'limit',
+        displayName: 'Limit',
+        values: [
+          {
+            displayName: 'Endpoint Class',
+            name: 'endpointClass',
+            type: 'options',
+            options: [
+              {
+                name: 'Custom Attributes',
+                value: 'attributes',
+                description: `/attributes endpoints (default ${DEFAULT_REQUESTS_PER_SECOND.attributes}/s)`,
+              },
+              {
+                name: 'Events',
+                value: 'events',
+                description: `/events endpoints (default ${DEFAULT_REQUESTS_PER_SECOND.events}/s)`,
+              },
+              {
+                name: 'Management',
+                value: 'management',
+                description: `Segments, journeys, sign-up units, keywords and webhooks (default ${DEFAULT_REQUESTS_PER_SECOND.management}/s)`,
+              },
+              {
+                name: 'Messages',
+                value: 'messages',
+                description: `/messages endpoints (default ${DEFAULT_REQUESTS_PER_SECOND.messages}/s)`,
+              },
+              {
+                name: 'Subscriptions',
+                value: 'subscriptions',
+                description: `/subscriptions and /subscribers endpoints (default ${DEFAULT_REQUESTS_PER_SECOND.subscriptions}/s)`,
+              },
+            ],
+            default: 'messages',
+          },
+          {
+            displayName: 'Requests Per Second',
+            name: 'requestsPerSecond',
+            type: 'number',
+            typeOptions: {
+              minValue: 0.1,
+              numberPrecision: 1,
+            },
+            default: DEFAULT_REQUESTS_PER_SECOND.messages,
+          },
+        ],
+      },
+    ],
+  },
+];
+
+export const dryRunRequestOptions: INodeProperties[] = [
+  {
+    displayName: 'Dry Run',
+    name: 'dryRun',
+    type: 'boolean',
+    default: false,
+    description:
+      'Whether to validate the parameters and output the requests that would be sent, with the API key masked, instead of calling Attentive',
+  },
+];
+
+export const outputRequestOptions: INodeProperties[] = [
+  {
+    displayName: 'Include Rate Limiter Stats',
+    name: 'includeLimiterStats',
+    type: 'boolean',
+    default: false,
+    description:
+      'Whether to add the rate limiter wait time and queue depth to each output item under "_attentive.rateLimiter"',
+  },
+];
+
+export const idempotencyRequestOptions: INodeProperties[] = [
+  {
+    displayName: 'Idempotency',
+    name: 'idempotency',
+    type: 'options',
+    options: [
+      {
+        name: 'Header',
+        value: 'header',
+        description: `Send the key in the ${IDEMPOTENCY_HEADER} header`,
+      },
+      {
+        name: 'External ID',
+        value: 'externalId',
+        description:
+          'Send the key as the externalId of message requests that do not set one, and as header otherwise',
+      },
+    ],
+    default: 'header',
+    description:
+      'Send an idempotency key with every write request, so repeated runs do not send messages or record events twice',
+  },
+  {
+    displayName: 'Idempotency Key',
+    name: 'idempotencyKey',
+    type: 'string',
+    default: '',
+    placeholder: '={{ $json.orderId }}',
+    description:
+      'Key for the write requests of each item. Derived from the execution ID, item index and operation when empty. Only used with Idempotency.',
+  },
+  {
+    displayName: 'Skip Completed Requests',
+    name: 'skipCompletedRequests',
+    type: 'boolean',
+    default: true,
+    description:
+      'Whether to skip write requests whose idempotency key already succeeded and return the recorded response instead. Completed keys are kept in the workflow static data for 7 days. Only used with Idempotency.',
+  },
+];
+
+export const authenticationProperty: INodeProperties = {
+  displayName: 'Authentication',
+  name: 'authentication',
+  type: 'options',
+  options: [
+    {
+      name: 'API Key',
+      value: 'apiKey',
+    },
+    {
+      name: 'OAuth2',
+      value: 'oAuth2',
+    },
+  ],
+  default: 'apiKey',
+};
+
+export const credentialDescriptions: INodeCredentialDescription[] = [
+  {
+    name: 'attentiveApi',
+    required: true,
+    displayOptions: {
+      show: {
+        authentication: ['apiKey'],
+      },
+    },
+  },
+  {
+    name: 'attentiveOAuth2Api',
+    required: true,
+    displayOptions: {
+      show: {
+        authentication: ['oAuth2'],
+      },
+    },
+  },
+];
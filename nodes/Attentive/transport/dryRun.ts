@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IRequestOptions } from 'n8n-workflow';
+
+const SECRET_HEADERS = ['authorization', 'x-api-key'];
+
+// Body fields holding secrets, e.g. the signing secret of a webhook
+const SECRET_BODY_FIELDS = ['secret'];
+
+// Requests built during a dry run, keyed by the node execution context
+const dryRunRequests = new WeakMap<object, IDataObject[]>();
+
+/**
+ * Mask a secret, keeping its last four characters
+ * @param value - Secret value
+ * @returns Masked value
+ */
+export function maskSecret(value: string): string {
+  const [scheme, secret] = value.includes(' ') ? value.split(/ (.*)/) : ['', value];
+  const masked = secret.length > 8 ? `****${secret.slice(-4)}` : '****';
+  return scheme ? `${scheme} ${masked}` : masked;
+}
+
+/**
+ * Mask the credentials in request headers
+ * @param headers - Request headers
+ * @returns Headers with secrets masked
+ */
+export function maskHeaders(headers: IDataObject = {}): IDataObject {
+  const masked: IDataObject = {};
+  for (const [name, value] of Object.entries(headers)) {
+    masked[name] = SECRET_HEADERS.includes(name.toLowerCase()) ? maskSecret(String(value)) : value;
+  }
+  return masked;
+}
+
+/**
+ * Mask the secrets in a request body
+ * @param body - Request body
+ * @returns Body with secret fields masked
+ */
+export function maskBody(body: unknown): unknown {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return body;
+  }
+
+  const masked: IDataObject = { ...(body as IDataObject) };
+  for (const field of SECRET_BODY_FIELDS) {
+    if (typeof masked[field] === 'string' && masked[field] !== '') {
+      masked[field] = maskSecret(masked[field] as string);
+    }
+  }
+  return masked;
+}
+
+/**
+ * Record a request that was built but not sent
+ * @param context - Node execution context
+ * @param options - Request options
+ * @param itemIndex - Item the request belongs to, if the operation processes several items at once
+ */
+export function recordDryRunRequest(
+  context: object,
+  options: IRequestOptions,
+  itemIndex?: number,
+): void {
+  const request: IDataObject = {
+    method: options.method,
+    url: options.uri,
+    headers: maskHeaders(options.headers as IDataObject),
+    qs: options.qs as IDataObject,
+    body: maskBody(options.body) as IDataObject,
+  };
+  if (itemIndex !== undefined) {
+    request.itemIndex = itemIndex;
+  }
+
+  dryRunRequests.set(context, [...(dryRunRequests.get(context) || []), request]);
+}
+
+/**
+ * Read and reset the requests recorded since the last call
+ * @param context - Node execution context
+ * @returns Recorded requests
+ */
+export function consumeDryRunRequests(context: object): IDataObject[] {
+  const requests = dryRunRequests.get(context) || [];
+  dryRunRequests.delete(context);
+  return requests;
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+
+import { AttentiveEnvironment } from '../types/AttentiveTypes';
+
+export const DEFAULT_API_VERSION = 'v1';
+
+export const PRODUCTION_HOST = 'https://api.attentivemobile.com';
+
+// Version segment at the end of a base URL saved before the API Version field existed
+const LEGACY_VERSION_SUFFIX = /\/v\d+$/;
+
+/**
+ * Get the environment a credential connects to.
+ *
+ * Credentials saved before the Environment field existed only have a Base URL, which included the
+ * API version. They keep connecting to it unless it is the production URL.
+ * @param credentials - Attentive API credentials
+ * @returns Environment, production unless a custom base URL is configured
+ */
+export function getEnvironment(credentials: IDataObject): AttentiveEnvironment {
+  if (credentials.environment) {
+    return credentials.environment === 'custom' ? 'custom' : 'production';
+  }
+
+  const legacyBaseUrl = String(credentials.baseUrl || '')
+    .trim()
+    .replace(/\/+$/, '');
+  return legacyBaseUrl && legacyBaseUrl !== `${PRODUCTION_HOST}/${DEFAULT_API_VERSION}`
+    ? 'custom'
+    : 'production';
+}
+
+/**
+ * Build the base URL of the API, including the API version
+ * @param credentials - Attentive API credentials
+ * @returns Base URL without trailing slash, e.g. "https://api.attentivemobile.com/v1"
+ */
+export function getBaseUrl(credentials: IDataObject): string {
+  const host =
+    getEnvironment(credentials) === 'custom'
+      ? String(credentials.baseUrl || '')
+          .trim()
+          .replace(/\/+$/, '')
+          .replace(LEGACY_VERSION_SUFFIX, '')
+      : PRODUCTION_HOST;
+  const version = String(credentials.apiVersion || DEFAULT_API_VERSION)
+    .trim()
+    .replace(/^\/+|\/+$/g, '');
+
+  return `${host.replace(/\/+$/, '')}/${version}`;
+}
+
+/**
+ * Describe the environment of a credential for the node output
+ * @param credentials - Attentive API credentials
+ * @returns Environment, API version and base URL
+ */
+export function getEnvironmentInfo(credentials: IDataObject): IDataObject {
+  return {
+    name: getEnvironment(credentials),
+    apiVersion: credentials.apiVersion || DEFAULT_API_VERSION,
+    baseUrl: getBaseUrl(credentials),
+  };
+}
@@ -0,0 +1,306 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, INode, JsonObject, NodeApiError } from 'n8n-workflow';
+
+import { IAttentiveErrorDetail } from '../types/AttentiveTypes';
+import { getErrorStatusCode, getRetryAfterMs } from './retry';
+
+export type AttentiveErrorType =
+  | 'validation'
+  | 'auth'
+  | 'notFound'
+  | 'rateLimit'
+  | 'conflict'
+  | 'server'
+  | 'unknown';
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-attentive-request-id', 'x-amzn-requestid'];
+
+const DEFAULT_MESSAGES: Record<AttentiveErrorType, string> = {
+  validation: 'Bad Request: Check your input parameters',
+  auth: 'Unauthorized: Invalid API key or insufficient permissions',
+  notFound: 'Not Found: Resource does not exist',
+  rateLimit: 'Rate Limited: Too many requests. Please try again later.',
+  conflict: 'Conflict: The resource already exists or was modified',
+  server: 'Server Error: Attentive API is experiencing issues',
+  unknown: 'Unknown error occurred',
+};
+
+interface IAttentiveErrorInfo {
+  statusCode?: number;
+  errors: IAttentiveErrorDetail[];
+  requestId?: string;
+  retryAfterMs?: number;
+  message?: string;
+  description?: string;
+  itemIndex?: number;
+}
+
+export interface IValidationErrorOptions {
+  // Parameter or body field that failed validation
+  field?: string;
+  itemIndex?: number;
+  description?: string;
+}
+
+/**
+ * Error thrown for every failed Attentive API request
+ */
+export class AttentiveApiError extends NodeApiError {
+  readonly errorType: AttentiveErrorType = 'unknown';
+
+  readonly statusCode?: number;
+
+  readonly errors: IAttentiveErrorDetail[];
+
+  readonly requestId?: string;
+
+  constructor(node: INode, errorResponse: JsonObject, info: IAttentiveErrorInfo) {
+    super(node, errorResponse, {
+      message: info.message,
+      description:
+        info.description ?? (info.errors.map((error) => error.message).join('; ') || undefined),
+      httpCode: info.statusCode !== undefined ? String(info.statusCode) : undefined,
+      itemIndex: info.itemIndex,
+    });
+    this.statusCode = info.statusCode;
+    this.errors = info.errors;
+    this.requestId = info.requestId;
+  }
+
+  get errorCodes(): string[] {
+    return this.errors.map((error) => error.code).filter((code): code is string => !!code);
+  }
+
+  get fieldPaths(): string[] {
+    return this.errors.map((error) => error.field).filter((field): field is string => !!field);
+  }
+
+  /**
+   * Structured representation used for "Continue On Fail" output
+   */
+  toOutput(): IDataObject {
+    return {
+      error: this.message,
+      errorType: this.errorType,
+      statusCode: this.statusCode,
+      errorCodes: this.errorCodes,
+      fieldPaths: this.fieldPaths,
+      requestId: this.requestId,
+      errors: this.errors as unknown as IDataObject[],
+    };
+  }
+}
+
+export class AttentiveValidationError extends AttentiveApiError {
+  readonly errorType = 'validation';
+}
+
+export class AttentiveAuthError extends AttentiveApiError {
+  readonly errorType = 'auth';
+}
+
+export class AttentiveNotFoundError extends AttentiveApiError {
+  readonly errorType = 'notFound';
+}
+
+export class AttentiveConflictError extends AttentiveApiError {
+  readonly errorType = 'conflict';
+}
+
+export class AttentiveServerError extends AttentiveApiError {
+  readonly errorType = 'server';
+}
+
+export class AttentiveRateLimitError extends AttentiveApiError {
+  readonly errorType = 'rateLimit';
+
+  readonly retryAfterMs?: number;
+
+  constructor(node: INode, errorResponse: JsonObject, info: IAttentiveErrorInfo) {
+    super(node, errorResponse, info);
+    this.retryAfterMs = info.retryAfterMs;
+  }
+
+  toOutput(): IDataObject {
+    return { ...super.toOutput(), retryAfterMs: this.retryAfterMs };
+  }
+}
+
+/**
+ * Map an HTTP status code to an error type
+ * @param statusCode - HTTP status code
+ * @returns Error type
+ */
+export function getErrorType(statusCode?: number): AttentiveErrorType {
+  if (statusCode === undefined) {
+    return 'unknown';
+  }
+  if (statusCode === 401 || statusCode === 403) {
+    return 'auth';
+  }
+  if (statusCode === 404) {
+    return 'notFound';
+  }
+  if (statusCode === 409) {
+    return 'conflict';
+  }
+  if (statusCode === 429) {
+    return 'rateLimit';
+  }
+  if (statusCode >= 500) {
+    return 'server';
+  }
+  if (statusCode >= 400) {
+    return 'validation';
+  }
+  return 'unknown';
+}
+
+/**
+ * Get the parsed response body of a request error
+ * @param error - Error thrown by the request helper
+ * @returns Response body, if any
+ */
+function getErrorBody(error: IDataObject): IDataObject | undefined {
+  const response = error.response as IDataObject | undefined;
+  let body = error.error ?? response?.body ?? response?.data;
+
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return { message: body };
+    }
+  }
+
+  return body && typeof body === 'object' ? (body as IDataObject) : undefined;
+}
+
+/**
+ * Read the Attentive errors[] array of an error response
+ * @param body - Response body
+ * @returns Normalized error details
+ */
+export function parseErrorDetails(body: IDataObject | undefined): IAttentiveErrorDetail[] {
+  if (!body) {
+    return [];
+  }
+
+  const errors = Array.isArray(body.errors) ? (body.errors as IDataObject[]) : [body];
+
+  return errors
+    .map((error) => {
+      const source = error.source as IDataObject | undefined;
+      const field = error.field ?? error.path ?? error.param ?? source?.pointer;
+      const detail: IAttentiveErrorDetail = {
+        message: String(error.message ?? error.detail ?? error.title ?? ''),
+      };
+      if (error.code !== undefined) {
+        detail.code = String(error.code);
+      }
+      if (field !== undefined) {
+        detail.field = Array.isArray(field) ? field.join('.') : String(field);
+      }
+      return detail;
+    })
+    .filter((detail) => detail.message || detail.code);
+}
+
+/**
+ * Find the request id of a failed request
+ * @param error - Error thrown by the request helper
+ * @param body - Response body
+ * @returns Request id, if Attentive sent one
+ */
+function getRequestId(error: IDataObject, body: IDataObject | undefined): string | undefined {
+  const response = error.response as IDataObject | undefined;
+  const headers = (response?.headers as IDataObject | undefined) || {};
+
+  for (const [key, value] of Object.entries(headers)) {
+    if (REQUEST_ID_HEADERS.includes(key.toLowerCase()) && value) {
+      return String(value);
+    }
+  }
+
+  const requestId = body?.requestId ?? body?.request_id;
+  return requestId !== undefined ? String(requestId) : undefined;
+}
+
+/**
+ * Build the matching AttentiveApiError for a failed request
+ * @param node - Node the request was made from
+ * @param error - Error thrown by the request helper
+ * @returns Typed Attentive API error
+ */
+export function createAttentiveApiError(node: INode, error: JsonObject): AttentiveApiError {
+  const errorData = error as IDataObject;
+  const statusCode = getErrorStatusCode(errorData);
+  const body = getErrorBody(errorData);
+  const errorType = getErrorType(statusCode);
+  const errors = parseErrorDetails(body);
+
+  const info: IAttentiveErrorInfo = {
+    statusCode,
+    errors,
+    requestId: getRequestId(errorData, body),
+    retryAfterMs: getRetryAfterMs(errorData),
+    message:
+      errorType === 'unknown'
+        ? (errorData.message as string | undefined) || DEFAULT_MESSAGES.unknown
+        : `${DEFAULT_MESSAGES[errorType]}${errors[0] ? ` (${errors[0].message})` : ''}`,
+  };
+
+  switch (errorType) {
+    case 'validation':
+      return new AttentiveValidationError(node, error, info);
+    case 'auth':
+      return new AttentiveAuthError(node, error, info);
+    case 'notFound':
+      return new AttentiveNotFoundError(node, error, info);
+    case 'conflict':
+      return new AttentiveConflictError(node, error, info);
+    case 'rateLimit':
+      return new AttentiveRateLimitError(node, error, info);
+    case 'server':
+      return new AttentiveServerError(node, error, info);
+    default:
+      return new AttentiveApiError(node, error, info);
+  }
+}
+
+/**
+ * Build the error of an input that fails validation before any request is sent, so it has the
+ * same type and "Continue On Fail" output as a validation error returned by Attentive
+ * @param node - Node the input belongs to
+ * @param message - What is wrong with the input
+ * @param options - Invalid field, item and description
+ * @returns Validation error
+ */
+export function createValidationError(
+  node: INode,
+  message: string,
+  options: IValidationErrorOptions = {},
+): AttentiveValidationError {
+  const detail: IAttentiveErrorDetail = { code: 'INVALID_PARAMETER', message };
+  if (options.field) {
+    detail.field = options.field;
+  }
+
+  return new AttentiveValidationError(
+    node,
+    { message },
+    {
+      errors: [detail],
+      message,
+      // The message already says what is wrong, so don't repeat it as the description
+      description: options.description ?? '',
+      itemIndex: options.itemIndex,
+    },
+  );
+}
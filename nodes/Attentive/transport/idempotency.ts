@@ -0,0 +1,167 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IHttpRequestMethods } from 'n8n-workflow';
+import { createHash } from 'crypto';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Completed requests are remembered for a week, keeping at most this many records
+export const IDEMPOTENCY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_IDEMPOTENCY_RECORDS = 1000;
+
+export const WRITE_METHODS: IHttpRequestMethods[] = ['POST', 'PUT', 'PATCH'];
+
+interface IIdempotencyScope {
+  operation: string;
+  itemIndex: number;
+  calls: Map<number, number>;
+}
+
+interface IIdempotencyStats {
+  keys: string[];
+  skipped: string[];
+}
+
+// Per-execution state, keyed by the node execution context
+const scopes = new WeakMap<object, IIdempotencyScope>();
+const stats = new WeakMap<object, IIdempotencyStats>();
+
+/**
+ * Start a new idempotency scope for a node run
+ * @param context - Node execution context
+ * @param operation - Resource and operation, part of every derived key
+ */
+export function setIdempotencyScope(context: object, operation: string): void {
+  scopes.set(context, { operation, itemIndex: 0, calls: new Map() });
+}
+
+/**
+ * Set the item the following requests belong to
+ * @param context - Node execution context
+ * @param itemIndex - Item index
+ */
+export function setIdempotencyItem(context: object, itemIndex: number): void {
+  const scope = scopes.get(context);
+  if (scope) {
+    scope.itemIndex = itemIndex;
+  }
+}
+
+/**
+ * Derive a stable idempotency key
+ * @param parts - Values identifying the request, e.g. execution id, item index and operation
+ * @returns Hex key
+ */
+export function deriveIdempotencyKey(...parts: Array<string | number>): string {
+  return createHash('sha256').update(parts.join(':')).digest('hex').slice(0, 32);
+}
+
+/**
+ * Get the key of the next write request of an item
+ *
+ * Each request of an item gets its own key by suffixing the call number, so the keys
+ * stay the same when the item is run again.
+ * @param context - Node execution context
+ * @param executionId - Execution id
+ * @param baseKey - User supplied key, derived from the execution when empty
+ * @param itemIndex - Item index, defaults to the current item of the scope
+ * @returns Idempotency key
+ */
+export function getNextIdempotencyKey(
+  context: object,
+  executionId: string,
+  baseKey?: string,
+  itemIndex?: number,
+): string {
+  let scope = scopes.get(context);
+  if (!scope) {
+    scope = { operation: '', itemIndex: 0, calls: new Map() };
+    scopes.set(context, scope);
+  }
+
+  const index = itemIndex ?? scope.itemIndex;
+  const call = scope.calls.get(index) ?? 0;
+  scope.calls.set(index, call + 1);
+
+  const key = baseKey || deriveIdempotencyKey(executionId, index, scope.operation);
+  return call > 0 ? `${key}-${call}` : key;
+}
+
+/**
+ * Get the recorded response of a completed request
+ * @param staticData - Workflow static data of the node
+ * @param key - Idempotency key
+ * @param now - Current time in milliseconds
+ * @returns Recorded response, if the key completed within the TTL
+ */
+export function getCompletedRequest(
+  staticData: IDataObject,
+  key: string,
+  now = Date.now(),
+): IDataObject | undefined {
+  const records = (staticData.idempotency as IDataObject | undefined) || {};
+  const record = records[key] as IDataObject | undefined;
+
+  if (!record || now - Number(record.completedAt) > IDEMPOTENCY_TTL_MS) {
+    return undefined;
+  }
+  return (record.response as IDataObject | undefined) || {};
+}
+
+/**
+ * Record a completed request, pruning expired and excess records
+ * @param staticData - Workflow static data of the node
+ * @param key - Idempotency key
+ * @param response - Response of the request
+ * @param now - Current time in milliseconds
+ */
+export function recordCompletedRequest(
+  staticData: IDataObject,
+  key: string,
+  response: IDataObject,
+  now = Date.now(),
+): void {
+  const records = { ...((staticData.idempotency as IDataObject | undefined) || {}) };
+  records[key] = { completedAt: now, response };
+
+  const entries = Object.entries(records)
+    .filter(([, record]) => now - Number((record as IDataObject).completedAt) <= IDEMPOTENCY_TTL_MS)
+    .sort(
+      ([, a], [, b]) =>
+        Number((a as IDataObject).completedAt) - Number((b as IDataObject).completedAt),
+    )
+    .slice(-MAX_IDEMPOTENCY_RECORDS);
+
+  staticData.idempotency = Object.fromEntries(entries);
+}
+
+/**
+ * Record an idempotency key used for the current item
+ * @param context - Node execution context
+ * @param key - Idempotency key
+ * @param skipped - Whether the request was skipped because it already completed
+ */
+export function recordIdempotencyStats(context: object, key: string, skipped: boolean): void {
+  const current = stats.get(context) || { keys: [], skipped: [] };
+  current.keys.push(key);
+  if (skipped) {
+    current.skipped.push(key);
+  }
+  stats.set(context, current);
+}
+
+/**
+ * Read and reset the idempotency keys used since the last call
+ * @param context - Node execution context
+ * @returns Keys used, or undefined if no write request was made
+ */
+export function consumeIdempotencyStats(context: object): IDataObject | undefined {
+  const current = stats.get(context);
+  stats.delete(context);
+  return current ? { keys: current.keys, skipped: current.skipped } : undefined;
+}
@@ -9,35 +9,170 @@ import {
   IExecuteFunctions,
   IHookFunctions,
   ILoadOptionsFunctions,
+  IPollFunctions,
   IWebhookFunctions,
   IHttpRequestMethods,
   IRequestOptions,
   IDataObject,
-  NodeApiError,
   NodeOperationError,
   JsonObject,
 } from 'n8n-workflow';
+import { createHash } from 'crypto';
 
-const BASE_URL = 'https://api.attentivemobile.com/v1';
+import {
+  AttentiveCredentialType,
+  IPaginationOptions,
+  PaginationStyle,
+} from '../types/AttentiveTypes';
+
+import { createAttentiveApiError } from './errors';
+import {
+  getEndpointClass,
+  getRateLimiter,
+  getRequestsPerSecond,
+  recordLimiterStats,
+} from './rateLimiter';
+import {
+  DEFAULT_PAGE_SIZE,
+  IPaginationResult,
+  MAX_PAGES,
+  detectPaginationStyle,
+  extractItems,
+  getNextPageQuery,
+} from './pagination';
+import { getRetryDelayMs, isRetryableError, resolveRetryOptions, sleep } from './retry';
+import { recordDryRunRequest } from './dryRun';
+import { getBaseUrl } from './environment';
+import {
+  IDEMPOTENCY_HEADER,
+  WRITE_METHODS,
+  getCompletedRequest,
+  getNextIdempotencyKey,
+  recordCompletedRequest,
+  recordIdempotencyStats,
+} from './idempotency';
+
+export * from './errors';
+export { getPaginationMetadata } from './pagination';
+export { getEnvironmentInfo } from './environment';
+
+type AttentiveFunctions =
+  | IExecuteFunctions
+  | IHookFunctions
+  | ILoadOptionsFunctions
+  | IPollFunctions
+  | IWebhookFunctions;
+
+export interface IAttentiveRequestOptions {
+  // Item the request belongs to, for operations that process several items at once
+  itemIndex?: number;
+  // Request details the response doesn't echo, kept with the idempotency record so a skipped
+  // request returns them with the recorded response
+  recordedFields?: IDataObject;
+}
+
+/**
+ * Read the node-level "Request Options" collection, if the node defines one
+ */
+export function getRequestOptions(this: AttentiveFunctions): IDataObject {
+  try {
+    if ('getInputData' in this) {
+      return (this as IExecuteFunctions).getNodeParameter('requestOptions', 0, {}) as IDataObject;
+    }
+    return (this as IHookFunctions).getNodeParameter('requestOptions', {}) as IDataObject;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the credential type selected by the node's "Authentication" parameter
+ */
+export function getCredentialType(this: AttentiveFunctions): AttentiveCredentialType {
+  let authentication: unknown;
+  try {
+    authentication =
+      'getInputData' in this
+        ? (this as IExecuteFunctions).getNodeParameter('authentication', 0, 'apiKey')
+        : (this as IHookFunctions).getNodeParameter('authentication', 'apiKey');
+  } catch {
+    authentication = 'apiKey';
+  }
+  return authentication === 'oAuth2' ? 'attentiveOAuth2Api' : 'attentiveApi';
+}
+
+/**
+ * Check whether requests are only recorded instead of sent
+ */
+export function isDryRun(this: AttentiveFunctions): boolean {
+  return !!getRequestOptions.call(this).dryRun;
+}
+
+/**
+ * Key that identifies the credential for the shared rate limiter
+ */
+function getCredentialKey(
+  this: AttentiveFunctions,
+  credentialType: AttentiveCredentialType,
+  credentials: IDataObject,
+): string {
+  const credentialId = this.getNode().credentials?.[credentialType]?.id;
+  if (credentialId) {
+    return credentialId;
+  }
+  const secret = credentials.apiKey ?? credentials.clientId;
+  return createHash('sha256').update(String(secret)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Get the idempotency key of a write request, if idempotency is enabled
+ * @param method - HTTP method
+ * @param requestOptions - Node-level request options
+ * @param itemIndex - Item the request belongs to
+ * @returns Idempotency key
+ */
+function getIdempotencyKey(
+  this: AttentiveFunctions,
+  method: IHttpRequestMethods,
+  requestOptions: IDataObject,
+  itemIndex?: number,
+): string | undefined {
+  if (!requestOptions.idempotency || !WRITE_METHODS.includes(method) || !('getInputData' in this)) {
+    return undefined;
+  }
+
+  const context = this as IExecuteFunctions;
+  const baseKey = context.getNodeParameter(
+    'requestOptions.idempotencyKey',
+    itemIndex ?? 0,
+    '',
+  ) as string;
+  return getNextIdempotencyKey(context, context.getExecutionId(), String(baseKey), itemIndex);
+}
 
 export async function attentiveApiRequest(
-  this: IExecuteFunctions | IHookFunctions | ILoadOptionsFunctions | IWebhookFunctions,
+  this: AttentiveFunctions,
   method: IHttpRequestMethods,
   endpoint: string,
   body: IDataObject = {},
   query: IDataObject = {},
+  attentiveOptions: IAttentiveRequestOptions = {},
 ): Promise<IDataObject> {
-  const credentials = await this.getCredentials('attentiveApi');
+  const credentialType = getCredentialType.call(this);
+  const credentials = await this.getCredentials(credentialType);
 
-  if (!credentials?.apiKey) {
+  if (credentialType === 'attentiveApi' && !credentials?.apiKey) {
     throw new NodeOperationError(this.getNode(), 'No API key provided');
   }
 
   const options: IRequestOptions = {
     method,
-    uri: `${BASE_URL}${endpoint}`,
+    uri: `${getBaseUrl(credentials)}${endpoint}`,
     headers: {
-      Authorization: `Bearer ${credentials.apiKey}`,
+      // OAuth2 requests get their bearer token from n8n's OAuth2 helper
+      ...(credentialType === 'attentiveApi'
+        ? { Authorization: `Bearer ${credentials.apiKey}` }
+        : {}),
       'Content-Type': 'application/json',
       Accept: 'application/json',
     },
@@ -49,79 +184,146 @@ export async function attentiveApiRequest(
     options.body = body;
   }
 
-  try {
-    const response = await this.helpers.request(options);
-    return response as IDataObject;
-  } catch (error) {
-    throw new NodeApiError(this.getNode(), error as unknown as JsonObject);
+  const requestOptions = getRequestOptions.call(this);
+  const idempotencyKey = getIdempotencyKey.call(
+    this,
+    method,
+    requestOptions,
+    attentiveOptions.itemIndex,
+  );
+  const staticData = idempotencyKey ? this.getWorkflowStaticData('node') : {};
+
+  if (idempotencyKey) {
+    const completed =
+      requestOptions.skipCompletedRequests !== false && !requestOptions.dryRun
+        ? getCompletedRequest(staticData, idempotencyKey)
+        : undefined;
+    recordIdempotencyStats(this, idempotencyKey, completed !== undefined);
+    if (completed) {
+      return completed;
+    }
+
+    if (
+      requestOptions.idempotency === 'externalId' &&
+      endpoint.startsWith('/messages') &&
+      options.body &&
+      !body.externalId
+    ) {
+      options.body = { ...body, externalId: idempotencyKey };
+    } else {
+      options.headers = { ...options.headers, [IDEMPOTENCY_HEADER]: idempotencyKey };
+    }
+  }
+
+  if (requestOptions.dryRun) {
+    recordDryRunRequest(this, options, attentiveOptions.itemIndex);
+    return {};
+  }
+
+  const retryOptions = resolveRetryOptions(requestOptions);
+  const endpointClass = getEndpointClass(endpoint);
+  const limiter = getRateLimiter(
+    getCredentialKey.call(this, credentialType, credentials),
+    endpointClass,
+    getRequestsPerSecond(requestOptions, endpointClass),
+  );
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    recordLimiterStats(this, endpointClass, await limiter.acquire());
+
+    try {
+      const response = (
+        credentialType === 'attentiveOAuth2Api'
+          ? await this.helpers.requestOAuth2.call(this, credentialType, options, {
+              tokenType: 'Bearer',
+            })
+          : await this.helpers.request(options)
+      ) as IDataObject;
+      if (idempotencyKey) {
+        recordCompletedRequest(staticData, idempotencyKey, {
+          ...response,
+          ...attentiveOptions.recordedFields,
+        });
+      }
+      return response;
+    } catch (error) {
+      const errorData = error as IDataObject;
+
+      // Requests with an idempotency key are safe to retry
+      const idempotent = idempotencyKey ? true : undefined;
+      if (attempt >= retryOptions.maxAttempts || !isRetryableError(errorData, method, idempotent)) {
+        throw createAttentiveApiError(this.getNode(), error as unknown as JsonObject);
+      }
+
+      const delay = getRetryDelayMs(errorData, attempt, retryOptions);
+      if (Date.now() - startedAt + delay > retryOptions.maxTotalWaitMs) {
+        throw createAttentiveApiError(this.getNode(), error as unknown as JsonObject);
+      }
+
+      await sleep(delay);
+    }
   }
 }
 
-export async function attentiveApiRequestAllItems(
-  this: IExecuteFunctions | ILoadOptionsFunctions,
+/**
+ * Request every page of a list endpoint, detecting cursor, offset and page-number pagination
+ */
+export async function attentivePaginate(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions | IHookFunctions,
   method: IHttpRequestMethods,
   endpoint: string,
   body: IDataObject = {},
   query: IDataObject = {},
-  dataKey = 'data',
-): Promise<IDataObject[]> {
+  paginationOptions: IPaginationOptions = {},
+): Promise<IPaginationResult> {
+  const { dataKey, maxItems } = paginationOptions;
+  const pageSize = Math.min(paginationOptions.pageSize ?? DEFAULT_PAGE_SIZE, maxItems ?? Infinity);
   const returnData: IDataObject[] = [];
-  let responseData: IDataObject;
-  const limit = 100;
-  let offset = 0;
-  const maxIterations = 1000; // Safety limit
-
-  query.limit = limit;
+  let style: PaginationStyle = 'none';
+  let pageQuery: IDataObject | undefined = { ...query, limit: pageSize };
+  let pages = 0;
 
-  for (let iteration = 0; iteration < maxIterations; iteration++) {
-    query.offset = offset;
-    responseData = await attentiveApiRequest.call(this, method, endpoint, body, query);
+  while (pageQuery && pages < MAX_PAGES) {
+    const responseData = await attentiveApiRequest.call(this, method, endpoint, body, pageQuery);
+    const items = extractItems(responseData, dataKey);
+    pages++;
 
-    const items = responseData[dataKey] as IDataObject[] | undefined;
-    if (items && Array.isArray(items)) {
-      returnData.push(...items);
+    if (pages === 1) {
+      style = detectPaginationStyle(responseData);
+      // A full page without pagination details most likely has more records behind it
+      if (style === 'none' && items.length >= pageSize) {
+        style = 'offset';
+      }
     }
 
-    const meta = responseData.meta as IDataObject | undefined;
-    const total = meta?.total as number | undefined;
+    returnData.push(...items);
+    pageQuery = getNextPageQuery(responseData, style, pageQuery, items.length, pageSize);
 
-    if (!total || returnData.length >= total) {
+    if (maxItems !== undefined && returnData.length >= maxItems) {
       break;
     }
-
-    offset += limit;
   }
 
-  return returnData;
-}
+  const hasMore = pageQuery !== undefined;
+  const exceedsMax = maxItems !== undefined && returnData.length > maxItems;
 
-export function handleApiError(error: Error, node: IExecuteFunctions): never {
-  const errorData = error as unknown as IDataObject;
-  const statusCode = errorData.statusCode as number | undefined;
-  const message = errorData.message as string | undefined;
-
-  let errorMessage = message || 'Unknown error occurred';
-
-  switch (statusCode) {
-    case 400:
-      errorMessage = `Bad Request: ${errorMessage}`;
-      break;
-    case 401:
-      errorMessage = 'Unauthorized: Invalid API key';
-      break;
-    case 403:
-      errorMessage = 'Forbidden: Insufficient permissions';
-      break;
-    case 404:
-      errorMessage = 'Not Found: Resource does not exist';
-      break;
-    case 429:
-      errorMessage = 'Rate Limited: Too many requests. Please try again later.';
-      break;
-    case 500:
-      errorMessage = 'Server Error: Attentive API is experiencing issues';
-      break;
-  }
+  return {
+    items: maxItems !== undefined ? returnData.slice(0, maxItems) : returnData,
+    truncated: hasMore || exceedsMax,
+    pages,
+    style,
+  };
+}
 
-  throw new NodeOperationError(node.getNode(), errorMessage);
+export async function attentiveApiRequestAllItems(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  method: IHttpRequestMethods,
+  endpoint: string,
+  body: IDataObject = {},
+  query: IDataObject = {},
+  dataKey = 'data',
+): Promise<IDataObject[]> {
+  const result = await attentivePaginate.call(this, method, endpoint, body, query, { dataKey });
+  return result.items;
 }
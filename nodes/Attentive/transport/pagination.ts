@@ -0,0 +1,182 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+
+import { PaginationStyle } from '../types/AttentiveTypes';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+// Safety limit on the number of pages requested in one call
+export const MAX_PAGES = 1000;
+
+export interface IPaginationResult {
+  items: IDataObject[];
+  truncated: boolean;
+  pages: number;
+  style: PaginationStyle;
+}
+
+/**
+ * Extract the list of records from a list response
+ * @param response - API response
+ * @param dataKey - Preferred key holding the records
+ * @returns Records, or an empty array
+ */
+export function extractItems(response: IDataObject, dataKey?: string): IDataObject[] {
+  if (Array.isArray(response)) {
+    return response as IDataObject[];
+  }
+
+  for (const key of [dataKey, 'data']) {
+    if (key && Array.isArray(response[key])) {
+      return response[key] as IDataObject[];
+    }
+  }
+
+  // Fall back to the first array that holds records
+  for (const [key, value] of Object.entries(response)) {
+    if (key !== 'errors' && Array.isArray(value)) {
+      return value as IDataObject[];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Find the cursor or next link of a cursor-paginated response
+ * @param response - API response
+ * @returns Query parameters for the next page, if there is one
+ */
+export function getNextCursorQuery(response: IDataObject): IDataObject | undefined {
+  const meta = (response.meta as IDataObject | undefined) || {};
+  const pagination = (response.pagination as IDataObject | undefined) || {};
+  const links = (response.links as IDataObject | undefined) || {};
+
+  const cursor = response.nextCursor ?? meta.nextCursor ?? pagination.nextCursor;
+  if (cursor) {
+    return { cursor };
+  }
+
+  const next = links.next as string | undefined;
+  if (next) {
+    const url = new URL(next, 'https://placeholder.invalid');
+    const query: IDataObject = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+    return query;
+  }
+
+  return undefined;
+}
+
+/**
+ * Detect the pagination style of a list response
+ * @param response - API response
+ * @returns Pagination style
+ */
+export function detectPaginationStyle(response: IDataObject): PaginationStyle {
+  const meta = (response.meta as IDataObject | undefined) || {};
+  const pagination = (response.pagination as IDataObject | undefined) || {};
+  const links = (response.links as IDataObject | undefined) || {};
+
+  if (
+    'nextCursor' in response ||
+    'nextCursor' in meta ||
+    'nextCursor' in pagination ||
+    'next' in links
+  ) {
+    return 'cursor';
+  }
+
+  if (
+    meta.page !== undefined ||
+    meta.totalPages !== undefined ||
+    pagination.page !== undefined ||
+    response.page !== undefined
+  ) {
+    return 'page';
+  }
+
+  if (meta.total !== undefined || meta.offset !== undefined || response.total !== undefined) {
+    return 'offset';
+  }
+
+  return 'none';
+}
+
+/**
+ * Compute the query for the page after the given response
+ * @param response - API response of the current page
+ * @param style - Pagination style
+ * @param query - Query of the current page
+ * @param pageItemCount - Number of records on the current page
+ * @param pageSize - Requested page size
+ * @returns Query for the next page, or undefined if this was the last page
+ */
+export function getNextPageQuery(
+  response: IDataObject,
+  style: PaginationStyle,
+  query: IDataObject,
+  pageItemCount: number,
+  pageSize: number,
+): IDataObject | undefined {
+  const meta = (response.meta as IDataObject | undefined) || {};
+  const pagination = (response.pagination as IDataObject | undefined) || {};
+
+  if (pageItemCount === 0) {
+    return undefined;
+  }
+
+  switch (style) {
+    case 'cursor': {
+      const cursorQuery = getNextCursorQuery(response);
+      return cursorQuery ? { ...query, ...cursorQuery } : undefined;
+    }
+
+    case 'page': {
+      const page = Number(meta.page ?? pagination.page ?? response.page ?? query.page ?? 1);
+      const totalPages = meta.totalPages ?? pagination.totalPages ?? response.totalPages;
+      const hasMore =
+        totalPages !== undefined ? page < Number(totalPages) : pageItemCount >= pageSize;
+      return hasMore ? { ...query, page: page + 1 } : undefined;
+    }
+
+    case 'offset': {
+      const offset = Number(meta.offset ?? query.offset ?? 0);
+      const total = meta.total ?? response.total;
+      const nextOffset = offset + pageItemCount;
+      const hasMore = total !== undefined ? nextOffset < Number(total) : pageItemCount >= pageSize;
+      return hasMore ? { ...query, offset: nextOffset } : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the output metadata that reports truncated results
+ * @param result - Pagination result
+ * @returns Metadata to merge into the output, empty if nothing was truncated
+ */
+export function getPaginationMetadata(result: IPaginationResult): IDataObject {
+  if (!result.truncated) {
+    return {};
+  }
+
+  return {
+    pagination: {
+      truncated: true,
+      returned: result.items.length,
+      pages: result.pages,
+      style: result.style,
+    },
+  };
+}
@@ -0,0 +1,227 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+
+export type EndpointClass = 'messages' | 'events' | 'subscriptions' | 'attributes' | 'management';
+
+export const DEFAULT_REQUESTS_PER_SECOND: Record<EndpointClass, number> = {
+  messages: 10,
+  events: 25,
+  subscriptions: 10,
+  attributes: 25,
+  management: 10,
+};
+
+export interface IAcquireResult {
+  waitMs: number;
+  queueDepth: number;
+}
+
+export interface ILimiterStats extends IDataObject {
+  requests: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  maxQueueDepth: number;
+  endpointClasses: string[];
+}
+
+interface IWaiter {
+  enqueuedAt: number;
+  queueDepth: number;
+  resolve: (result: IAcquireResult) => void;
+}
+
+/**
+ * Token bucket that queues callers until a token is available
+ */
+export class TokenBucket {
+  private tokens: number;
+
+  private lastRefill: number;
+
+  private readonly queue: IWaiter[] = [];
+
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(private requestsPerSecond: number) {
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  get capacity(): number {
+    return Math.max(1, this.requestsPerSecond);
+  }
+
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  setRate(requestsPerSecond: number): void {
+    if (requestsPerSecond === this.requestsPerSecond) {
+      return;
+    }
+    this.refill();
+    this.requestsPerSecond = requestsPerSecond;
+    this.tokens = Math.min(this.tokens, this.capacity);
+  }
+
+  async acquire(): Promise<IAcquireResult> {
+    this.refill();
+
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return { waitMs: 0, queueDepth: 0 };
+    }
+
+    return new Promise((resolve) => {
+      this.queue.push({ enqueuedAt: Date.now(), queueDepth: this.queue.length + 1, resolve });
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      const waiter = this.queue.shift() as IWaiter;
+      waiter.resolve({ waitMs: Date.now() - waiter.enqueuedAt, queueDepth: waiter.queueDepth });
+    }
+
+    if (this.queue.length > 0 && this.timer === undefined) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+// Buckets live for the lifetime of the n8n process so that all executions share them
+const buckets = new Map<string, TokenBucket>();
+
+// Stats are collected per execution context and read back by the node
+const contextStats = new WeakMap<object, ILimiterStats>();
+
+/**
+ * Classify an endpoint into the rate limit budget it draws from
+ * @param endpoint - API endpoint path
+ * @returns Endpoint class
+ */
+export function getEndpointClass(endpoint: string): EndpointClass {
+  if (endpoint.startsWith('/messages')) {
+    return 'messages';
+  }
+  if (endpoint.startsWith('/events')) {
+    return 'events';
+  }
+  if (endpoint.startsWith('/subscriptions') || endpoint.startsWith('/subscribers')) {
+    return 'subscriptions';
+  }
+  if (endpoint.startsWith('/attributes')) {
+    return 'attributes';
+  }
+  return 'management';
+}
+
+/**
+ * Resolve the requests-per-second budget for an endpoint class
+ * @param requestOptions - Values of the "Request Options" collection
+ * @param endpointClass - Endpoint class
+ * @returns Requests per second
+ */
+export function getRequestsPerSecond(
+  requestOptions: IDataObject,
+  endpointClass: EndpointClass,
+): number {
+  const rateLimits = requestOptions.rateLimits as IDataObject | undefined;
+  const limits = (rateLimits?.limit as IDataObject[] | undefined) || [];
+
+  for (const limit of limits) {
+    const requestsPerSecond = Number(limit.requestsPerSecond);
+    if (limit.endpointClass === endpointClass && requestsPerSecond > 0) {
+      return requestsPerSecond;
+    }
+  }
+
+  return DEFAULT_REQUESTS_PER_SECOND[endpointClass];
+}
+
+/**
+ * Get the shared bucket for a credential and endpoint class
+ * @param credentialKey - Stable key identifying the credential
+ * @param endpointClass - Endpoint class
+ * @param requestsPerSecond - Budget to apply
+ * @returns Token bucket
+ */
+export function getRateLimiter(
+  credentialKey: string,
+  endpointClass: EndpointClass,
+  requestsPerSecond: number,
+): TokenBucket {
+  const key = `${credentialKey}:${endpointClass}`;
+  let bucket = buckets.get(key);
+
+  if (!bucket) {
+    bucket = new TokenBucket(requestsPerSecond);
+    buckets.set(key, bucket);
+  } else {
+    bucket.setRate(requestsPerSecond);
+  }
+
+  return bucket;
+}
+
+/**
+ * Record the outcome of a token acquisition for an execution context
+ * @param context - Execution context the request was made from
+ * @param endpointClass - Endpoint class
+ * @param result - Acquisition result
+ */
+export function recordLimiterStats(
+  context: object,
+  endpointClass: EndpointClass,
+  result: IAcquireResult,
+): void {
+  const stats = contextStats.get(context) ?? {
+    requests: 0,
+    totalWaitMs: 0,
+    maxWaitMs: 0,
+    maxQueueDepth: 0,
+    endpointClasses: [],
+  };
+
+  stats.requests += 1;
+  stats.totalWaitMs += result.waitMs;
+  stats.maxWaitMs = Math.max(stats.maxWaitMs, result.waitMs);
+  stats.maxQueueDepth = Math.max(stats.maxQueueDepth, result.queueDepth);
+  if (!stats.endpointClasses.includes(endpointClass)) {
+    stats.endpointClasses.push(endpointClass);
+  }
+
+  contextStats.set(context, stats);
+}
+
+/**
+ * Return and reset the limiter stats collected for an execution context
+ * @param context - Execution context
+ * @returns Stats since the last call, if any request was made
+ */
+export function consumeLimiterStats(context: object): ILimiterStats | undefined {
+  const stats = contextStats.get(context);
+  contextStats.delete(context);
+  return stats;
+}
@@ -0,0 +1,163 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IHttpRequestMethods } from 'n8n-workflow';
+
+export interface IRetryOptions {
+  maxAttempts: number;
+  maxTotalWaitMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: IRetryOptions = {
+  maxAttempts: 3,
+  maxTotalWaitMs: 60000,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+const IDEMPOTENT_METHODS: IHttpRequestMethods[] = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+// Statuses that mean the request was rejected before Attentive processed it
+const ALWAYS_RETRYABLE_STATUSES = [429, 503];
+
+/**
+ * Build retry options from the node-level request options
+ * @param requestOptions - Values of the "Request Options" collection
+ * @returns Retry options with defaults applied
+ */
+export function resolveRetryOptions(requestOptions: IDataObject = {}): IRetryOptions {
+  const options = { ...DEFAULT_RETRY_OPTIONS };
+
+  if (requestOptions.maxAttempts !== undefined) {
+    options.maxAttempts = Math.max(1, Math.floor(Number(requestOptions.maxAttempts) || 1));
+  }
+
+  if (requestOptions.maxTotalWait !== undefined) {
+    options.maxTotalWaitMs = Math.max(0, Number(requestOptions.maxTotalWait) || 0) * 1000;
+  }
+
+  return options;
+}
+
+/**
+ * Get the HTTP status code from a request error
+ * @param error - Error thrown by the request helper
+ * @returns Status code, if the server responded
+ */
+export function getErrorStatusCode(error: IDataObject): number | undefined {
+  const response = error.response as IDataObject | undefined;
+  const statusCode = error.statusCode ?? error.httpCode ?? response?.statusCode ?? response?.status;
+  const parsed = Number(statusCode);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Decide whether a failed request can safely be sent again
+ * @param error - Error thrown by the request helper
+ * @param method - HTTP method of the request
+ * @param idempotent - Whether the request is known to be safe to repeat
+ * @returns true if the request should be retried
+ */
+export function isRetryableError(
+  error: IDataObject,
+  method: IHttpRequestMethods,
+  idempotent = IDEMPOTENT_METHODS.includes(method),
+): boolean {
+  const statusCode = getErrorStatusCode(error);
+
+  if (statusCode !== undefined && ALWAYS_RETRYABLE_STATUSES.includes(statusCode)) {
+    return true;
+  }
+
+  if (!idempotent) {
+    return false;
+  }
+
+  // Network failures (no response) and other server errors
+  return statusCode === undefined || statusCode >= 500;
+}
+
+/**
+ * Read the Retry-After header of a failed response
+ * @param error - Error thrown by the request helper
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, if the header was present and valid
+ */
+export function getRetryAfterMs(error: IDataObject, now = Date.now()): number | undefined {
+  const response = error.response as IDataObject | undefined;
+  const headers = (response?.headers ?? error.headers) as IDataObject | undefined;
+
+  if (!headers) {
+    return undefined;
+  }
+
+  const headerKey = Object.keys(headers).find((key) => key.toLowerCase() === 'retry-after');
+  const value = headerKey ? String(headers[headerKey]).trim() : '';
+
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute a jittered exponential backoff delay ("full jitter")
+ * @param attempt - Number of attempts made so far (1-based)
+ * @param options - Retry options
+ * @param random - Random source, overridable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffMs(
+  attempt: number,
+  options: IRetryOptions,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Determine how long to wait before the next attempt
+ * @param error - Error thrown by the request helper
+ * @param attempt - Number of attempts made so far (1-based)
+ * @param options - Retry options
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelayMs(
+  error: IDataObject,
+  attempt: number,
+  options: IRetryOptions,
+): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+  return computeBackoffMs(attempt, options);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms - Delay in milliseconds
+ */
+export async function sleep(ms: number): Promise<void> {
+  if (ms <= 0) {
+    return;
+  }
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
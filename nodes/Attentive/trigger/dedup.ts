@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+import { createHash } from 'crypto';
+
+export const DEFAULT_DEDUPLICATION_WINDOW_SECONDS = 3600;
+
+// Upper bound on remembered events, so a burst of deliveries can't grow static data without limit
+export const MAX_SEEN_EVENTS = 10000;
+
+// Fields identifying what an event is about, in order of preference
+const SUBJECT_KEYS = ['messageId', 'subscriberId', 'userId', 'id', 'phone', 'email'];
+
+export interface IDuplicateCheck {
+  key: string;
+  duplicate: boolean;
+  // When the event was first received, in milliseconds
+  firstSeenAt: number;
+}
+
+/**
+ * Get the key that identifies an event across delivery attempts.
+ *
+ * Attentive sends the same event id with every retry. Events without an id are keyed on a hash
+ * of their type, timestamp and subject.
+ * @param body - Webhook request body
+ * @returns Event key
+ */
+export function getEventKey(body: IDataObject): string {
+  const id = body.id ?? body.eventId;
+  if (id !== undefined && id !== null && id !== '') {
+    return `id:${id}`;
+  }
+
+  const data = (body.data as IDataObject | undefined) || body;
+  const subjectKey = SUBJECT_KEYS.find((key) => data[key] !== undefined && data[key] !== null);
+  const subject = subjectKey ? `${subjectKey}=${data[subjectKey]}` : JSON.stringify(data);
+  const hash = createHash('sha256')
+    .update(JSON.stringify([body.event ?? body.type ?? null, body.timestamp ?? null, subject]))
+    .digest('hex');
+
+  return `hash:${hash.slice(0, 32)}`;
+}
+
+/**
+ * Forget events whose de-duplication window has passed, and the oldest events over the limit
+ * @param seenEvents - First receipt time per event key
+ * @param windowMs - De-duplication window
+ * @param now - Current time in milliseconds
+ */
+export function pruneSeenEvents(seenEvents: IDataObject, windowMs: number, now: number): void {
+  for (const [key, firstSeenAt] of Object.entries(seenEvents)) {
+    if ((firstSeenAt as number) + windowMs <= now) {
+      delete seenEvents[key];
+    }
+  }
+
+  const keys = Object.keys(seenEvents);
+  if (keys.length > MAX_SEEN_EVENTS) {
+    keys
+      .sort((a, b) => (seenEvents[a] as number) - (seenEvents[b] as number))
+      .slice(0, keys.length - MAX_SEEN_EVENTS)
+      .forEach((key) => delete seenEvents[key]);
+  }
+}
+
+/**
+ * Check whether an event was already received within the window, remembering it if not
+ * @param staticData - Node static data, where received events are kept
+ * @param body - Webhook request body
+ * @param windowSeconds - De-duplication window
+ * @param now - Current time in milliseconds
+ * @returns Event key, whether it is a duplicate and when it was first received
+ */
+export function checkDuplicateEvent(
+  staticData: IDataObject,
+  body: IDataObject,
+  windowSeconds: number,
+  now = Date.now(),
+): IDuplicateCheck {
+  const seenEvents = (staticData.seenEvents as IDataObject | undefined) ?? {};
+  pruneSeenEvents(seenEvents, windowSeconds * 1000, now);
+
+  const key = getEventKey(body);
+  const firstSeenAt = seenEvents[key] as number | undefined;
+  if (firstSeenAt === undefined) {
+    seenEvents[key] = now;
+  }
+
+  staticData.seenEvents = seenEvents;
+  return { key, duplicate: firstSeenAt !== undefined, firstSeenAt: firstSeenAt ?? now };
+}
@@ -0,0 +1,152 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, INode, INodePropertyOptions } from 'n8n-workflow';
+import { randomBytes } from 'crypto';
+
+import { createValidationError } from '../transport';
+
+import {
+  IWebhookEventDefinition,
+  WEBHOOK_EVENT_CATEGORIES,
+  WEBHOOK_EVENT_REGISTRY,
+  WEBHOOK_EVENTS,
+  WebhookEvent,
+  WebhookEventCategory,
+  WebhookPayloadType,
+} from '../types/AttentiveTypes';
+
+const WILDCARD_SUFFIX = '.*';
+
+const SAMPLE_SUBSCRIBER: IDataObject = {
+  subscriberId: 'sub_sample',
+  phone: '+15555550100',
+  email: 'sample@example.com',
+};
+
+// Event details of the sample deliveries sent by the webhook test operation
+const SAMPLE_DATA: Record<WebhookPayloadType, IDataObject> = {
+  subscription: { subscriptionType: 'MARKETING', channel: 'TEXT', signUpSourceId: 'source_sample' },
+  message: { messageId: 'msg_sample', messageName: 'Sample Message', externalId: 'ext_sample' },
+  signUpUnit: { signUpUnitId: 'unit_sample', signUpUnitName: 'Sample Sign-Up Unit' },
+  journey: { journeyId: 'journey_sample', journeyName: 'Sample Journey' },
+  customAttribute: { attributes: { favoriteColor: 'blue' } },
+  purchase: {
+    orderId: 'order_sample',
+    messageId: 'msg_sample',
+    journeyId: 'journey_sample',
+    revenue: 42.5,
+    currency: 'USD',
+  },
+  subscriber: { changes: { email: 'sample@example.com' } },
+};
+
+// Details only some events carry
+const SAMPLE_EVENT_DATA: Partial<Record<WebhookEvent, IDataObject>> = {
+  'subscription.opted_out': { reason: 'STOP' },
+  'message.clicked': { linkUrl: 'https://example.com/sample' },
+  'message.replied': { replyText: 'YES' },
+  'message.failed': { failureReason: 'Carrier rejected the message', failureCode: '30007' },
+  'email.clicked': { linkUrl: 'https://example.com/sample' },
+  'email.bounced': { failureReason: 'Mailbox not found', failureCode: '550' },
+  'journey.exited': { exitReason: 'Completed' },
+};
+
+/**
+ * Get the registry entry of an event
+ * @param event - Event name
+ * @returns Event definition, or undefined for events not in the registry
+ */
+export function getWebhookEventDefinition(event: string): IWebhookEventDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_REGISTRY, event)
+    ? (WEBHOOK_EVENT_REGISTRY as Record<string, IWebhookEventDefinition>)[event]
+    : undefined;
+}
+
+/**
+ * Build the event options of the trigger and the webhook operations
+ * @param includeWildcards - Whether to offer a wildcard option per category
+ * @returns The wildcard options, followed by every event of the registry
+ */
+export function getWebhookEventOptions(includeWildcards = true): INodePropertyOptions[] {
+  const categories = Object.entries(WEBHOOK_EVENT_CATEGORIES) as Array<
+    [WebhookEventCategory, string]
+  >;
+  const wildcards = categories.map(([category, label]) => ({
+    name: `All ${label} Events`,
+    value: `${category}${WILDCARD_SUFFIX}`,
+    description: `Every ${label.toLowerCase()} event, expanded to the individual events when the webhook is registered`,
+  }));
+
+  const events = WEBHOOK_EVENTS.map((event) => {
+    const { category, description } = WEBHOOK_EVENT_REGISTRY[event];
+    const action = event
+      .slice(category.length + 1)
+      .split('_')
+      .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+      .join(' ');
+    return { name: `${WEBHOOK_EVENT_CATEGORIES[category]} ${action}`, value: event, description };
+  });
+
+  return includeWildcards ? [...wildcards, ...events] : events;
+}
+
+/**
+ * Expand category wildcards such as "message.*" into the events of the category.
+ *
+ * Attentive only accepts individual events, so wildcards are expanded when the webhook is
+ * registered. Events not in the registry are passed through as they are.
+ * @param node - Node the events are selected in
+ * @param events - Selected events and wildcards
+ * @param itemIndex - Item index, for events read per item
+ * @returns Unique event names, in the order selected
+ */
+export function expandWebhookEvents(node: INode, events: string[], itemIndex?: number): string[] {
+  const expanded = events.flatMap((event) => {
+    if (!event.endsWith(WILDCARD_SUFFIX)) {
+      return [event];
+    }
+
+    const category = event.slice(0, -WILDCARD_SUFFIX.length);
+    if (!Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_CATEGORIES, category)) {
+      throw createValidationError(node, `Unknown event category "${category}"`, {
+        field: 'events',
+        itemIndex,
+        description: `Use one of: ${Object.keys(WEBHOOK_EVENT_CATEGORIES)
+          .map((name) => `${name}.*`)
+          .join(', ')}`,
+      });
+    }
+    return WEBHOOK_EVENTS.filter((name) => WEBHOOK_EVENT_REGISTRY[name].category === category);
+  });
+
+  return [...new Set(expanded)];
+}
+
+/**
+ * Build a sample delivery of an event, shaped like the deliveries Attentive sends.
+ *
+ * Each sample gets a new event id, so the trigger's de-duplication does not drop repeated tests.
+ * @param event - Event name
+ * @param timestamp - When the sample event occurred
+ * @returns Webhook request body
+ */
+export function buildSampleWebhookBody(event: string, timestamp = new Date()): IDataObject {
+  const definition = getWebhookEventDefinition(event);
+
+  return {
+    id: `evt_test_${randomBytes(8).toString('hex')}`,
+    event,
+    timestamp: timestamp.toISOString(),
+    test: true,
+    data: {
+      ...SAMPLE_SUBSCRIBER,
+      ...(definition ? SAMPLE_DATA[definition.payloadType] : {}),
+      ...SAMPLE_EVENT_DATA[event as WebhookEvent],
+    },
+  };
+}
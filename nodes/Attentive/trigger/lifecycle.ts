@@ -0,0 +1,236 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IHookFunctions } from 'n8n-workflow';
+import { createHash } from 'crypto';
+
+import {
+  AttentiveNotFoundError,
+  AttentiveValidationError,
+  attentiveApiRequest,
+  attentivePaginate,
+} from '../transport';
+
+// Statuses Attentive reports for webhooks it stopped delivering to
+const DISABLED_STATUSES = ['disabled', 'inactive', 'paused', 'suspended'];
+
+export type WebhookDrift = 'url' | 'events' | 'secret' | 'disabled';
+
+export interface IDesiredWebhook {
+  url: string;
+  // Individual events, with wildcards expanded
+  events: string[];
+  secret: string;
+}
+
+/**
+ * Hash a webhook secret for static data, so a changed secret can be detected without storing it
+ * @param secret - Webhook secret
+ * @returns sha256 hex digest, or null without a secret
+ */
+export function hashSecret(secret: string): string | null {
+  return secret ? createHash('sha256').update(secret).digest('hex') : null;
+}
+
+/**
+ * Check whether Attentive stopped delivering to a webhook, e.g. after repeated failures
+ * @param webhook - Webhook as returned by the API
+ * @returns true if the webhook is disabled
+ */
+export function isWebhookDisabled(webhook: IDataObject): boolean {
+  return (
+    webhook.enabled === false ||
+    webhook.active === false ||
+    DISABLED_STATUSES.includes(String(webhook.status ?? '').toLowerCase())
+  );
+}
+
+/**
+ * Compare a registered webhook with the node configuration.
+ *
+ * The API never returns the secret, so it is compared through the hash stored when the webhook
+ * was registered. Without a stored hash, the secret only counts as changed when one is set.
+ * @param webhook - Webhook as returned by the API
+ * @param desired - Webhook the node configuration asks for
+ * @param storedSecretHash - Hash of the secret the webhook was registered with
+ * @returns What differs, empty if the webhook matches
+ */
+export function getWebhookDrift(
+  webhook: IDataObject,
+  desired: IDesiredWebhook,
+  storedSecretHash?: string | null,
+): WebhookDrift[] {
+  const drift: WebhookDrift[] = [];
+  const registered = Array.isArray(webhook.events) ? (webhook.events as string[]) : [];
+
+  if (webhook.url !== desired.url) {
+    drift.push('url');
+  }
+  if (
+    JSON.stringify([...new Set(registered)].sort()) !== JSON.stringify([...desired.events].sort())
+  ) {
+    drift.push('events');
+  }
+  if ((storedSecretHash ?? null) !== hashSecret(desired.secret)) {
+    drift.push('secret');
+  }
+  if (isWebhookDisabled(webhook)) {
+    drift.push('disabled');
+  }
+
+  return drift;
+}
+
+/**
+ * Check whether a webhook was registered for the same trigger node but is no longer used by it.
+ *
+ * n8n webhook URLs end in the node's webhook id and path, so a webhook on the same n8n base URL
+ * with the same ending belongs to this node: the test URL, a URL from before the base URL path
+ * changed, or a duplicate registration.
+ * @param webhook - Webhook as returned by the API
+ * @param webhookUrl - URL the node receives deliveries on
+ * @param keepId - Id of the webhook the node uses
+ * @returns true if the webhook can be deleted
+ */
+export function isOrphanedWebhook(
+  webhook: IDataObject,
+  webhookUrl: string,
+  keepId?: unknown,
+): boolean {
+  if (webhook.id === keepId || typeof webhook.url !== 'string') {
+    return false;
+  }
+
+  let target: URL;
+  let candidate: URL;
+  try {
+    target = new URL(webhookUrl);
+    candidate = new URL(webhook.url);
+  } catch {
+    return false;
+  }
+
+  const suffix = (url: URL) => url.pathname.split('/').filter(Boolean).slice(-2).join('/');
+  return candidate.origin === target.origin && suffix(candidate) === suffix(target);
+}
+
+/**
+ * Get a webhook by id
+ * @param webhookId - Webhook id
+ * @returns Webhook, or undefined if it no longer exists
+ */
+export async function getWebhook(
+  this: IHookFunctions,
+  webhookId: string,
+): Promise<IDataObject | undefined> {
+  try {
+    return await attentiveApiRequest.call(this, 'GET', `/webhooks/${webhookId}`);
+  } catch (error) {
+    if (error instanceof AttentiveNotFoundError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List every registered webhook
+ * @returns Webhooks
+ */
+export async function listWebhooks(this: IHookFunctions): Promise<IDataObject[]> {
+  const result = await attentivePaginate.call(
+    this,
+    'GET',
+    '/webhooks',
+    {},
+    {},
+    {
+      dataKey: 'webhooks',
+    },
+  );
+  return result.items;
+}
+
+/**
+ * Delete a webhook, ignoring webhooks that no longer exist
+ * @param webhookId - Webhook id
+ */
+export async function deleteWebhook(this: IHookFunctions, webhookId: string): Promise<void> {
+  try {
+    await attentiveApiRequest.call(this, 'DELETE', `/webhooks/${webhookId}`);
+  } catch (error) {
+    if (!(error instanceof AttentiveNotFoundError)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Update a registered webhook to match the node configuration, re-enabling it if disabled.
+ *
+ * Webhooks that no longer exist or that Attentive refuses to update are left to be re-created;
+ * a refused webhook is deleted first so its URL is free again.
+ * @param webhook - Webhook as returned by the API
+ * @param desired - Webhook the node configuration asks for
+ * @param storedSecretHash - Hash of the secret the webhook was registered with
+ * @returns true if the webhook matches the configuration, false if it must be re-created
+ */
+export async function reconcileWebhook(
+  this: IHookFunctions,
+  webhook: IDataObject,
+  desired: IDesiredWebhook,
+  storedSecretHash?: string | null,
+): Promise<boolean> {
+  const drift = getWebhookDrift(webhook, desired, storedSecretHash);
+  if (drift.length === 0) {
+    return true;
+  }
+
+  const body: IDataObject = { url: desired.url, events: desired.events };
+  if (drift.includes('secret')) {
+    body.secret = desired.secret || null;
+  }
+  if (drift.includes('disabled')) {
+    body.enabled = true;
+  }
+
+  try {
+    await attentiveApiRequest.call(this, 'PATCH', `/webhooks/${webhook.id}`, body);
+    return true;
+  } catch (error) {
+    if (error instanceof AttentiveNotFoundError) {
+      return false;
+    }
+    if (error instanceof AttentiveValidationError) {
+      await deleteWebhook.call(this, webhook.id as string);
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete the orphaned webhooks of a trigger node
+ * @param webhooks - Registered webhooks
+ * @param webhookUrl - URL the node receives deliveries on
+ * @param keepId - Id of the webhook the node uses
+ * @returns Ids of the deleted webhooks
+ */
+export async function cleanUpOrphanedWebhooks(
+  this: IHookFunctions,
+  webhooks: IDataObject[],
+  webhookUrl: string,
+  keepId?: unknown,
+): Promise<string[]> {
+  const orphans = webhooks.filter((webhook) => isOrphanedWebhook(webhook, webhookUrl, keepId));
+
+  for (const orphan of orphans) {
+    await deleteWebhook.call(this, orphan.id as string);
+  }
+
+  return orphans.map((orphan) => orphan.id as string);
+}
@@ -0,0 +1,213 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+
+import {
+  IWebhookPayloadBase,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookPayloadType,
+} from '../types/AttentiveTypes';
+import { getValueByPath } from '../utils';
+import { parseEventTime } from '../utils/signature';
+import { getWebhookEventDefinition } from './events';
+import { IPollEvent } from './poll';
+
+// Paths each normalized field is read from, in order of preference
+const FIELD_PATHS: Record<string, string[]> = {
+  subscriberId: ['subscriberId', 'userId', 'user.id', 'subscriber.id'],
+  phone: ['phone', 'phoneNumber', 'user.phone', 'subscriber.phone', 'to'],
+  email: ['email', 'user.email', 'subscriber.email'],
+  subscriptionType: ['subscriptionType', 'subscription.type'],
+  channel: ['channel', 'subscription.channel'],
+  signUpSourceId: ['signUpSourceId', 'signUpSource.id', 'sourceId'],
+  reason: ['reason', 'optOutReason', 'unsubscribeReason'],
+  messageId: ['messageId', 'message.id'],
+  messageName: ['messageName', 'message.name'],
+  externalId: ['externalId', 'message.externalId'],
+  linkUrl: ['linkUrl', 'url', 'link.url', 'clickedUrl', 'link'],
+  replyText: ['replyText', 'reply.body', 'reply.text', 'text', 'body'],
+  failureReason: ['failureReason', 'reason', 'error.message', 'errorMessage', 'error'],
+  failureCode: ['failureCode', 'errorCode', 'error.code', 'code'],
+  signUpUnitId: ['signUpUnitId', 'signUpUnit.id', 'creativeId'],
+  signUpUnitName: ['signUpUnitName', 'signUpUnit.name', 'creativeName'],
+  journeyId: ['journeyId', 'journey.id'],
+  journeyName: ['journeyName', 'journey.name'],
+  exitReason: ['exitReason', 'reason'],
+  attributes: ['attributes', 'customAttributes', 'properties'],
+  orderId: ['orderId', 'order.id'],
+  revenue: ['revenue', 'amount', 'totalAmount', 'order.total'],
+  currency: ['currency', 'order.currency'],
+  changes: ['changes', 'updates', 'updatedFields'],
+};
+
+// Fields read as objects or numbers rather than strings
+const OBJECT_FIELDS = ['attributes', 'changes'];
+const NUMBER_FIELDS = ['revenue'];
+
+// Fields of each payload type, on top of the shared fields
+const PAYLOAD_FIELDS: Record<WebhookPayloadType, string[]> = {
+  subscription: ['subscriptionType', 'channel'],
+  message: ['messageId', 'messageName', 'externalId'],
+  signUpUnit: ['signUpUnitId', 'signUpUnitName'],
+  journey: ['journeyId', 'journeyName'],
+  customAttribute: ['attributes'],
+  purchase: ['orderId', 'messageId', 'journeyId', 'revenue', 'currency'],
+  subscriber: ['changes'],
+};
+
+// Fields only some events of a payload type carry
+const EVENT_FIELDS: Partial<Record<WebhookEvent, string[]>> = {
+  'subscription.created': ['signUpSourceId'],
+  'subscription.opted_out': ['reason'],
+  'message.clicked': ['linkUrl'],
+  'message.replied': ['replyText'],
+  'message.failed': ['failureReason', 'failureCode'],
+  'email.clicked': ['linkUrl'],
+  'email.bounced': ['failureReason', 'failureCode'],
+  'journey.exited': ['exitReason'],
+};
+
+/**
+ * Read the first string or number found at a list of paths
+ * @param data - Object to read from
+ * @param paths - Candidate paths
+ * @returns Value as a string, or null
+ */
+function pickString(data: IDataObject, paths: string[]): string | null {
+  for (const path of paths) {
+    const value = getValueByPath(data, path);
+    if ((typeof value === 'string' && value !== '') || typeof value === 'number') {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a normalized field
+ * @param data - Event details
+ * @param field - Field name
+ * @param paths - Paths to read the field from
+ * @returns Object for object fields, number for number fields, string otherwise, or null
+ */
+function pickField(data: IDataObject, field: string, paths: string[]): IDataObject[string] {
+  if (OBJECT_FIELDS.includes(field)) {
+    const value = paths
+      .map((path) => getValueByPath(data, path))
+      .find((v) => v && typeof v === 'object');
+    return (value as IDataObject | undefined) ?? null;
+  }
+
+  const value = pickString(data, paths);
+  if (NUMBER_FIELDS.includes(field) && value !== null) {
+    return Number.isNaN(Number(value)) ? null : Number(value);
+  }
+  return value;
+}
+
+/**
+ * Build the output item of a trigger event, shared by the webhook and polling triggers
+ * @param event - Event name, e.g. "subscription.created"
+ * @param data - Event data
+ * @param raw - Payload the event was read from
+ * @param timestamp - When the event occurred, defaults to now
+ * @returns Trigger payload
+ */
+export function buildTriggerPayload(
+  event: string | undefined,
+  data: IDataObject,
+  raw: IDataObject,
+  timestamp?: unknown,
+): IDataObject {
+  return {
+    event,
+    timestamp: timestamp || new Date().toISOString(),
+    data,
+    raw,
+  };
+}
+
+/**
+ * Build the trigger payload of a webhook delivery
+ * @param body - Webhook request body
+ * @returns Trigger payload
+ */
+export function normalizeWebhookBody(body: IDataObject): IDataObject {
+  return buildTriggerPayload(
+    (body.event || body.type) as string | undefined,
+    (body.data as IDataObject | undefined) || body,
+    body,
+    body.timestamp,
+  );
+}
+
+/**
+ * Normalize a webhook delivery into the typed payload of its event.
+ *
+ * Deliveries nest the event details under `data` or send them at the top level, and name
+ * fields differently per event. Subscriber identity, message ID, link URL, reply text and
+ * failure reason are read from any of their known locations into the same fields.
+ * @param body - Webhook request body
+ * @returns Normalized payload, with only the shared fields for unknown events
+ */
+export function normalizeWebhookEvent(body: IDataObject): WebhookPayload | IWebhookPayloadBase {
+  const nested = body.data !== null && typeof body.data === 'object' && !Array.isArray(body.data);
+  const data = nested ? (body.data as IDataObject) : body;
+  const eventTime = parseEventTime(body.timestamp as string | number | undefined);
+
+  // Without a data object, a top-level id may identify the subject rather than the event
+  const base: IWebhookPayloadBase = {
+    event: pickString(body, ['event', 'type']) ?? 'unknown',
+    eventId: pickString(body, nested ? ['eventId', 'id'] : ['eventId']),
+    timestamp: new Date(eventTime ?? Date.now()).toISOString(),
+    subscriberId: pickString(data, FIELD_PATHS.subscriberId),
+    phone: pickString(data, FIELD_PATHS.phone),
+    email: pickString(data, FIELD_PATHS.email),
+  };
+
+  const definition = getWebhookEventDefinition(base.event);
+  if (!definition) {
+    return base;
+  }
+
+  const payload: IDataObject = { ...base };
+  const fields = [
+    ...PAYLOAD_FIELDS[definition.payloadType],
+    ...(EVENT_FIELDS[base.event as WebhookEvent] ?? []),
+  ];
+  for (const field of fields) {
+    const paths =
+      field === 'messageId' && nested && definition.payloadType === 'message'
+        ? [...FIELD_PATHS.messageId, 'id']
+        : FIELD_PATHS[field];
+    payload[field] = pickField(data, field, paths);
+  }
+
+  return payload as unknown as WebhookPayload;
+}
+
+/**
+ * Normalize a polled event into the payload the webhook trigger outputs for the same event.
+ *
+ * Events only the poll trigger emits, such as segment membership changes, have no typed payload;
+ * their details are added to the shared fields as polled.
+ * @param event - Polled event
+ * @returns Normalized payload
+ */
+export function normalizePollEvent(event: IPollEvent): IDataObject {
+  // Polled subscriptions name their type `type`, which deliveries use for the event name
+  const data: IDataObject = { subscriptionType: event.data.type, ...event.data };
+  const payload = normalizeWebhookEvent({
+    event: event.event,
+    timestamp: event.timestamp,
+    data,
+  }) as unknown as IDataObject;
+
+  return getWebhookEventDefinition(event.event) ? payload : { ...payload, ...event.data };
+}
@@ -0,0 +1,363 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IPollFunctions } from 'n8n-workflow';
+
+import { attentivePaginate } from '../transport';
+import { DEFAULT_PAGE_SIZE } from '../transport/pagination';
+import { normalizeMessageStatus } from '../utils/messageStatus';
+
+export type PollSource = 'subscriptions' | 'messages' | 'segmentMembers' | 'journeyStatus';
+
+export const POLL_EVENTS: Record<PollSource, string[]> = {
+  subscriptions: ['subscription.created', 'subscription.opted_out'],
+  messages: [
+    'message.sent',
+    'message.delivered',
+    'message.clicked',
+    'message.replied',
+    'message.failed',
+  ],
+  segmentMembers: ['segment.member_added', 'segment.member_removed'],
+  journeyStatus: ['journey.status_changed'],
+};
+
+export interface IPollEvent {
+  // Identifies the change, for de-duplication
+  key: string;
+  event: string;
+  timestamp: string;
+  data: IDataObject;
+  raw: IDataObject;
+}
+
+export interface IPollState {
+  // Source and parameters the state belongs to, the state starts over when they change
+  stateKey?: string;
+  // Timestamp of the latest event seen by timestamp-based sources
+  watermark?: string;
+  // Keys of the events at the watermark, which the next inclusive query returns again
+  seen?: string[];
+  // Last known members or statuses of snapshot-based sources
+  snapshot?: IDataObject;
+}
+
+export interface IPollOptions {
+  segmentId?: string;
+  // Events to emit, all events of the source when empty
+  events?: string[];
+  // Manual executions emit from an empty state and only fetch one page
+  manual?: boolean;
+}
+
+/**
+ * Get the first valid timestamp of a list of candidates as an ISO string
+ * @param candidates - Candidate timestamps, in order of preference
+ * @param fallback - Timestamp to use when none is valid
+ * @returns ISO timestamp
+ */
+function toIsoTimestamp(candidates: unknown[], fallback: string): string {
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' || typeof candidate === 'number') {
+      const date = new Date(candidate);
+      if (!isNaN(date.getTime())) {
+        return date.toISOString();
+      }
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Build the key the poll state is stored under
+ * @param source - Poll source
+ * @param options - Segment and events the trigger polls for
+ * @returns State key
+ */
+export function getPollStateKey(source: PollSource, options: IPollOptions = {}): string {
+  return JSON.stringify([source, options.segmentId ?? null, [...(options.events ?? [])].sort()]);
+}
+
+/**
+ * Derive subscription events from a subscriber record
+ * @param subscriber - Subscriber from the subscribers list
+ * @param now - Timestamp of the poll, for subscriptions without timestamps
+ * @returns One event per subscribed or unsubscribed subscription
+ */
+export function getSubscriptionEvents(subscriber: IDataObject, now: string): IPollEvent[] {
+  const subscriptions = (subscriber.subscriptions as IDataObject[] | undefined) ?? [];
+
+  return subscriptions.flatMap((subscription) => {
+    const status = String(subscription.status ?? '').toUpperCase();
+    const optedOut = status === 'UNSUBSCRIBED';
+    if (status !== 'SUBSCRIBED' && !optedOut) {
+      return [];
+    }
+
+    const event = optedOut ? 'subscription.opted_out' : 'subscription.created';
+    const timestamp = toIsoTimestamp(
+      [
+        optedOut ? subscription.unsubscribedAt : subscription.subscribedAt,
+        subscription.updatedAt,
+        subscriber.updatedAt,
+      ],
+      now,
+    );
+    const data: IDataObject = {
+      subscriberId: subscriber.id ?? null,
+      phone: subscriber.phone ?? null,
+      email: subscriber.email ?? null,
+      type: subscription.type ?? null,
+      channel: subscription.channel ?? null,
+      status,
+    };
+
+    return [
+      {
+        key: `${subscriber.id}:${subscription.type}:${subscription.channel}:${event}:${timestamp}`,
+        event,
+        timestamp,
+        data,
+        raw: subscriber,
+      },
+    ];
+  });
+}
+
+/**
+ * Derive the event of a message's current status
+ * @param message - Message from the messages list
+ * @param now - Timestamp of the poll, for messages without timestamps
+ * @returns The status event, or none for statuses without a trigger event
+ */
+export function getMessageEvents(message: IDataObject, now: string): IPollEvent[] {
+  const data = normalizeMessageStatus(message);
+  if (!data.event) {
+    return [];
+  }
+
+  const timestamp = toIsoTimestamp([data[`${data.status}At`], message.updatedAt], now);
+  return [
+    {
+      key: `${data.messageId}:${data.status}`,
+      event: data.event as string,
+      timestamp,
+      data,
+      raw: message,
+    },
+  ];
+}
+
+/**
+ * Select the events after the watermark and move the watermark forward.
+ *
+ * Queries include records updated at the watermark itself, so the keys of the events at the
+ * watermark are kept to drop them when they are returned again.
+ * @param events - Events derived from the polled records
+ * @param state - Poll state
+ * @returns New events, oldest first, with the next watermark and keys seen at it
+ */
+export function selectNewEvents(
+  events: IPollEvent[],
+  state: IPollState,
+): { events: IPollEvent[]; watermark?: string; seen: string[] } {
+  const seen = new Set(state.seen ?? []);
+  const fresh = events
+    .filter(
+      (event) =>
+        !state.watermark ||
+        event.timestamp > state.watermark ||
+        (event.timestamp === state.watermark && !seen.has(event.key)),
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  const latest = fresh[fresh.length - 1]?.timestamp;
+  const watermark =
+    latest && (!state.watermark || latest > state.watermark) ? latest : state.watermark;
+  const seenAtWatermark = fresh
+    .filter((event) => event.timestamp === watermark)
+    .map((event) => event.key);
+
+  return {
+    events: fresh,
+    watermark,
+    seen: watermark === state.watermark ? [...seen, ...seenAtWatermark] : seenAtWatermark,
+  };
+}
+
+/**
+ * Compare the members of a segment with the previous poll
+ * @param previous - Member IDs of the previous poll
+ * @param members - Current members
+ * @param segmentId - Segment ID
+ * @param now - Timestamp of the poll
+ * @returns Added and removed member events, with the new snapshot
+ */
+export function diffSegmentMembers(
+  previous: string[],
+  members: IDataObject[],
+  segmentId: string,
+  now: string,
+): { events: IPollEvent[]; snapshot: IDataObject } {
+  const getMemberId = (member: IDataObject) =>
+    String(member.id ?? member.subscriberId ?? member.phone ?? member.email);
+  const previousIds = new Set(previous);
+  const currentIds = new Set(members.map(getMemberId));
+
+  const added = members
+    .filter((member) => !previousIds.has(getMemberId(member)))
+    .map((member) => ({
+      key: `${segmentId}:${getMemberId(member)}:added:${now}`,
+      event: 'segment.member_added',
+      timestamp: now,
+      data: { segmentId, memberId: getMemberId(member), member },
+      raw: member,
+    }));
+  const removed = previous
+    .filter((id) => !currentIds.has(id))
+    .map((id) => ({
+      key: `${segmentId}:${id}:removed:${now}`,
+      event: 'segment.member_removed',
+      timestamp: now,
+      data: { segmentId, memberId: id },
+      raw: { id },
+    }));
+
+  return { events: [...added, ...removed], snapshot: { members: [...currentIds] } };
+}
+
+/**
+ * Compare journey statuses with the previous poll
+ * @param previous - Status per journey ID of the previous poll
+ * @param journeys - Current journeys
+ * @param now - Timestamp of the poll
+ * @returns Status change events, with the new snapshot
+ */
+export function diffJourneyStatuses(
+  previous: IDataObject,
+  journeys: IDataObject[],
+  now: string,
+): { events: IPollEvent[]; snapshot: IDataObject } {
+  const snapshot: IDataObject = {};
+  const events: IPollEvent[] = [];
+
+  for (const journey of journeys) {
+    const id = String(journey.id);
+    const status = (journey.status as string | undefined) ?? null;
+    snapshot[id] = status;
+    if (previous[id] === status) {
+      continue;
+    }
+    events.push({
+      key: `${id}:${status}:${now}`,
+      event: 'journey.status_changed',
+      timestamp: toIsoTimestamp([journey.updatedAt], now),
+      data: {
+        journeyId: id,
+        name: journey.name ?? null,
+        status,
+        previousStatus: previous[id] ?? null,
+      },
+      raw: journey,
+    });
+  }
+
+  return { events, snapshot };
+}
+
+/**
+ * Poll a source for events since the previous poll, updating the poll state.
+ *
+ * Timestamp-based sources (subscriptions, messages) query records updated since the watermark.
+ * Snapshot-based sources (segment members, journey statuses) compare the full list with the
+ * previous poll. Polls that get an incomplete list keep the previous snapshot and emit nothing, as
+ * does the first poll, which only records the starting point.
+ * @param source - Source to poll
+ * @param state - Poll state, updated in place
+ * @param options - Segment, events and mode
+ * @returns New events, oldest first
+ */
+export async function pollEvents(
+  this: IPollFunctions,
+  source: PollSource,
+  state: IPollState,
+  options: IPollOptions = {},
+): Promise<IPollEvent[]> {
+  const now = new Date().toISOString();
+  const maxItems = options.manual ? DEFAULT_PAGE_SIZE : undefined;
+  const isSelected = (event: IPollEvent) =>
+    !options.events?.length || options.events.includes(event.event);
+
+  if (source === 'subscriptions' || source === 'messages') {
+    if (!state.watermark && !options.manual) {
+      state.watermark = now;
+      state.seen = [];
+      return [];
+    }
+
+    const dataKey = source === 'subscriptions' ? 'subscribers' : 'messages';
+    const { items } = await attentivePaginate.call(
+      this,
+      'GET',
+      `/${dataKey}`,
+      {},
+      state.watermark ? { updatedSince: state.watermark } : {},
+      { dataKey, maxItems },
+    );
+    const getEvents = source === 'subscriptions' ? getSubscriptionEvents : getMessageEvents;
+    const result = selectNewEvents(
+      items.flatMap((item) => getEvents(item, now)).filter(isSelected),
+      state,
+    );
+
+    state.watermark = result.watermark;
+    state.seen = result.seen;
+    return result.events;
+  }
+
+  const previous = state.snapshot;
+  let diff: { events: IPollEvent[]; snapshot: IDataObject };
+
+  if (source === 'segmentMembers') {
+    const segmentId = options.segmentId ?? '';
+    const { items, truncated } = await attentivePaginate.call(
+      this,
+      'GET',
+      `/segments/${encodeURIComponent(segmentId)}/members`,
+      {},
+      {},
+      { dataKey: 'members', maxItems },
+    );
+    // Members missing from a partial list would be reported as removed
+    if (truncated && !options.manual) {
+      return [];
+    }
+    diff = diffSegmentMembers(
+      (previous?.members as string[] | undefined) ?? [],
+      items,
+      segmentId,
+      now,
+    );
+  } else {
+    const { items, truncated } = await attentivePaginate.call(
+      this,
+      'GET',
+      '/journeys',
+      {},
+      {},
+      { dataKey: 'journeys', maxItems },
+    );
+    // Journeys missing from a partial list would lose their status in the snapshot
+    if (truncated && !options.manual) {
+      return [];
+    }
+    diff = diffJourneyStatuses(previous ?? {}, items, now);
+  }
+
+  state.snapshot = diff.snapshot;
+  return previous || options.manual ? diff.events.filter(isSelected) : [];
+}
@@ -19,8 +19,29 @@ export type AttentiveResource =
   | 'keyword'
   | 'webhook';
 
-export type SubscriberOperation = 'subscribe' | 'unsubscribe' | 'get' | 'update';
-export type MessageOperation = 'send' | 'sendBulk' | 'sendTransactional';
+export type SubscriberOperation =
+  | 'subscribe'
+  | 'unsubscribe'
+  | 'get'
+  | 'update'
+  | 'importBulk'
+  | 'upsert';
+export type MessageOperation =
+  | 'get'
+  | 'getAll'
+  | 'getStatus'
+  | 'preview'
+  | 'send'
+  | 'sendBulk'
+  | 'sendTransactional';
+export type MessageStatus =
+  | 'scheduled'
+  | 'queued'
+  | 'sent'
+  | 'delivered'
+  | 'failed'
+  | 'clicked'
+  | 'replied';
 export type CustomEventOperation = 'send' | 'sendBatch';
 export type CustomAttributeOperation = 'set' | 'setBatch' | 'delete';
 export type EcommerceOperation = 'productView' | 'addToCart' | 'removeFromCart' | 'purchase' | 'abandoned';
@@ -28,7 +49,19 @@ export type SegmentOperation = 'create' | 'get' | 'getAll' | 'update' | 'delete'
 export type JourneyOperation = 'getAll' | 'get' | 'getStats';
 export type SignUpUnitOperation = 'getAll' | 'get' | 'getStats';
 export type KeywordOperation = 'getAll' | 'get';
-export type WebhookOperation = 'create' | 'getAll' | 'delete';
+export type WebhookOperation =
+  | 'create'
+  | 'get'
+  | 'getAll'
+  | 'update'
+  | 'enable'
+  | 'disable'
+  | 'rotateSecret'
+  | 'test'
+  | 'delete';
+export type WebhookTestMode = 'attentive' | 'local';
+
+export type SubscriberIdentifierType = 'phone' | 'email' | 'subscriberId' | 'clientUserId';
 
 export interface ISubscriber {
   phone?: string;
@@ -57,6 +90,8 @@ export interface IBulkMessage {
   recipients: Array<{
     phone: string;
     customAttributes?: IDataObject;
+    body?: string;
+    mediaUrl?: string;
   }>;
   body: string;
   mediaUrl?: string;
@@ -136,6 +171,36 @@ export interface IWebhook {
   events: string[];
   secret?: string;
   status?: string;
+  // false once Attentive stops delivering, e.g. after repeated failures
+  enabled?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface IWebhookUpdate {
+  url?: string;
+  events?: string[];
+  // null removes the secret
+  secret?: string | null;
+  enabled?: boolean;
+}
+
+export interface IWebhookSecretRotation extends IWebhook {
+  id: string;
+  // Only returned by the rotation, Attentive never returns it again
+  secret: string;
+  rotatedAt: string;
+}
+
+export interface IWebhookTestResult {
+  webhookId: string;
+  event: string;
+  mode: WebhookTestMode;
+  success: boolean;
+  url?: string;
+  statusCode?: number;
+  error?: string;
+  payload?: IDataObject;
 }
 
 export interface IAttentiveApiResponse {
@@ -144,26 +209,305 @@ export interface IAttentiveApiResponse {
     total?: number;
     offset?: number;
     limit?: number;
+    page?: number;
+    totalPages?: number;
+    nextCursor?: string;
   };
-  errors?: Array<{
-    code: string;
-    message: string;
-  }>;
+  links?: {
+    next?: string;
+  };
+  nextCursor?: string;
+  errors?: IAttentiveErrorDetail[];
+  requestId?: string;
+}
+
+export interface IAttentiveErrorDetail {
+  code?: string;
+  message: string;
+  field?: string;
 }
 
+export type PaginationStyle = 'cursor' | 'offset' | 'page' | 'none';
+
+export type AttentiveEnvironment = 'production' | 'custom';
+
+export type AttentiveCredentialType = 'attentiveApi' | 'attentiveOAuth2Api';
+
 export interface IPaginationOptions {
-  offset?: number;
-  limit?: number;
+  dataKey?: string;
+  maxItems?: number;
+  pageSize?: number;
+}
+
+export type WebhookEventCategory =
+  | 'subscription'
+  | 'message'
+  | 'email'
+  | 'sign_up_unit'
+  | 'journey'
+  | 'custom_attribute'
+  | 'purchase'
+  | 'subscriber';
+
+// Shape of the normalized payload, see IWebhookPayloads for the fields of each event
+export type WebhookPayloadType =
+  | 'subscription'
+  | 'message'
+  | 'signUpUnit'
+  | 'journey'
+  | 'customAttribute'
+  | 'purchase'
+  | 'subscriber';
+
+export interface IWebhookEventDefinition {
+  // Part of the event name before the dot, subscribed to as a whole with "<category>.*"
+  category: WebhookEventCategory;
+  description: string;
+  payloadType: WebhookPayloadType;
+}
+
+export const WEBHOOK_EVENT_CATEGORIES: Record<WebhookEventCategory, string> = {
+  subscription: 'Subscription',
+  message: 'Message',
+  email: 'Email',
+  sign_up_unit: 'Sign-Up Unit',
+  journey: 'Journey',
+  custom_attribute: 'Custom Attribute',
+  purchase: 'Purchase',
+  subscriber: 'Subscriber',
+};
+
+export const WEBHOOK_EVENT_REGISTRY = {
+  'subscription.created': {
+    category: 'subscription',
+    description: 'New subscriber opted in',
+    payloadType: 'subscription',
+  },
+  'subscription.opted_out': {
+    category: 'subscription',
+    description: 'Subscriber opted out',
+    payloadType: 'subscription',
+  },
+  'message.sent': {
+    category: 'message',
+    description: 'Message was sent',
+    payloadType: 'message',
+  },
+  'message.delivered': {
+    category: 'message',
+    description: 'Message was delivered',
+    payloadType: 'message',
+  },
+  'message.clicked': {
+    category: 'message',
+    description: 'Link in message was clicked',
+    payloadType: 'message',
+  },
+  'message.replied': {
+    category: 'message',
+    description: 'Subscriber replied to message',
+    payloadType: 'message',
+  },
+  'message.failed': {
+    category: 'message',
+    description: 'Message delivery failed',
+    payloadType: 'message',
+  },
+  'email.sent': {
+    category: 'email',
+    description: 'Email was sent',
+    payloadType: 'message',
+  },
+  'email.delivered': {
+    category: 'email',
+    description: 'Email was delivered',
+    payloadType: 'message',
+  },
+  'email.opened': {
+    category: 'email',
+    description: 'Email was opened',
+    payloadType: 'message',
+  },
+  'email.clicked': {
+    category: 'email',
+    description: 'Link in email was clicked',
+    payloadType: 'message',
+  },
+  'email.bounced': {
+    category: 'email',
+    description: 'Email bounced',
+    payloadType: 'message',
+  },
+  'email.unsubscribed': {
+    category: 'email',
+    description: 'Subscriber unsubscribed from email',
+    payloadType: 'message',
+  },
+  'sign_up_unit.submitted': {
+    category: 'sign_up_unit',
+    description: 'Sign-up unit form was submitted',
+    payloadType: 'signUpUnit',
+  },
+  'journey.entered': {
+    category: 'journey',
+    description: 'Subscriber entered a journey',
+    payloadType: 'journey',
+  },
+  'journey.exited': {
+    category: 'journey',
+    description: 'Subscriber exited a journey',
+    payloadType: 'journey',
+  },
+  'custom_attribute.updated': {
+    category: 'custom_attribute',
+    description: 'Custom attributes of a subscriber changed',
+    payloadType: 'customAttribute',
+  },
+  'purchase.attributed': {
+    category: 'purchase',
+    description: 'Purchase was attributed to a message or journey',
+    payloadType: 'purchase',
+  },
+  'subscriber.updated': {
+    category: 'subscriber',
+    description: 'Subscriber data was updated',
+    payloadType: 'subscriber',
+  },
+} as const satisfies Record<string, IWebhookEventDefinition>;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENT_REGISTRY;
+
+export const WEBHOOK_EVENTS = Object.keys(WEBHOOK_EVENT_REGISTRY) as WebhookEvent[];
+
+// Fields shared by the normalized payloads of all trigger events
+export interface IWebhookPayloadBase {
+  event: string;
+  eventId: string | null;
+  timestamp: string;
+  subscriberId: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface ISubscriptionPayload extends IWebhookPayloadBase {
+  subscriptionType: string | null;
+  channel: string | null;
+}
+
+export interface ISubscriptionCreatedPayload extends ISubscriptionPayload {
+  event: 'subscription.created';
+  signUpSourceId: string | null;
 }
 
-export const WEBHOOK_EVENTS = [
-  'subscription.created',
-  'subscription.opted_out',
-  'message.sent',
-  'message.delivered',
-  'message.clicked',
-  'message.replied',
-  'message.failed',
-] as const;
+export interface ISubscriptionOptedOutPayload extends ISubscriptionPayload {
+  event: 'subscription.opted_out';
+  reason: string | null;
+}
+
+export interface IMessagePayload extends IWebhookPayloadBase {
+  messageId: string | null;
+  messageName: string | null;
+  externalId: string | null;
+}
+
+export interface IMessageSentPayload extends IMessagePayload {
+  event: 'message.sent';
+}
+
+export interface IMessageDeliveredPayload extends IMessagePayload {
+  event: 'message.delivered';
+}
+
+export interface IMessageClickedPayload extends IMessagePayload {
+  event: 'message.clicked';
+  linkUrl: string | null;
+}
+
+export interface IMessageRepliedPayload extends IMessagePayload {
+  event: 'message.replied';
+  replyText: string | null;
+}
+
+export interface IMessageFailedPayload extends IMessagePayload {
+  event: 'message.failed';
+  failureReason: string | null;
+  failureCode: string | null;
+}
+
+export interface IEmailPayload extends IMessagePayload {
+  event: 'email.sent' | 'email.delivered' | 'email.opened' | 'email.unsubscribed';
+}
+
+export interface IEmailClickedPayload extends IMessagePayload {
+  event: 'email.clicked';
+  linkUrl: string | null;
+}
+
+export interface IEmailBouncedPayload extends IMessagePayload {
+  event: 'email.bounced';
+  failureReason: string | null;
+  failureCode: string | null;
+}
+
+export interface ISignUpUnitSubmittedPayload extends IWebhookPayloadBase {
+  event: 'sign_up_unit.submitted';
+  signUpUnitId: string | null;
+  signUpUnitName: string | null;
+}
+
+export interface IJourneyPayload extends IWebhookPayloadBase {
+  journeyId: string | null;
+  journeyName: string | null;
+}
+
+export interface IJourneyEnteredPayload extends IJourneyPayload {
+  event: 'journey.entered';
+}
+
+export interface IJourneyExitedPayload extends IJourneyPayload {
+  event: 'journey.exited';
+  exitReason: string | null;
+}
+
+export interface ICustomAttributeUpdatedPayload extends IWebhookPayloadBase {
+  event: 'custom_attribute.updated';
+  attributes: IDataObject | null;
+}
+
+export interface IPurchaseAttributedPayload extends IWebhookPayloadBase {
+  event: 'purchase.attributed';
+  orderId: string | null;
+  messageId: string | null;
+  journeyId: string | null;
+  revenue: number | null;
+  currency: string | null;
+}
+
+export interface ISubscriberUpdatedPayload extends IWebhookPayloadBase {
+  event: 'subscriber.updated';
+  changes: IDataObject | null;
+}
+
+export interface IWebhookPayloads {
+  'subscription.created': ISubscriptionCreatedPayload;
+  'subscription.opted_out': ISubscriptionOptedOutPayload;
+  'message.sent': IMessageSentPayload;
+  'message.delivered': IMessageDeliveredPayload;
+  'message.clicked': IMessageClickedPayload;
+  'message.replied': IMessageRepliedPayload;
+  'message.failed': IMessageFailedPayload;
+  'email.sent': IEmailPayload;
+  'email.delivered': IEmailPayload;
+  'email.opened': IEmailPayload;
+  'email.clicked': IEmailClickedPayload;
+  'email.bounced': IEmailBouncedPayload;
+  'email.unsubscribed': IEmailPayload;
+  'sign_up_unit.submitted': ISignUpUnitSubmittedPayload;
+  'journey.entered': IJourneyEnteredPayload;
+  'journey.exited': IJourneyExitedPayload;
+  'custom_attribute.updated': ICustomAttributeUpdatedPayload;
+  'purchase.attributed': IPurchaseAttributedPayload;
+  'subscriber.updated': ISubscriberUpdatedPayload;
+}
 
-export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookPayload = IWebhookPayloads[WebhookEvent];
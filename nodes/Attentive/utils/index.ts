@@ -5,7 +5,10 @@
  * See LICENSE file for details.
  */
 
-import { IDataObject, INodeExecutionData, NodeOperationError, IExecuteFunctions } from 'n8n-workflow';
+import { IDataObject, INodeExecutionData, IExecuteFunctions } from 'n8n-workflow';
+
+import { createValidationError } from '../transport/errors';
+import { SubscriberIdentifierType } from '../types/AttentiveTypes';
 
 /**
  * Format phone number to E.164 format
@@ -47,13 +50,143 @@ export function isValidE164(phone: string): boolean {
 export function validatePhoneNumber(phone: string, node: IExecuteFunctions): void {
   const formatted = formatPhoneNumber(phone);
   if (!isValidE164(formatted)) {
-    throw new NodeOperationError(
+    throw createValidationError(
       node.getNode(),
       `Invalid phone number format: "${phone}". Phone numbers must be in E.164 format (e.g., +19148440001).`,
+      { field: 'phone' },
     );
   }
 }
 
+/**
+ * Validate email address format
+ * @param email - Email address to validate
+ * @returns true if the address looks valid
+ */
+export function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+}
+
+/**
+ * Validate a subscriber identifier and build the matching `user` object
+ * @param identifierType - How the subscriber is identified
+ * @param value - Identifier value
+ * @param node - Node for error context
+ * @returns User object for request bodies
+ */
+export function buildUserIdentifier(
+  identifierType: SubscriberIdentifierType,
+  value: string,
+  node: IExecuteFunctions,
+): IDataObject {
+  const trimmed = (value || '').trim();
+
+  switch (identifierType) {
+    case 'phone': {
+      const phone = formatPhoneNumber(trimmed);
+      validatePhoneNumber(phone, node);
+      return { phone };
+    }
+
+    case 'email':
+      if (!isValidEmail(trimmed)) {
+        throw createValidationError(node.getNode(), `Invalid email address: "${value}"`, {
+          field: 'email',
+        });
+      }
+      return { email: trimmed.toLowerCase() };
+
+    case 'subscriberId':
+      if (!/^[\w-]+$/.test(trimmed)) {
+        throw createValidationError(node.getNode(), `Invalid subscriber ID: "${value}"`, {
+          field: 'id',
+        });
+      }
+      return { id: trimmed };
+
+    case 'clientUserId':
+      if (!trimmed) {
+        throw createValidationError(node.getNode(), 'Client external ID must not be empty', {
+          field: 'externalIdentifiers.clientUserId',
+        });
+      }
+      return { externalIdentifiers: { clientUserId: trimmed } };
+
+    default:
+      throw createValidationError(node.getNode(), `Unknown identifier type: ${identifierType}`);
+  }
+}
+
+/**
+ * Convert a `user` object into query parameters for subscriber lookups
+ * @param user - User object built by buildUserIdentifier
+ * @returns Query parameters
+ */
+export function buildUserIdentifierQuery(user: IDataObject): IDataObject {
+  const externalIdentifiers = user.externalIdentifiers as IDataObject | undefined;
+  return cleanObject({
+    phone: user.phone,
+    email: user.email,
+    subscriberId: user.id,
+    clientUserId: externalIdentifiers?.clientUserId,
+  });
+}
+
+/**
+ * Find the subscriber record in a subscriber lookup response
+ * @param response - Response of GET /subscriptions
+ * @returns Subscriber record, or undefined if the subscriber does not exist
+ */
+export function extractSubscriber(response: IDataObject): IDataObject | undefined {
+  for (const key of ['subscriber', 'user', 'data']) {
+    const value = response[key];
+    if (Array.isArray(value)) {
+      return value[0] as IDataObject | undefined;
+    }
+    if (value && typeof value === 'object') {
+      return value as IDataObject;
+    }
+  }
+
+  const identityKeys = ['id', 'phone', 'email', 'customAttributes', 'subscriptions'];
+  return identityKeys.some((key) => response[key] !== undefined) ? response : undefined;
+}
+
+/**
+ * Compare desired subscriber fields with an existing subscriber
+ * @param existing - Existing subscriber record
+ * @param desired - Desired email, locale and custom attributes
+ * @returns Changed fields with their old and new values
+ */
+export function diffSubscriberFields(existing: IDataObject, desired: IDataObject): IDataObject {
+  const changes: IDataObject = {};
+  const existingUser = (existing.user as IDataObject | undefined) || {};
+
+  const existingEmail = (existing.email ?? existingUser.email) as string | undefined;
+  const desiredEmail = desired.email as string | undefined;
+  if (desiredEmail && desiredEmail.toLowerCase() !== (existingEmail || '').toLowerCase()) {
+    changes.email = { from: existingEmail ?? null, to: desiredEmail };
+  }
+
+  const existingLocale = existing.locale as string | undefined;
+  if (desired.locale && desired.locale !== existingLocale) {
+    changes.locale = { from: existingLocale ?? null, to: desired.locale };
+  }
+
+  const existingAttributes = ((existing.customAttributes ?? existing.attributes) ||
+    {}) as IDataObject;
+  const desiredAttributes = (desired.customAttributes as IDataObject | undefined) || {};
+  for (const [key, value] of Object.entries(desiredAttributes)) {
+    const current = existingAttributes[key];
+    if (current === undefined || current === null || String(current) !== String(value)) {
+      changes[`customAttributes.${key}`] = { from: current ?? null, to: value };
+    }
+  }
+
+  return changes;
+}
+
 /**
  * Clean empty properties from object
  * @param obj - Object to clean
@@ -152,13 +285,100 @@ export function parseProductItems(itemsInput: IDataObject): IDataObject[] {
 /**
  * Build execution result array from API response
  * @param data - Response data
+ * @param metadata - Optional node metadata to add to each item
  * @returns Node execution data array
  */
-export function buildReturnData(data: IDataObject | IDataObject[]): INodeExecutionData[] {
-  if (Array.isArray(data)) {
-    return data.map((item) => ({ json: item }));
+export function buildReturnData(
+  data: IDataObject | IDataObject[],
+  metadata: IDataObject = {},
+): INodeExecutionData[] {
+  const returnData = Array.isArray(data) ? data.map((item) => ({ json: item })) : [{ json: data }];
+  if (Object.keys(metadata).length > 0) {
+    addOutputMetadata(returnData, metadata);
   }
-  return [{ json: data }];
+  return returnData;
+}
+
+/**
+ * Merge node metadata into the "_attentive" key of each output item
+ * @param items - Output items
+ * @param metadata - Metadata to merge
+ * @returns The same items
+ */
+export function addOutputMetadata(
+  items: INodeExecutionData[],
+  metadata: IDataObject,
+): INodeExecutionData[] {
+  for (const item of items) {
+    item.json._attentive = {
+      ...((item.json._attentive as IDataObject | undefined) || {}),
+      ...metadata,
+    };
+  }
+  return items;
+}
+
+/**
+ * Read a value from an object by dot-separated path
+ * @param obj - Object to read from
+ * @param path - Path such as "customer.phone" or "addresses.0.zip"
+ * @returns Value at the path, or undefined
+ */
+export function getValueByPath(obj: IDataObject, path: string): IDataObject[string] | undefined {
+  if (!path) {
+    return undefined;
+  }
+
+  let current: unknown = obj;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as IDataObject)[key];
+  }
+  return current as IDataObject[string] | undefined;
+}
+
+/**
+ * Split an array into chunks
+ * @param items - Items to split
+ * @param size - Maximum chunk size
+ * @returns Array of chunks
+ */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunkSize = Math.max(1, Math.floor(size));
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += chunkSize) {
+    chunks.push(items.slice(index, index + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Run an async function over items with at most `concurrency` calls in flight
+ * @param items - Items to process
+ * @param concurrency - Maximum number of parallel calls
+ * @param fn - Function to run for each item
+ * @returns Results in input order
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
 }
 
 /**
@@ -0,0 +1,107 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+
+import { MessageStatus, WEBHOOK_EVENTS } from '../types/AttentiveTypes';
+
+// Statuses in lifecycle order, later statuses win when a message reports several timestamps
+const STATUS_TIMESTAMPS: Array<[MessageStatus, string[]]> = [
+  ['scheduled', ['scheduledAt', 'sendAt']],
+  ['queued', ['queuedAt', 'createdAt']],
+  ['sent', ['sentAt']],
+  ['delivered', ['deliveredAt']],
+  ['failed', ['failedAt']],
+  ['clicked', ['clickedAt']],
+  ['replied', ['repliedAt']],
+];
+
+const STATUS_ALIASES: Record<string, MessageStatus> = {
+  scheduled: 'scheduled',
+  pending: 'queued',
+  queued: 'queued',
+  accepted: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  failed: 'failed',
+  undelivered: 'failed',
+  rejected: 'failed',
+  bounced: 'failed',
+  clicked: 'clicked',
+  replied: 'replied',
+};
+
+/**
+ * Read the first set value of a list of keys
+ * @param data - Object to read from
+ * @param keys - Candidate keys
+ * @returns First value that is set
+ */
+function pick(data: IDataObject, keys: string[]): IDataObject[string] | undefined {
+  for (const key of keys) {
+    if (data[key] !== undefined && data[key] !== null && data[key] !== '') {
+      return data[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map an API or webhook status to a normalized message status
+ * @param status - Status as reported by Attentive, e.g. "DELIVERED" or "message.delivered"
+ * @returns Normalized status, or undefined if unknown
+ */
+export function parseMessageStatus(status: unknown): MessageStatus | undefined {
+  if (typeof status !== 'string') {
+    return undefined;
+  }
+  const key = status
+    .trim()
+    .toLowerCase()
+    .replace(/^message\./, '');
+  return STATUS_ALIASES[key];
+}
+
+/**
+ * Normalize a message record into a status record that lines up with the trigger's message events
+ * @param message - Message or status response from the API
+ * @returns Normalized status record
+ */
+export function normalizeMessageStatus(message: IDataObject): IDataObject {
+  const timestamps: IDataObject = {};
+  let status: MessageStatus | undefined;
+
+  for (const [timestampStatus, keys] of STATUS_TIMESTAMPS) {
+    const timestamp = pick(message, keys);
+    if (timestamp !== undefined) {
+      timestamps[`${timestampStatus}At`] = timestamp;
+      status = timestampStatus;
+    }
+  }
+
+  // An explicit status takes precedence over one derived from timestamps
+  status = parseMessageStatus(pick(message, ['status', 'state', 'deliveryStatus'])) ?? status;
+
+  const event = `message.${status}`;
+  const error = message.error as IDataObject | string | undefined;
+
+  return {
+    messageId: pick(message, ['messageId', 'id']) ?? null,
+    phone: pick(message, ['phone', 'to', 'phoneNumber']) ?? null,
+    messageName: message.messageName ?? null,
+    externalId: message.externalId ?? null,
+    status: status ?? 'unknown',
+    event: (WEBHOOK_EVENTS as readonly string[]).includes(event) ? event : null,
+    ...timestamps,
+    failureReason:
+      pick(message, ['failureReason', 'errorMessage']) ??
+      (typeof error === 'object' && error !== null ? error.message : error) ??
+      null,
+    updatedAt: pick(message, ['updatedAt', 'statusUpdatedAt']) ?? null,
+  };
+}
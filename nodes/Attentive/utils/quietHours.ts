@@ -0,0 +1,258 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+export interface ISendWindow {
+  start: string;
+  end: string;
+}
+
+export interface IRecipientTimezone {
+  timezone: string;
+  country?: string;
+  source: 'attribute' | 'phone' | 'default';
+}
+
+// TCPA quiet hours: messages may only be sent between 8am and 9pm recipient time
+export const DEFAULT_SEND_WINDOW: ISendWindow = { start: '08:00', end: '21:00' };
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+const COUNTRY_CODES: Record<string, { country: string; timezone: string }> = {
+  '1': { country: 'US', timezone: 'America/New_York' },
+  '31': { country: 'NL', timezone: 'Europe/Amsterdam' },
+  '33': { country: 'FR', timezone: 'Europe/Paris' },
+  '34': { country: 'ES', timezone: 'Europe/Madrid' },
+  '39': { country: 'IT', timezone: 'Europe/Rome' },
+  '44': { country: 'GB', timezone: 'Europe/London' },
+  '49': { country: 'DE', timezone: 'Europe/Berlin' },
+  '52': { country: 'MX', timezone: 'America/Mexico_City' },
+  '55': { country: 'BR', timezone: 'America/Sao_Paulo' },
+  '61': { country: 'AU', timezone: 'Australia/Sydney' },
+  '64': { country: 'NZ', timezone: 'Pacific/Auckland' },
+  '65': { country: 'SG', timezone: 'Asia/Singapore' },
+  '81': { country: 'JP', timezone: 'Asia/Tokyo' },
+  '91': { country: 'IN', timezone: 'Asia/Kolkata' },
+  '353': { country: 'IE', timezone: 'Europe/Dublin' },
+};
+
+// North American area codes by timezone, anything else falls back to Eastern time
+const NANP_TIMEZONES: Record<string, string> = {
+  'America/Los_Angeles':
+    '206 209 213 236 250 253 279 310 323 341 350 360 408 415 424 425 442 458 503 509 510 530 ' +
+    '541 559 562 564 604 619 626 628 650 657 661 669 672 702 707 714 725 747 760 775 778 805 ' +
+    '818 820 831 840 858 909 916 925 949 951 971',
+  'America/Denver':
+    '208 303 307 368 385 403 406 435 505 575 587 719 720 780 801 825 915 970 983 986',
+  'America/Phoenix': '480 520 602 623 928',
+  'America/Chicago':
+    '204 205 210 214 217 218 224 225 228 251 254 256 262 270 274 281 306 308 309 312 314 316 ' +
+    '318 319 320 325 331 334 337 346 361 402 405 409 414 417 430 431 432 447 464 469 479 501 ' +
+    '504 507 512 515 531 534 539 557 563 573 580 601 605 608 612 615 618 620 629 630 636 639 ' +
+    '641 651 659 660 662 682 701 708 712 713 715 726 731 737 763 769 773 779 785 806 815 816 ' +
+    '817 830 832 847 870 872 901 903 913 918 920 931 936 938 940 945 952 956 972 979 985',
+  'America/Halifax': '506 782 902',
+  'America/St_Johns': '709',
+  'America/Anchorage': '907',
+  'Pacific/Honolulu': '808',
+};
+
+const CANADIAN_AREA_CODES = new Set(
+  (
+    '204 226 236 249 250 289 306 343 365 367 368 403 416 418 431 437 438 450 506 514 519 548 ' +
+    '579 581 587 604 613 639 647 672 705 709 778 780 782 807 819 825 867 873 902 905'
+  ).split(' '),
+);
+
+const AREA_CODE_TIMEZONES = new Map<string, string>();
+for (const [timezone, areaCodes] of Object.entries(NANP_TIMEZONES)) {
+  for (const areaCode of areaCodes.split(' ')) {
+    AREA_CODE_TIMEZONES.set(areaCode, timezone);
+  }
+}
+
+/**
+ * Check whether a timezone name is known to the runtime
+ * @param timezone - IANA timezone name
+ * @returns true if the timezone can be used
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the country and timezone of a phone number from its country and area code
+ * @param phone - Phone number in E.164 format
+ * @returns Country and timezone, or undefined for unknown country codes
+ */
+export function getPhoneTimezone(phone: string): { country: string; timezone: string } | undefined {
+  const digits = phone.replace(/\D/g, '');
+
+  for (const length of [3, 2, 1]) {
+    const match = COUNTRY_CODES[digits.slice(0, length)];
+    if (!match) {
+      continue;
+    }
+    if (match.country !== 'US') {
+      return match;
+    }
+
+    const areaCode = digits.slice(1, 4);
+    return {
+      country: CANADIAN_AREA_CODES.has(areaCode) ? 'CA' : 'US',
+      timezone: AREA_CODE_TIMEZONES.get(areaCode) || match.timezone,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the timezone of a recipient
+ * @param phone - Phone number in E.164 format
+ * @param timezoneAttribute - Timezone stored on the recipient, takes precedence
+ * @param defaultTimezone - Timezone used when nothing else matches
+ * @returns Recipient timezone and where it came from
+ */
+export function resolveRecipientTimezone(
+  phone: string,
+  timezoneAttribute?: string,
+  defaultTimezone = DEFAULT_TIMEZONE,
+): IRecipientTimezone {
+  const fromPhone = getPhoneTimezone(phone);
+
+  if (timezoneAttribute && isValidTimezone(timezoneAttribute)) {
+    return { timezone: timezoneAttribute, country: fromPhone?.country, source: 'attribute' };
+  }
+  if (fromPhone) {
+    return { ...fromPhone, source: 'phone' };
+  }
+  return { timezone: defaultTimezone, source: 'default' };
+}
+
+/**
+ * Parse a time of day like "08:00" into minutes after midnight
+ * @param time - Time of day in HH:mm format
+ * @returns Minutes after midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = String(time)
+    .trim()
+    .match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time of day "${time}", expected HH:mm`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Get the wall clock date and time of an instant in a timezone
+ * @param date - Instant
+ * @param timezone - IANA timezone name
+ * @returns Local date parts
+ */
+function getLocalParts(date: Date, timezone: string) {
+  const parts: Record<string, number> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    minutes: parts.hour * 60 + parts.minute,
+    seconds: parts.second,
+  };
+}
+
+/**
+ * Get the UTC offset of a timezone at an instant
+ * @param date - Instant
+ * @param timezone - IANA timezone name
+ * @returns Offset in milliseconds
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const local = getLocalParts(date, timezone);
+  const localAsUtc =
+    Date.UTC(local.year, local.month - 1, local.day) + local.minutes * 60000 + local.seconds * 1000;
+  return localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Format an instant as local time in a timezone
+ * @param date - Instant
+ * @param timezone - IANA timezone name
+ * @returns Local time like "2024-01-15 21:30"
+ */
+export function formatLocalTime(date: Date, timezone: string): string {
+  const local = getLocalParts(date, timezone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${local.year}-${pad(local.month)}-${pad(local.day)} ` +
+    `${pad(Math.floor(local.minutes / 60))}:${pad(local.minutes % 60)}`
+  );
+}
+
+/**
+ * Check whether a local time of day is inside a send window
+ * @param minutes - Minutes after midnight
+ * @param start - Window start in minutes after midnight
+ * @param end - Window end in minutes after midnight
+ * @returns true if messages may be sent
+ */
+function isInWindow(minutes: number, start: number, end: number): boolean {
+  if (start === end) {
+    return true;
+  }
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Compute the first instant at or after now that is inside the send window of a timezone
+ * @param now - Current time
+ * @param timezone - Recipient timezone
+ * @param window - Allowed send window in recipient time
+ * @returns now if sending is allowed, otherwise the start of the next window
+ */
+export function getNextAllowedTime(
+  now: Date,
+  timezone: string,
+  window: ISendWindow = DEFAULT_SEND_WINDOW,
+): Date {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  const local = getLocalParts(now, timezone);
+
+  if (isInWindow(local.minutes, start, end)) {
+    return now;
+  }
+
+  // Outside a same-day window after it closed, the next window opens tomorrow
+  const dayOffset = start < end && local.minutes >= end ? 1 : 0;
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day + dayOffset) + start * 60000;
+
+  // Resolve the wall clock time to UTC, re-checking the offset in case DST changes in between
+  let result = new Date(wallClock - getTimezoneOffset(now, timezone));
+  result = new Date(wallClock - getTimezoneOffset(result, timezone));
+  return result;
+}
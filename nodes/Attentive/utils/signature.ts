@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-attentive-signature';
+
+/**
+ * Compute the HMAC-SHA256 signature of a webhook payload
+ * @param secret - Webhook secret
+ * @param payload - Raw request body
+ * @returns Hex encoded signature
+ */
+export function computeSignature(secret: string, payload: Buffer | string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Generate a random webhook secret
+ * @returns 256-bit secret, hex encoded
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Split the configured secrets into a list of active secrets
+ * @param secret - Primary secret
+ * @param additionalSecrets - Comma or newline separated secrets accepted during rotation
+ * @returns Non-empty secrets
+ */
+export function parseSecrets(secret?: string, additionalSecrets?: string): string[] {
+  const secrets = [secret || '', ...(additionalSecrets || '').split(/[\n,]/)];
+  return [...new Set(secrets.map((s) => s.trim()).filter((s) => s.length > 0))];
+}
+
+/**
+ * Decode a signature header value, accepting "sha256=" prefixes and hex or base64 encoding
+ * @param signature - Signature header value
+ * @returns Signature bytes
+ */
+function decodeSignature(signature: string): Buffer {
+  const value = signature.trim().replace(/^sha256=/i, '');
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    return Buffer.from(value, 'hex');
+  }
+  return Buffer.from(value, 'base64');
+}
+
+/**
+ * Verify a webhook signature against any of the active secrets in constant time
+ * @param payload - Raw request body
+ * @param signature - Signature header value
+ * @param secrets - Active secrets
+ * @returns true if the signature matches one of the secrets
+ */
+export function verifySignature(
+  payload: Buffer | string,
+  signature: string,
+  secrets: string[],
+): boolean {
+  const received = decodeSignature(signature);
+  let valid = false;
+
+  // Check every secret so the timing does not reveal which one matched
+  for (const secret of secrets) {
+    const expected = Buffer.from(computeSignature(secret, payload), 'hex');
+    if (expected.length === received.length && timingSafeEqual(expected, received)) {
+      valid = true;
+    }
+  }
+
+  return valid;
+}
+
+/**
+ * Parse a delivery timestamp
+ * @param timestamp - ISO string, or Unix time in seconds or milliseconds
+ * @returns Time in milliseconds, or undefined if missing or invalid
+ */
+export function parseEventTime(timestamp: string | number | undefined): number | undefined {
+  if (timestamp === undefined || timestamp === null || timestamp === '') {
+    return undefined;
+  }
+
+  let time: number;
+  if (typeof timestamp === 'number' || /^\d+$/.test(timestamp)) {
+    const numeric = Number(timestamp);
+    // Values below 1e12 are Unix seconds
+    time = numeric < 1e12 ? numeric * 1000 : numeric;
+  } else {
+    time = Date.parse(timestamp);
+  }
+
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Check that a delivery timestamp is within the allowed tolerance
+ * @param timestamp - ISO string, or Unix time in seconds or milliseconds
+ * @param toleranceSeconds - Allowed difference from now
+ * @param now - Current time in milliseconds
+ * @returns true if the timestamp is within tolerance
+ */
+export function isTimestampWithinTolerance(
+  timestamp: string | number | undefined,
+  toleranceSeconds: number,
+  now = Date.now(),
+): boolean {
+  const time = parseEventTime(timestamp);
+  if (time === undefined) {
+    return false;
+  }
+
+  return Math.abs(now - time) <= toleranceSeconds * 1000;
+}
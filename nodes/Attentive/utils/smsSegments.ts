@@ -0,0 +1,156 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface ISegmentInfo {
+  channel: 'SMS' | 'MMS';
+  encoding: SmsEncoding;
+  characters: number;
+  extendedCharacters: number;
+  unicodeCharacters: string[];
+  units: number;
+  segments: number;
+  perSegmentLength: number;
+  shortLinks: number;
+}
+
+export interface ISegmentOptions {
+  useShortLinks?: boolean;
+  mediaUrl?: string;
+}
+
+const GSM_BASIC_CHARACTERS =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+// Extended characters take two septets (escape + character)
+const GSM_EXTENDED_CHARACTERS = '\f^{}\\[~]|€';
+
+const GSM_BASIC_SET = new Set(GSM_BASIC_CHARACTERS);
+const GSM_EXTENDED_SET = new Set(GSM_EXTENDED_CHARACTERS);
+
+const SEGMENT_LIMITS: Record<SmsEncoding, { single: number; multi: number }> = {
+  'GSM-7': { single: 160, multi: 153 },
+  'UCS-2': { single: 70, multi: 67 },
+};
+
+// Attentive short links look like https://attn.tv/xxxxxx
+export const SHORT_LINK_LENGTH = 22;
+
+export const MMS_MAX_LENGTH = 1600;
+
+const URL_PATTERN = /https?:\/\/[^\s]+/gi;
+
+/**
+ * Replace URLs with placeholders of the length of an Attentive short link
+ * @param body - Message body
+ * @returns Body as sent and the number of shortened links
+ */
+export function expandShortLinks(body: string): { body: string; shortLinks: number } {
+  let shortLinks = 0;
+  const expanded = body.replace(URL_PATTERN, () => {
+    shortLinks++;
+    return 'x'.repeat(SHORT_LINK_LENGTH);
+  });
+  return { body: expanded, shortLinks };
+}
+
+/**
+ * Calculate the encoding and segment count of a message body
+ * @param body - Message body
+ * @param options - Short link and media settings of the message
+ * @returns Segment information
+ */
+export function calculateSegments(body: string, options: ISegmentOptions = {}): ISegmentInfo {
+  const { body: text, shortLinks } = options.useShortLinks
+    ? expandShortLinks(body)
+    : { body, shortLinks: 0 };
+
+  const characters = [...text];
+  const unicodeCharacters = new Set<string>();
+  let extendedCharacters = 0;
+
+  for (const character of characters) {
+    if (GSM_EXTENDED_SET.has(character)) {
+      extendedCharacters++;
+    } else if (!GSM_BASIC_SET.has(character)) {
+      unicodeCharacters.add(character);
+    }
+  }
+
+  const encoding: SmsEncoding = unicodeCharacters.size > 0 ? 'UCS-2' : 'GSM-7';
+  // GSM-7 counts septets, UCS-2 counts UTF-16 code units
+  const units = encoding === 'GSM-7' ? characters.length + extendedCharacters : text.length;
+
+  if (options.mediaUrl) {
+    return {
+      channel: 'MMS',
+      encoding,
+      characters: characters.length,
+      extendedCharacters,
+      unicodeCharacters: [...unicodeCharacters],
+      units,
+      segments: 1,
+      perSegmentLength: MMS_MAX_LENGTH,
+      shortLinks,
+    };
+  }
+
+  const limits = SEGMENT_LIMITS[encoding];
+  const perSegmentLength = units <= limits.single ? limits.single : limits.multi;
+
+  return {
+    channel: 'SMS',
+    encoding,
+    characters: characters.length,
+    extendedCharacters,
+    unicodeCharacters: [...unicodeCharacters],
+    units,
+    segments: units === 0 ? 0 : Math.ceil(units / perSegmentLength),
+    perSegmentLength,
+    shortLinks,
+  };
+}
+
+/**
+ * Describe why an MMS message exceeds the MMS length limit
+ * @param info - Segment information
+ * @returns Description of the problem, or undefined if the message is not an MMS over the limit
+ */
+export function getMmsLengthMessage(info: ISegmentInfo): string | undefined {
+  if (info.channel === 'MMS' && info.units > MMS_MAX_LENGTH) {
+    return `Message is ${info.units} characters, the MMS limit is ${MMS_MAX_LENGTH}`;
+  }
+  return undefined;
+}
+
+/**
+ * Describe why a message exceeds the configured segment limit
+ * @param info - Segment information
+ * @param maxSegments - Maximum number of segments, 0 for no limit
+ * @returns Description of the problem, or undefined if the message is within the limit
+ */
+export function getSegmentLimitMessage(
+  info: ISegmentInfo,
+  maxSegments: number,
+): string | undefined {
+  if (!maxSegments) {
+    return undefined;
+  }
+
+  const mmsLengthMessage = getMmsLengthMessage(info);
+  if (mmsLengthMessage || info.channel === 'MMS' || info.segments <= maxSegments) {
+    return mmsLengthMessage;
+  }
+
+  let message = `Message needs ${info.segments} ${info.encoding} segments, the limit is ${maxSegments}`;
+  if (info.encoding === 'UCS-2') {
+    message += ` (non GSM-7 characters: ${info.unicodeCharacters.join(' ')})`;
+  }
+  return message;
+}
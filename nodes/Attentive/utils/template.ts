@@ -0,0 +1,313 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+
+import { getValueByPath } from './index';
+
+export interface ITemplateResult {
+  text: string;
+  variables: string[];
+  missing: string[];
+}
+
+interface ITemplateFilter {
+  name: string;
+  args: string[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; filters: ITemplateFilter[] }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Split a string on a separator, ignoring separators inside quotes
+ * @param value - String to split
+ * @param separator - Separator character
+ * @returns Trimmed parts
+ */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+
+  return parts;
+}
+
+/**
+ * Remove surrounding quotes from a filter argument
+ * @param value - Filter argument
+ * @returns Unquoted argument
+ */
+function unquote(value: string): string {
+  const match = value.match(/^(["'])([\s\S]*)\1$/);
+  return match ? match[2] : value;
+}
+
+/**
+ * Parse a variable expression like `firstName | default: "there" | upper`
+ * @param expression - Variable expression
+ * @returns Variable node
+ */
+function parseVariable(expression: string): TemplateNode {
+  const [path, ...filterExpressions] = splitOutsideQuotes(expression, '|');
+
+  if (!path) {
+    throw new Error(`Empty variable in template tag "{{${expression}}}"`);
+  }
+
+  const filters = filterExpressions.map((filterExpression) => {
+    const separator = filterExpression.indexOf(':');
+    if (separator === -1) {
+      return { name: filterExpression, args: [] };
+    }
+    return {
+      name: filterExpression.slice(0, separator).trim(),
+      args: splitOutsideQuotes(filterExpression.slice(separator + 1), ',').map(unquote),
+    };
+  });
+
+  return { type: 'variable', path, filters };
+}
+
+/**
+ * Parse a template into a tree of text, variable and conditional nodes
+ * @param template - Template source
+ * @returns Parsed nodes
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    return top.inElse ? top.node.else : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[1];
+    const ifMatch = tag.match(/^#if\s+(not\s+|!)?\s*(\S+)$/);
+
+    if (ifMatch) {
+      const node: TemplateNode = {
+        type: 'if',
+        path: ifMatch[2],
+        negate: !!ifMatch[1],
+        then: [],
+        else: [],
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new Error('Unexpected {{else}} in template');
+      }
+      top.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new Error('Unexpected {{/if}} in template');
+      }
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      throw new Error(`Unsupported template block "{{${tag}}}"`);
+    } else {
+      current().push(parseVariable(tag));
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Missing {{/if}} for "{{#if ${stack[stack.length - 1].node.path}}}"`);
+  }
+
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+/**
+ * Check whether a template value is empty
+ * @param value - Value to check
+ * @returns true for undefined, null, empty strings and empty arrays
+ */
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Format a date with YYYY, YY, MMM, MM, M, DD, D, HH, mm and ss tokens (UTC)
+ * @param value - Date, ISO string or Unix timestamp
+ * @param format - Format string
+ * @returns Formatted date
+ */
+export function formatDate(value: unknown, format = 'YYYY-MM-DD'): string {
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'number' || /^\d+$/.test(String(value))) {
+    const timestamp = Number(value);
+    // Treat 10 digit timestamps as seconds
+    date = new Date(timestamp < 1e11 ? timestamp * 1000 : timestamp);
+  } else {
+    date = new Date(String(value));
+  }
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${String(value)}"`);
+  }
+
+  const pad = (number: number) => String(number).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    YY: String(date.getUTCFullYear()).slice(-2),
+    MMM: MONTHS[date.getUTCMonth()],
+    MM: pad(date.getUTCMonth() + 1),
+    M: String(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    D: String(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+
+  return format.replace(/YYYY|YY|MMM|MM|M|DD|D|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+/**
+ * Format an amount as currency
+ * @param value - Amount
+ * @param currency - ISO 4217 currency code
+ * @param locale - Locale used for formatting
+ * @returns Formatted amount
+ */
+export function formatCurrency(value: unknown, currency = 'USD', locale = 'en-US'): string {
+  const amount = Number(value);
+  if (isEmpty(value) || isNaN(amount)) {
+    throw new Error(`Invalid amount "${String(value)}"`);
+  }
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Apply a filter to a variable value
+ * @param value - Current value
+ * @param filter - Filter to apply
+ * @returns Filtered value
+ */
+function applyFilter(value: unknown, filter: ITemplateFilter): unknown {
+  switch (filter.name) {
+    case 'default':
+      return isEmpty(value) ? (filter.args[0] ?? '') : value;
+    case 'upper':
+    case 'uppercase':
+      return isEmpty(value) ? value : String(value).toUpperCase();
+    case 'lower':
+    case 'lowercase':
+      return isEmpty(value) ? value : String(value).toLowerCase();
+    case 'capitalize':
+      return isEmpty(value)
+        ? value
+        : String(value).charAt(0).toUpperCase() + String(value).slice(1);
+    case 'date':
+      return isEmpty(value) ? value : formatDate(value, filter.args[0]);
+    case 'currency':
+      return isEmpty(value) ? value : formatCurrency(value, filter.args[0], filter.args[1]);
+    default:
+      throw new Error(`Unknown template filter "${filter.name}"`);
+  }
+}
+
+/**
+ * Convert a rendered value to text
+ * @param value - Value
+ * @returns Text representation
+ */
+function toText(value: unknown): string {
+  if (isEmpty(value)) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Render a message template
+ *
+ * Supports `{{path.to.value}}` placeholders, filters (`default`, `upper`, `lower`,
+ * `capitalize`, `date`, `currency`) and `{{#if value}}...{{else}}...{{/if}}` blocks.
+ * @param template - Template source
+ * @param data - Values available to the template
+ * @returns Rendered text with the variables used and the ones that had no value
+ */
+export function renderTemplate(template: string, data: IDataObject): ITemplateResult {
+  const variables = new Set<string>();
+  const missing = new Set<string>();
+
+  const render = (nodes: TemplateNode[]): string =>
+    nodes
+      .map((node) => {
+        if (node.type === 'text') {
+          return node.value;
+        }
+
+        variables.add(node.path);
+        const value = getValueByPath(data, node.path);
+
+        if (node.type === 'if') {
+          return render(isEmpty(value) === node.negate ? node.then : node.else);
+        }
+
+        if (isEmpty(value) && !node.filters.some((filter) => filter.name === 'default')) {
+          missing.add(node.path);
+        }
+        return toText(node.filters.reduce(applyFilter, value as unknown));
+      })
+      .join('');
+
+  return {
+    text: render(parseTemplate(template)),
+    variables: [...variables],
+    missing: [...missing],
+  };
+}
@@ -8,71 +8,1129 @@
 /**
  * Integration tests for n8n-nodes-attentive
  *
- * These tests require a valid Attentive API key to run.
- * Set the ATTENTIVE_API_KEY environment variable before running.
+ * These tests run the node's execute paths end-to-end against the in-repo mock Attentive
+ * server in test/mock, so they don't need an API key.
  *
- * Run with: ATTENTIVE_API_KEY=your_key npm run test:integration
+ * Run with: npm run test:integration
  */
 
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { IDataObject, ILoadOptionsFunctions, INodeExecutionData } from 'n8n-workflow';
+
+import { Attentive } from '../../nodes/Attentive/Attentive.node';
+import { AttentivePollTrigger } from '../../nodes/Attentive/AttentivePollTrigger.node';
+import { AttentiveTrigger } from '../../nodes/Attentive/AttentiveTrigger.node';
+import {
+  AttentiveAuthError,
+  AttentiveConflictError,
+  AttentiveNotFoundError,
+  AttentiveValidationError,
+  attentiveApiRequest,
+} from '../../nodes/Attentive/transport';
+import * as pagination from '../../nodes/Attentive/transport/pagination';
+import { SIGNATURE_HEADER, verifySignature } from '../../nodes/Attentive/utils/signature';
+import { AttentiveMockServer } from '../mock/AttentiveMockServer';
+import { createExecuteContext, createHookContext, createPollContext } from '../mock/context';
+
 describe('Attentive Integration Tests', () => {
-  const API_KEY = process.env.ATTENTIVE_API_KEY;
+  const server = new AttentiveMockServer();
+  const node = new Attentive();
+
+  const run = async (
+    parameters: Record<string, unknown>,
+    items?: INodeExecutionData[],
+  ): Promise<IDataObject[]> => {
+    const context = createExecuteContext({ node, baseUrl: server.baseUrl, parameters, items });
+    const [output] = await node.execute.call(context);
+    return output.map((item) => item.json);
+  };
+
+  const seedRecords = (count: number, prefix: string) =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `${prefix}_${index + 1}`,
+      name: `${prefix} ${index + 1}`,
+    }));
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
 
-  beforeAll(() => {
-    if (!API_KEY) {
-      console.warn('ATTENTIVE_API_KEY not set. Skipping integration tests.');
-    }
+  beforeEach(() => {
+    server.reset();
   });
 
   describe('API Connection', () => {
-    it.skip('should verify API key is valid', async () => {
-      // This test requires a valid API key
-      // Implementation would make a test request to verify credentials
-      expect(API_KEY).toBeDefined();
+    it('should verify the API key', async () => {
+      const context = createExecuteContext({ node, baseUrl: server.baseUrl, parameters: {} });
+
+      const response = await attentiveApiRequest.call(context, 'GET', '/me');
+
+      expect(response.companyName).toBe('Mock Company');
+      expect(server.requests[0].headers.authorization).toBe('Bearer test-api-key');
+    });
+
+    it('should record the environment in the output', async () => {
+      server.seed(server.segments, [{ id: 'seg_1', name: 'VIP' }]);
+
+      const [segment] = await run({ resource: 'segment', operation: 'get', segmentId: 'seg_1' });
+
+      expect(segment._attentive).toEqual({
+        environment: { name: 'custom', apiVersion: 'v1', baseUrl: `${server.baseUrl}/v1` },
+      });
+    });
+
+    it('should reject an invalid API key', async () => {
+      const context = createExecuteContext({
+        node,
+        baseUrl: server.baseUrl,
+        parameters: {},
+        apiKey: 'wrong-key',
+      });
+
+      await expect(attentiveApiRequest.call(context, 'GET', '/me')).rejects.toBeInstanceOf(
+        AttentiveAuthError,
+      );
     });
   });
 
   describe('Subscriber Operations', () => {
-    it.skip('should get subscriber status', async () => {
-      // Requires valid API key and test phone number
+    const phone = '+14155550100';
+
+    it('should subscribe, update, get and unsubscribe a user', async () => {
+      await run({
+        resource: 'subscriber',
+        operation: 'subscribe',
+        phone,
+        signUpSourceId: 'source_1',
+        additionalFields: {
+          customAttributes: { attributes: [{ key: 'tier', value: 'gold' }] },
+        },
+      });
+
+      await run({
+        resource: 'subscriber',
+        operation: 'update',
+        phone,
+        updateFields: { locale: 'en-US' },
+      });
+
+      const [subscriber] = await run({ resource: 'subscriber', operation: 'get', phone });
+      expect(subscriber).toMatchObject({
+        locale: 'en-US',
+        customAttributes: { tier: 'gold' },
+        subscriptions: [{ status: 'SUBSCRIBED' }],
+      });
+
+      await run({ resource: 'subscriber', operation: 'unsubscribe', phone });
+      expect(server.findSubscriber({ phone })?.subscriptions).toEqual([
+        expect.objectContaining({ status: 'UNSUBSCRIBED' }),
+      ]);
     });
 
-    it.skip('should subscribe a new user', async () => {
-      // Requires valid API key, sign-up source ID, and test phone number
+    it('should create, then skip unchanged subscribers on upsert', async () => {
+      const parameters = {
+        resource: 'subscriber',
+        operation: 'upsert',
+        phone,
+        signUpSourceId: 'source_1',
+        updateFields: { locale: 'en-US' },
+      };
+
+      expect((await run(parameters))[0].status).toBe('created');
+      expect((await run(parameters))[0].status).toBe('unchanged');
+    });
+
+    it('should reject an email change for subscribers identified by email on upsert', async () => {
+      const email = 'jane@example.com';
+      await run({
+        resource: 'subscriber',
+        operation: 'upsert',
+        identifierType: 'email',
+        email,
+        signUpSourceId: 'source_1',
+        updateFields: {},
+      });
+
+      await expect(
+        run({
+          resource: 'subscriber',
+          operation: 'upsert',
+          identifierType: 'email',
+          email,
+          signUpSourceId: 'source_1',
+          updateFields: { email: 'jane.doe@example.com' },
+        }),
+      ).rejects.toThrow('The email of a subscriber identified by email cannot be changed');
+      expect(server.requests.some((request) => request.method === 'PATCH')).toBe(false);
+      expect(server.findSubscriber({ email })).toBeDefined();
+    });
+
+    it('should send the sign-up source without looking it up', async () => {
+      await run({
+        resource: 'subscriber',
+        operation: 'subscribe',
+        phone,
+        signUpSourceId: { mode: 'id', value: 'source_2' },
+      });
+
+      expect(server.requests.map((request) => `${request.method} ${request.path}`)).toEqual([
+        'POST /subscriptions',
+      ]);
+      expect(server.requests[0].body).toMatchObject({ signUpSourceId: 'source_2' });
+    });
+
+    it('should throw a not found error for unknown subscribers', async () => {
+      await expect(run({ resource: 'subscriber', operation: 'get', phone })).rejects.toBeInstanceOf(
+        AttentiveNotFoundError,
+      );
+    });
+
+    it('should report failed rows of a bulk import', async () => {
+      server.failNext('/subscriptions', {
+        status: 400,
+        body: { errors: [{ code: 'INVALID_PARAMETER', message: 'Blocked', field: 'user.phone' }] },
+      });
+
+      const rows = await run(
+        {
+          resource: 'subscriber',
+          operation: 'importBulk',
+          signUpSourceId: 'source_1',
+          phoneField: 'phone',
+          importOptions: { concurrency: 1 },
+        },
+        [{ json: { phone: '+14155550101' } }, { json: { phone: '+14155550102' } }],
+      );
+
+      expect(rows.map((row) => row.success)).toEqual([false, true]);
+      expect(rows[0]).toMatchObject({ errorType: 'validation', fieldPaths: ['user.phone'] });
+      expect(server.findSubscriber({ phone: '+14155550102' })).toBeDefined();
+    });
+
+    it('should read import fields at each row', async () => {
+      await run(
+        {
+          resource: 'subscriber',
+          operation: 'importBulk',
+          signUpSourceId: (itemIndex: number) => `source_${itemIndex + 1}`,
+          phoneField: (itemIndex: number) => (itemIndex === 0 ? 'phone' : 'mobile'),
+          importOptions: (itemIndex: number) => ({
+            concurrency: 1,
+            locale: itemIndex === 0 ? 'en-US' : 'fr-CA',
+          }),
+        },
+        [{ json: { phone: '+14155550101' } }, { json: { mobile: '+14155550102' } }],
+      );
+
+      expect(server.requests.map((request) => request.body)).toEqual([
+        expect.objectContaining({
+          user: { phone: '+14155550101' },
+          signUpSourceId: 'source_1',
+          locale: 'en-US',
+        }),
+        expect.objectContaining({
+          user: { phone: '+14155550102' },
+          signUpSourceId: 'source_2',
+          locale: 'fr-CA',
+        }),
+      ]);
     });
   });
 
   describe('Message Operations', () => {
-    it.skip('should send a test message', async () => {
-      // Requires valid API key and opted-in test phone number
+    it('should send a message and read its status', async () => {
+      const [sent] = await run({
+        resource: 'message',
+        operation: 'send',
+        quietHours: 'off',
+        to: '+14155550100',
+        body: 'Hello from the mock server',
+        options: {},
+      });
+
+      const [status] = await run({
+        resource: 'message',
+        operation: 'getStatus',
+        messageId: sent.messageId,
+      });
+
+      expect(status).toMatchObject({ messageId: sent.messageId, status: 'queued' });
+    });
+
+    it('should send a bulk message in chunks', async () => {
+      const recipients = Array.from({ length: 5 }, (_, index) => ({
+        phone: `+1415555010${index}`,
+      }));
+
+      const [result] = await run({
+        resource: 'message',
+        operation: 'sendBulk',
+        quietHours: 'off',
+        body: 'Sale starts now',
+        recipientSource: 'json',
+        recipientsJson: JSON.stringify(recipients),
+        options: { chunkSize: 2 },
+      });
+
+      expect(result).toMatchObject({ recipients: 5, requests: 3, failedRequests: 0 });
+      expect(server.messages.size).toBe(5);
+    });
+
+    it('should page through messages with cursors', async () => {
+      server.seed(
+        server.messages,
+        Array.from({ length: 30 }, (_, index) => ({
+          id: `msg_${index}`,
+          phone: '+14155550100',
+          status: 'DELIVERED',
+        })),
+      );
+
+      const messages = await run({
+        resource: 'message',
+        operation: 'getAll',
+        returnAll: true,
+        filters: { phone: '+14155550100' },
+      });
+
+      expect(messages).toHaveLength(30);
+      expect(messages[29]).toMatchObject({ messageId: 'msg_29', status: 'delivered' });
     });
   });
 
   describe('Custom Events', () => {
-    it.skip('should send a custom event', async () => {
-      // Requires valid API key and test phone number
+    it('should send a custom event', async () => {
+      await run({
+        resource: 'customEvent',
+        operation: 'send',
+        eventType: 'Quiz Completed',
+        identifierType: 'email',
+        email: 'jane@example.com',
+        eventOptions: {},
+      });
+
+      expect(server.events).toEqual([
+        expect.objectContaining({ type: 'Quiz Completed', user: { email: 'jane@example.com' } }),
+      ]);
+    });
+
+    it('should surface validation errors with field paths', async () => {
+      await expect(
+        run({
+          resource: 'customEvent',
+          operation: 'send',
+          eventType: '',
+          identifierType: 'email',
+          email: 'jane@example.com',
+          eventOptions: {},
+        }),
+      ).rejects.toMatchObject({
+        constructor: AttentiveValidationError,
+        fieldPaths: ['type'],
+      });
+    });
+  });
+
+  describe('Custom Attributes', () => {
+    it('should set custom attributes', async () => {
+      await run({
+        resource: 'customAttribute',
+        operation: 'set',
+        identifierType: 'phone',
+        phone: '+14155550100',
+        attributes: { attributes: [{ key: 'favoriteColor', value: 'green' }] },
+      });
+
+      expect(server.findSubscriber({ phone: '+14155550100' })?.customAttributes).toEqual({
+        favoriteColor: 'green',
+      });
     });
   });
 
   describe('eCommerce Events', () => {
-    it.skip('should track a product view', async () => {
-      // Requires valid API key and test phone number
+    it('should track a purchase', async () => {
+      await run({
+        resource: 'ecommerce',
+        operation: 'purchase',
+        identifierType: 'phone',
+        phone: '+14155550100',
+        items: { items: [{ productId: 'sku_1', name: 'Shirt', price: 25, quantity: 2 }] },
+        orderId: 'order_1',
+        orderOptions: {},
+      });
+
+      expect(server.events[0]).toMatchObject({ type: 'purchase', user: { phone: '+14155550100' } });
     });
   });
 
   describe('Segments', () => {
-    it.skip('should list all segments', async () => {
-      // Requires valid API key
+    it('should list all segments across cursor pages', async () => {
+      server.seed(server.segments, seedRecords(150, 'seg'));
+
+      const segments = await run({ resource: 'segment', operation: 'getAll', returnAll: true });
+
+      expect(segments).toHaveLength(150);
+      expect(server.requests.filter((request) => request.path === '/segments')).toHaveLength(2);
+    });
+
+    it('should create, update and delete a segment', async () => {
+      const [created] = await run({
+        resource: 'segment',
+        operation: 'create',
+        segmentName: 'VIP',
+      });
+
+      await run({
+        resource: 'segment',
+        operation: 'update',
+        segmentId: created.id,
+        updateFields: { description: 'Top customers' },
+      });
+      expect(server.segments.get(String(created.id))?.description).toBe('Top customers');
+
+      const [deleted] = await run({
+        resource: 'segment',
+        operation: 'delete',
+        segmentId: created.id,
+      });
+      expect(deleted).toMatchObject({ success: true });
+      expect(server.segments.size).toBe(0);
+    });
+  });
+
+  describe('Resource Locators', () => {
+    it('should search records page by page', async () => {
+      server.seed(server.segments, seedRecords(150, 'seg'));
+      const context = createExecuteContext({ node, baseUrl: server.baseUrl, parameters: {} });
+      const search = node.methods.listSearch.searchSegments;
+
+      const first = await search.call(context as unknown as ILoadOptionsFunctions);
+      expect(first.results).toHaveLength(100);
+      expect(first.results[0]).toEqual({
+        name: 'seg 1',
+        value: 'seg_1',
+        url: 'https://ui.attentivemobile.com/segments/seg_1',
+      });
+
+      const second = await search.call(
+        context as unknown as ILoadOptionsFunctions,
+        'SEG 15',
+        first.paginationToken as string,
+      );
+      expect(second.results.map((result) => result.value)).toEqual(['seg_150']);
+      expect(second.paginationToken).toBeUndefined();
+    });
+
+    it('should reject IDs that do not exist', async () => {
+      await expect(
+        run({
+          resource: 'segment',
+          operation: 'getMembers',
+          segmentId: 'missing',
+          returnAll: true,
+        }),
+      ).rejects.toMatchObject({
+        message: 'Segment "missing" does not exist',
+        errorType: 'notFound',
+      });
+      expect(server.requests.map((request) => request.path)).toEqual(['/segments/missing/members']);
+    });
+
+    it('should check that records exist before changing them', async () => {
+      await expect(
+        run({
+          resource: 'segment',
+          operation: 'delete',
+          segmentId: 'missing',
+        }),
+      ).rejects.toMatchObject({
+        message: 'Segment "missing" does not exist',
+        errorType: 'validation',
+      });
+      expect(server.requests.map((request) => request.method)).toEqual(['GET']);
     });
   });
 
   describe('Journeys', () => {
-    it.skip('should list all journeys', async () => {
-      // Requires valid API key
+    it('should list journeys with offset pagination and report truncation', async () => {
+      server.seed(server.journeys, seedRecords(30, 'journey'));
+
+      const journeys = await run({
+        resource: 'journey',
+        operation: 'getAll',
+        returnAll: false,
+        limit: 25,
+        filters: {},
+      });
+
+      expect(journeys).toHaveLength(25);
+      expect(journeys[0]._attentive).toMatchObject({ pagination: { truncated: true } });
+    });
+
+    it('should get journey stats', async () => {
+      server.seed(server.journeys, [{ id: 'journey_1', stats: { sent: 10 } }]);
+
+      const [stats] = await run({
+        resource: 'journey',
+        operation: 'getStats',
+        journeyId: 'journey_1',
+        dateRange: { startDate: '2024-01-01' },
+      });
+
+      expect(stats).toMatchObject({ id: 'journey_1', sent: 10 });
+    });
+  });
+
+  describe('Sign-Up Units and Keywords', () => {
+    it('should list sign-up units', async () => {
+      server.seed(server.signUpUnits, [
+        { id: 'unit_1', type: 'POPUP' },
+        { id: 'unit_2', type: 'KEYWORD' },
+      ]);
+
+      const units = await run({
+        resource: 'signUpUnit',
+        operation: 'getAll',
+        returnAll: true,
+        filters: { type: 'POPUP' },
+      });
+
+      expect(units.map((unit) => unit.id)).toEqual(['unit_1']);
+    });
+
+    it('should list keywords across numbered pages', async () => {
+      server.seed(server.keywords, seedRecords(120, 'keyword'));
+
+      const keywords = await run({ resource: 'keyword', operation: 'getAll', returnAll: true });
+
+      expect(keywords).toHaveLength(120);
+    });
+  });
+
+  describe('Webhooks', () => {
+    it('should create, list and delete a webhook', async () => {
+      const parameters = {
+        resource: 'webhook',
+        operation: 'create',
+        webhookUrl: 'https://example.com/hook',
+        events: ['subscriber.created'],
+        webhookOptions: {},
+      };
+      const [created] = await run(parameters);
+
+      await expect(run(parameters)).rejects.toBeInstanceOf(AttentiveConflictError);
+
+      const webhooks = await run({ resource: 'webhook', operation: 'getAll', returnAll: true });
+      expect(webhooks).toEqual([expect.objectContaining({ id: created.id })]);
+
+      await run({ resource: 'webhook', operation: 'delete', webhookId: created.id });
+      expect(server.webhooks.size).toBe(0);
+    });
+
+    it('should expand category wildcards when creating a webhook', async () => {
+      const [created] = await run({
+        resource: 'webhook',
+        operation: 'create',
+        webhookUrl: 'https://example.com/hook',
+        events: ['journey.*', 'subscription.created'],
+        webhookOptions: {},
+      });
+
+      expect(created.events).toEqual(['journey.entered', 'journey.exited', 'subscription.created']);
+    });
+
+    it('should get, update, disable and enable a webhook', async () => {
+      const [created] = await run({
+        resource: 'webhook',
+        operation: 'create',
+        webhookUrl: 'https://example.com/hook',
+        events: ['subscription.created'],
+        webhookOptions: {},
+      });
+      const webhookId = created.id;
+
+      const [updated] = await run({
+        resource: 'webhook',
+        operation: 'update',
+        webhookId,
+        updateFields: { url: 'https://example.com/new-hook', events: ['journey.*'] },
+      });
+      expect(updated).toMatchObject({
+        url: 'https://example.com/new-hook',
+        events: ['journey.entered', 'journey.exited'],
+      });
+
+      const [disabled] = await run({ resource: 'webhook', operation: 'disable', webhookId });
+      expect(disabled.enabled).toBe(false);
+
+      await run({ resource: 'webhook', operation: 'enable', webhookId });
+      const [webhook] = await run({ resource: 'webhook', operation: 'get', webhookId });
+      expect(webhook).toMatchObject({ id: webhookId, enabled: true });
+    });
+
+    it('should reject an update without fields', async () => {
+      const [created] = server.seed(server.webhooks, [{ url: 'https://example.com/hook' }]);
+
+      await expect(
+        run({ resource: 'webhook', operation: 'update', webhookId: created.id, updateFields: {} }),
+      ).rejects.toThrow('Add at least one field to update');
+    });
+
+    it('should rotate the secret and return it once', async () => {
+      const [created] = server.seed(server.webhooks, [{ url: 'https://example.com/hook' }]);
+      const parameters = { resource: 'webhook', operation: 'rotateSecret', webhookId: created.id };
+
+      const [first] = await run(parameters);
+      const [second] = await run(parameters);
+
+      expect(first).toMatchObject({ id: created.id, url: 'https://example.com/hook' });
+      expect(first.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(second.secret).not.toBe(first.secret);
+      expect(server.requests.find((request) => request.method === 'PATCH')?.body).toEqual({
+        secret: first.secret,
+      });
+
+      const [webhook] = await run({ resource: 'webhook', operation: 'get', webhookId: created.id });
+      expect(webhook.secret).toBeUndefined();
+    });
+
+    it('should return the applied secret when a rotation is skipped as completed', async () => {
+      const [created] = server.seed(server.webhooks, [{ url: 'https://example.com/hook' }]);
+      const staticData: IDataObject = {};
+      const rotate = async () => {
+        const context = createExecuteContext({
+          node,
+          baseUrl: server.baseUrl,
+          parameters: {
+            resource: 'webhook',
+            operation: 'rotateSecret',
+            webhookId: created.id,
+            requestOptions: { idempotency: 'header', idempotencyKey: 'rotate-1' },
+          },
+          staticData,
+        });
+        const [[output]] = await node.execute.call(context);
+        return output.json;
+      };
+
+      const first = await rotate();
+      const second = await rotate();
+
+      const patches = server.requests.filter((request) => request.method === 'PATCH');
+      expect(patches).toHaveLength(1);
+      expect(second.secret).toBe(first.secret);
+      expect(second.secret).toBe((patches[0].body as IDataObject).secret);
+    });
+
+    it('should mask secrets and skip local test deliveries in dry runs', async () => {
+      const [created] = server.seed(server.webhooks, [{ url: 'https://example.com/hook' }]);
+      const requestOptions = { dryRun: true };
+
+      const [rotation] = await run({
+        resource: 'webhook',
+        operation: 'rotateSecret',
+        webhookId: created.id,
+        requestOptions,
+      });
+      const [test] = await run({
+        resource: 'webhook',
+        operation: 'test',
+        webhookId: created.id,
+        testMode: 'local',
+        testEvent: 'message.delivered',
+        testSecret: 'whsec_test',
+        requestOptions,
+      });
+
+      expect((rotation.requests as IDataObject[])[0]).toMatchObject({
+        method: 'PATCH',
+        body: { secret: expect.stringMatching(/^\*{4}[0-9a-f]{4}$/) },
+      });
+      expect((test.requests as IDataObject[]).map((request) => request.method)).toEqual(['GET']);
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should ask Attentive to send a test event', async () => {
+      const [created] = server.seed(server.webhooks, [{ url: 'https://example.com/hook' }]);
+
+      const [result] = await run({
+        resource: 'webhook',
+        operation: 'test',
+        webhookId: created.id,
+        testEvent: 'message.delivered',
+      });
+
+      expect(result).toMatchObject({
+        webhookId: created.id,
+        event: 'message.delivered',
+        mode: 'attentive',
+        success: true,
+        status: 'QUEUED',
+      });
+      expect(server.requests[server.requests.length - 1]).toMatchObject({
+        method: 'POST',
+        path: `/webhooks/${created.id}/test`,
+        body: { event: 'message.delivered' },
+      });
+    });
+
+    it('should post a signed test event to the webhook URL', async () => {
+      const received: Array<{ headers: IDataObject; body: string }> = [];
+      let status = 200;
+      const receiver = createServer((request, response) => {
+        const chunks: Buffer[] = [];
+        request.on('data', (chunk: Buffer) => chunks.push(chunk));
+        request.on('end', () => {
+          received.push({
+            headers: request.headers as IDataObject,
+            body: Buffer.concat(chunks).toString(),
+          });
+          response.writeHead(status, { 'Content-Type': 'application/json' });
+          response.end('{}');
+        });
+      });
+      await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = receiver.address() as AddressInfo;
+        const [created] = server.seed(server.webhooks, [
+          { url: `http://127.0.0.1:${port}/webhook` },
+        ]);
+        const parameters = {
+          resource: 'webhook',
+          operation: 'test',
+          webhookId: created.id,
+          testMode: 'local',
+          testEvent: 'subscription.created',
+          testSecret: 'whsec_test',
+        };
+
+        const [delivered] = await run(parameters);
+
+        expect(delivered).toMatchObject({ mode: 'local', success: true, statusCode: 200 });
+        expect(JSON.parse(received[0].body)).toMatchObject({
+          event: 'subscription.created',
+          test: true,
+          data: { phone: '+15555550100' },
+        });
+        expect(
+          verifySignature(received[0].body, received[0].headers[SIGNATURE_HEADER] as string, [
+            'whsec_test',
+          ]),
+        ).toBe(true);
+
+        status = 401;
+        const [rejected] = await run(parameters);
+
+        expect(rejected).toMatchObject({ success: false, statusCode: 401 });
+      } finally {
+        await new Promise((resolve) => receiver.close(resolve));
+      }
     });
   });
 
-  // Placeholder test to ensure test suite runs
-  it('should have integration test structure', () => {
-    expect(true).toBe(true);
+  describe('Trigger Webhook Lifecycle', () => {
+    const trigger = new AttentiveTrigger();
+    const webhookUrl = 'https://n8n.example.com/webhook/node-1/webhook';
+    const hooks = trigger.webhookMethods.default;
+
+    const hookContext = (
+      parameters: Record<string, unknown>,
+      staticData: IDataObject,
+      mode: 'trigger' | 'manual' = 'trigger',
+    ) =>
+      createHookContext(
+        { node: trigger, baseUrl: server.baseUrl, parameters, staticData },
+        webhookUrl,
+        mode,
+      );
+
+    const activate = async (parameters: Record<string, unknown>, staticData: IDataObject) => {
+      const context = hookContext(parameters, staticData);
+      return (await hooks.checkExists.call(context)) || hooks.create.call(context);
+    };
+
+    it('should update the registered webhook when the events or secret change', async () => {
+      const staticData: IDataObject = {};
+      await activate({ events: ['message.*'] }, staticData);
+      const webhookId = staticData.webhookId as string;
+
+      expect(await hooks.checkExists.call(hookContext({ events: ['message.*'] }, staticData))).toBe(
+        true,
+      );
+      expect(server.requests.some((request) => request.method === 'PATCH')).toBe(false);
+
+      const parameters = { events: ['subscription.created'], options: { secret: 'whsec_new' } };
+      expect(await hooks.checkExists.call(hookContext(parameters, staticData))).toBe(true);
+
+      const update = server.requests.find((request) => request.method === 'PATCH');
+      expect(update?.path).toBe(`/webhooks/${webhookId}`);
+      expect(update?.body).toEqual({
+        url: webhookUrl,
+        events: ['subscription.created'],
+        secret: 'whsec_new',
+      });
+      expect(server.webhooks.get(webhookId)?.events).toEqual(['subscription.created']);
+      expect(staticData.secretHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should re-enable a webhook Attentive disabled', async () => {
+      const staticData: IDataObject = {};
+      await activate({ events: ['message.delivered'] }, staticData);
+      const webhook = server.webhooks.get(staticData.webhookId as string) as IDataObject;
+      webhook.enabled = false;
+
+      expect(
+        await hooks.checkExists.call(hookContext({ events: ['message.delivered'] }, staticData)),
+      ).toBe(true);
+      expect(webhook.enabled).toBe(true);
+    });
+
+    it('should re-create a webhook that no longer exists', async () => {
+      const staticData: IDataObject = {};
+      await activate({ events: ['message.delivered'] }, staticData);
+      server.webhooks.clear();
+
+      expect(await activate({ events: ['message.delivered'] }, staticData)).toBe(true);
+      expect(server.webhooks.size).toBe(1);
+      expect(staticData.webhookId).toBe([...server.webhooks.keys()][0]);
+    });
+
+    it('should adopt a webhook already registered for the URL', async () => {
+      const [existing] = server.seed(server.webhooks, [
+        { url: webhookUrl, events: ['message.sent'], enabled: true },
+      ]);
+      const staticData: IDataObject = {};
+
+      const context = hookContext({ events: ['message.sent'] }, staticData);
+      expect(await hooks.create.call(context)).toBe(true);
+      expect(staticData.webhookId).toBe(existing.id);
+      expect(server.webhooks.size).toBe(1);
+    });
+
+    it('should fail on errors other than a missing webhook', async () => {
+      const staticData: IDataObject = { webhookId: 'wh_1' };
+      server.failNext('/webhooks/wh_1', {
+        status: 403,
+        body: { errors: [{ code: 'FORBIDDEN', message: 'Missing scope' }] },
+      });
+
+      await expect(
+        hooks.checkExists.call(hookContext({ events: ['message.sent'] }, staticData)),
+      ).rejects.toBeInstanceOf(AttentiveAuthError);
+      expect(staticData.webhookId).toBe('wh_1');
+    });
+
+    it('should clean up orphaned webhooks of the node on activation', async () => {
+      server.seed(server.webhooks, [
+        { id: 'wh_test', url: 'https://n8n.example.com/webhook-test/node-1/webhook' },
+        { id: 'wh_other', url: 'https://n8n.example.com/webhook/node-2/webhook' },
+        { id: 'wh_external', url: 'https://other.example.com/webhook/node-1/webhook' },
+      ]);
+      const staticData: IDataObject = {};
+      const parameters = {
+        events: ['message.sent'],
+        options: { cleanUpOrphanedWebhooks: true },
+      };
+
+      expect(await hooks.checkExists.call(hookContext(parameters, staticData, 'manual'))).toBe(
+        false,
+      );
+      expect(server.webhooks.has('wh_test')).toBe(true);
+
+      await activate(parameters, staticData);
+
+      expect([...server.webhooks.keys()].sort()).toEqual(
+        ['wh_external', 'wh_other', staticData.webhookId].sort(),
+      );
+    });
+
+    it('should leave the production webhook alone when testing the trigger', async () => {
+      const staticData: IDataObject = {};
+      await activate({ events: ['message.sent'] }, staticData);
+      const productionId = staticData.webhookId as string;
+      server.requests.length = 0;
+
+      // Test registrations get a copy of the static data, which n8n does not save
+      const context = createHookContext(
+        {
+          node: trigger,
+          baseUrl: server.baseUrl,
+          parameters: { events: ['message.delivered'] },
+          staticData: { ...staticData },
+        },
+        'https://n8n.example.com/webhook-test/node-1/webhook',
+        'manual',
+      );
+      expect(await hooks.checkExists.call(context)).toBe(false);
+      await hooks.create.call(context);
+      await hooks.delete.call(context);
+
+      expect(server.requests.some((request) => request.path === `/webhooks/${productionId}`)).toBe(
+        false,
+      );
+      expect([...server.webhooks.keys()]).toEqual([productionId]);
+      expect(server.webhooks.get(productionId)).toMatchObject({
+        url: webhookUrl,
+        events: ['message.sent'],
+      });
+    });
+
+    it('should ignore webhooks that were already deleted on deactivation', async () => {
+      const staticData: IDataObject = { webhookId: 'wh_missing', secretHash: null };
+
+      expect(await hooks.delete.call(hookContext({ events: [] }, staticData))).toBe(true);
+      expect(staticData).toEqual({});
+    });
+  });
+
+  describe('Poll Trigger', () => {
+    const trigger = new AttentivePollTrigger();
+
+    const poll = async (
+      parameters: Record<string, unknown>,
+      staticData: IDataObject,
+      mode: 'trigger' | 'manual' = 'trigger',
+    ): Promise<IDataObject[]> => {
+      const context = createPollContext(
+        { node: trigger, baseUrl: server.baseUrl, parameters, staticData },
+        mode,
+      );
+      const output = await trigger.poll.call(context);
+      return output ? output[0].map((item) => item.json) : [];
+    };
+
+    it('should emit new subscriptions and opt-outs once', async () => {
+      const staticData: IDataObject = {};
+      const parameters = { source: 'subscriptions' };
+
+      expect(await poll(parameters, staticData)).toEqual([]);
+
+      await run({
+        resource: 'subscriber',
+        operation: 'subscribe',
+        phone: '+14155550100',
+        signUpSourceId: 'source_1',
+      });
+      const [created] = await poll(parameters, staticData);
+
+      expect(created).toMatchObject({
+        event: 'subscription.created',
+        phone: '+14155550100',
+        subscriptionType: 'MARKETING',
+        channel: 'TEXT',
+      });
+      expect(created.data).toBeUndefined();
+      expect(await poll(parameters, staticData)).toEqual([]);
+
+      await run({ resource: 'subscriber', operation: 'unsubscribe', phone: '+14155550100' });
+      const events = await poll(parameters, staticData);
+
+      expect(events.map((event) => event.event)).toEqual(['subscription.opted_out']);
+      const lastRequest = server.requests[server.requests.length - 1];
+      expect(lastRequest.path).toBe('/subscribers');
+      expect(lastRequest.query.updatedSince).toBe(created.timestamp);
+    });
+
+    it('should emit message status events matching the selected events', async () => {
+      const staticData: IDataObject = {};
+      const parameters = { source: 'messages', events: ['message.delivered'] };
+      await poll(parameters, staticData);
+
+      const now = new Date(Date.now() + 1000).toISOString();
+      server.seed(server.messages, [
+        { id: 'msg_1', status: 'DELIVERED', deliveredAt: now, updatedAt: now },
+        { id: 'msg_2', status: 'FAILED', failedAt: now, updatedAt: now },
+      ]);
+      const events = await poll(parameters, staticData);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        event: 'message.delivered',
+        timestamp: now,
+        messageId: 'msg_1',
+      });
+    });
+
+    it('should emit segment members that joined or left', async () => {
+      server.seed(server.segments, [{ id: 'seg_1', name: 'VIP' }]);
+      server.segmentMembers.set('seg_1', [{ id: 'user_1' }, { id: 'user_2' }]);
+      const staticData: IDataObject = {};
+      const parameters = { source: 'segmentMembers', segmentId: 'seg_1' };
+
+      expect(await poll(parameters, staticData)).toEqual([]);
+
+      server.segmentMembers.set('seg_1', [{ id: 'user_2' }, { id: 'user_3' }]);
+      const events = await poll(parameters, staticData);
+
+      expect(events.map((event) => [event.event, event.memberId])).toEqual([
+        ['segment.member_added', 'user_3'],
+        ['segment.member_removed', 'user_1'],
+      ]);
+      expect(await poll(parameters, staticData)).toEqual([]);
+    });
+
+    it('should emit events as polled when Simplify is off', async () => {
+      const staticData: IDataObject = {};
+      const parameters = { source: 'subscriptions', simplify: false };
+
+      await poll(parameters, staticData);
+      await run({
+        resource: 'subscriber',
+        operation: 'subscribe',
+        phone: '+14155550100',
+        signUpSourceId: 'source_1',
+      });
+      const [created] = await poll(parameters, staticData);
+
+      expect(created).toMatchObject({
+        event: 'subscription.created',
+        data: { phone: '+14155550100', type: 'MARKETING', channel: 'TEXT', status: 'SUBSCRIBED' },
+      });
+      expect(created.raw).toMatchObject({ phone: '+14155550100' });
+    });
+
+    it('should keep the member snapshot when the member list is incomplete', async () => {
+      server.seed(server.segments, [{ id: 'seg_1', name: 'VIP' }]);
+      server.segmentMembers.set('seg_1', [{ id: 'user_1' }, { id: 'user_2' }]);
+      const staticData: IDataObject = {};
+      const parameters = { source: 'segmentMembers', segmentId: 'seg_1' };
+
+      await poll(parameters, staticData);
+      const maxPages = jest.replaceProperty(
+        pagination,
+        'MAX_PAGES',
+        1 as typeof pagination.MAX_PAGES,
+      );
+      server.failNext('/segments/seg_1/members', {
+        status: 200,
+        body: { members: [{ id: 'user_2' }], nextCursor: 'more' },
+      });
+
+      expect(await poll(parameters, staticData)).toEqual([]);
+      maxPages.restore();
+      expect(await poll(parameters, staticData)).toEqual([]);
+    });
+
+    it('should emit journey status changes and start over when the source changes', async () => {
+      server.seed(server.journeys, [{ id: 'journey_1', name: 'Welcome', status: 'draft' }]);
+      const staticData: IDataObject = {};
+
+      await poll({ source: 'journeyStatus' }, staticData);
+      (server.journeys.get('journey_1') as IDataObject).status = 'active';
+      const [changed] = await poll({ source: 'journeyStatus' }, staticData);
+
+      expect(changed).toMatchObject({
+        event: 'journey.status_changed',
+        journeyId: 'journey_1',
+        status: 'active',
+        previousStatus: 'draft',
+      });
+
+      server.seed(server.segments, [{ id: 'seg_1', name: 'VIP' }]);
+      server.segmentMembers.set('seg_1', [{ id: 'user_1' }]);
+      expect(await poll({ source: 'segmentMembers', segmentId: 'seg_1' }, staticData)).toEqual([]);
+    });
+
+    it('should emit the latest event as sample data in manual executions', async () => {
+      server.seed(server.journeys, [
+        { id: 'journey_1', status: 'active', updatedAt: '2024-01-01T00:00:00.000Z' },
+        { id: 'journey_2', status: 'paused', updatedAt: '2024-02-01T00:00:00.000Z' },
+      ]);
+      const staticData: IDataObject = {};
+
+      const events = await poll({ source: 'journeyStatus' }, staticData, 'manual');
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ journeyId: 'journey_2', previousStatus: null });
+      expect(staticData).toEqual({});
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('should retry rate limited requests', async () => {
+      server.failNext('/segments', {
+        status: 429,
+        headers: { 'Retry-After': '0' },
+        body: { errors: [{ code: 'RATE_LIMITED', message: 'Too many requests' }] },
+      });
+      server.seed(server.segments, seedRecords(1, 'seg'));
+
+      const segments = await run({ resource: 'segment', operation: 'getAll', returnAll: true });
+
+      expect(segments).toHaveLength(1);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('should return error details when continuing on fail', async () => {
+      const context = createExecuteContext({
+        node,
+        baseUrl: server.baseUrl,
+        parameters: { resource: 'segment', operation: 'get', segmentId: 'missing' },
+        continueOnFail: true,
+      });
+
+      const [[output]] = await node.execute.call(context);
+
+      expect(output.json).toMatchObject({ errorType: 'notFound', statusCode: 404 });
+      expect(output.json.requestId).toMatch(/^req_/);
+    });
+
+    it('should return typed details for invalid input when continuing on fail', async () => {
+      const context = createExecuteContext({
+        node,
+        baseUrl: server.baseUrl,
+        parameters: {
+          resource: 'subscriber',
+          operation: 'get',
+          identifierType: 'email',
+          email: 'not-an-email',
+        },
+        continueOnFail: true,
+      });
+
+      const [[output]] = await node.execute.call(context);
+
+      expect(output.json).toMatchObject({
+        error: 'Invalid email address: "not-an-email"',
+        errorType: 'validation',
+        errorCodes: ['INVALID_PARAMETER'],
+        fieldPaths: ['email'],
+      });
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should fail only the import rows without a sign-up source', async () => {
+      const context = createExecuteContext({
+        node,
+        baseUrl: server.baseUrl,
+        parameters: {
+          resource: 'subscriber',
+          operation: 'importBulk',
+          signUpSourceId: (itemIndex: number) => ({
+            mode: 'id',
+            value: itemIndex === 0 ? '' : 'source_1',
+          }),
+          phoneField: 'phone',
+        },
+        items: [{ json: { phone: '+14155550101' } }, { json: { phone: '+14155550102' } }],
+        continueOnFail: true,
+      });
+
+      const [output] = await node.execute.call(context);
+
+      expect(output.map((row) => row.json.success)).toEqual([false, true]);
+      expect(output[0].json).toMatchObject({
+        error: 'No sign-up unit selected',
+        errorType: 'validation',
+        fieldPaths: ['signUpSourceId'],
+      });
+      expect(server.requests).toHaveLength(1);
+    });
   });
 });
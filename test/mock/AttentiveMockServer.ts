@@ -0,0 +1,728 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+type Data = Record<string, unknown>;
+
+export interface IMockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: IncomingMessage['headers'];
+  body?: Data;
+}
+
+export interface IMockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface IMockFailure extends IMockResponse {
+  method?: string;
+  path: string | RegExp;
+  times: number;
+}
+
+interface IRoute {
+  method: string;
+  pattern: RegExp;
+  handler: (request: IMockRequest, params: string[]) => IMockResponse;
+}
+
+export interface IMockServerOptions {
+  apiKey?: string;
+}
+
+export const MOCK_API_KEY = 'test-api-key';
+
+const API_PREFIX = '/v1/';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Build an Attentive style error response
+ * @param status - HTTP status code
+ * @param code - Error code
+ * @param message - Error message
+ * @param field - Field the error refers to
+ * @returns Error response
+ */
+function errorResponse(status: number, code: string, message: string, field?: string) {
+  return { status, body: { errors: [{ code, message, ...(field ? { field } : {}) }] } };
+}
+
+/**
+ * In-memory Attentive API for end-to-end tests of the node execute paths.
+ *
+ * List endpoints paginate the way the real API does, which differs per endpoint:
+ * cursors for subscribers, messages, segments and webhooks, offsets for journeys and sign-up
+ * units, and page numbers for keywords.
+ */
+export class AttentiveMockServer {
+  readonly requests: IMockRequest[] = [];
+
+  readonly subscribers = new Map<string, Data>();
+
+  readonly messages = new Map<string, Data>();
+
+  readonly events: Data[] = [];
+
+  readonly segments = new Map<string, Data>();
+
+  readonly segmentMembers = new Map<string, Data[]>();
+
+  readonly journeys = new Map<string, Data>();
+
+  readonly signUpUnits = new Map<string, Data>();
+
+  readonly keywords = new Map<string, Data>();
+
+  readonly webhooks = new Map<string, Data>();
+
+  private readonly apiKey: string;
+
+  private readonly routes: IRoute[] = [];
+
+  private failures: IMockFailure[] = [];
+
+  private server?: Server;
+
+  private nextId = 1;
+
+  constructor(options: IMockServerOptions = {}) {
+    this.apiKey = options.apiKey ?? MOCK_API_KEY;
+    this.registerRoutes();
+  }
+
+  get baseUrl(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock server is not running');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch((error: Error) => {
+        this.send(response, { status: 500, body: { message: error.message } });
+      });
+    });
+    await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    }
+  }
+
+  /**
+   * Clear all records, recorded requests and pending failures
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.events.length = 0;
+    this.failures = [];
+    for (const store of [
+      this.subscribers,
+      this.messages,
+      this.segments,
+      this.segmentMembers,
+      this.journeys,
+      this.signUpUnits,
+      this.keywords,
+      this.webhooks,
+    ]) {
+      store.clear();
+    }
+  }
+
+  /**
+   * Make the next matching requests fail
+   * @param path - Path after the API version, or a pattern matching it
+   * @param response - Error response to return
+   * @param options - Method to match and number of requests to fail
+   */
+  failNext(
+    path: string | RegExp,
+    response: IMockResponse,
+    options: { method?: string; times?: number } = {},
+  ): void {
+    this.failures.push({ ...response, path, method: options.method, times: options.times ?? 1 });
+  }
+
+  /**
+   * Seed records of a resource, assigning ids where missing
+   * @param store - Resource store
+   * @param records - Records to add
+   * @returns Added records
+   */
+  seed(store: Map<string, Data>, records: Data[]): Data[] {
+    return records.map((record) => {
+      const id = String(record.id ?? this.createId('id'));
+      const seeded = { ...record, id };
+      store.set(id, seeded);
+      return seeded;
+    });
+  }
+
+  /**
+   * Find a subscriber by phone, email or id
+   * @param identity - User identifiers of a request body or query
+   * @returns Subscriber record, if found
+   */
+  findSubscriber(identity: Data = {}): Data | undefined {
+    return [...this.subscribers.values()].find((subscriber) =>
+      ['phone', 'email', 'id'].some(
+        (key) => identity[key] !== undefined && subscriber[key] === identity[key],
+      ),
+    );
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${String(this.nextId++).padStart(6, '0')}`;
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString();
+
+    const mockRequest: IMockRequest = {
+      method: request.method ?? 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers: request.headers,
+      body: raw ? (JSON.parse(raw) as Data) : undefined,
+    };
+    this.requests.push(mockRequest);
+
+    this.send(response, this.route(mockRequest));
+  }
+
+  private route(request: IMockRequest): IMockResponse {
+    if (!request.path.startsWith(API_PREFIX)) {
+      return errorResponse(404, 'NOT_FOUND', `Unknown API version in ${request.path}`);
+    }
+    request.path = request.path.slice(API_PREFIX.length - 1);
+
+    if (request.headers.authorization !== `Bearer ${this.apiKey}`) {
+      return errorResponse(401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+
+    const failure = this.failures.find(
+      (candidate) =>
+        (!candidate.method || candidate.method === request.method) &&
+        (typeof candidate.path === 'string'
+          ? candidate.path === request.path
+          : candidate.path.test(request.path)),
+    );
+    if (failure) {
+      failure.times--;
+      this.failures = this.failures.filter((candidate) => candidate.times > 0);
+      return failure;
+    }
+
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(request.path);
+      if (!match) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method === request.method) {
+        return route.handler(request, match.slice(1).map(decodeURIComponent));
+      }
+    }
+
+    return pathMatched
+      ? errorResponse(405, 'METHOD_NOT_ALLOWED', `${request.method} is not allowed`)
+      : errorResponse(404, 'NOT_FOUND', `No route for ${request.path}`);
+  }
+
+  private send(response: ServerResponse, result: IMockResponse): void {
+    const headers = {
+      'Content-Type': 'application/json',
+      'X-Request-Id': `req_${String(this.requests.length).padStart(6, '0')}`,
+      ...result.headers,
+    };
+    response.writeHead(result.status, headers);
+    response.end(result.body === undefined ? '' : JSON.stringify(result.body));
+  }
+
+  private on(
+    method: string,
+    path: string,
+    handler: (request: IMockRequest, params: string[]) => IMockResponse,
+  ): void {
+    const pattern = new RegExp(`^${path.replace(/:\w+/g, '([^/]+)')}$`);
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private registerRoutes(): void {
+    this.on('GET', '/me', () => ({
+      status: 200,
+      body: { companyId: 'company_1', companyName: 'Mock Company', applicationId: 'app_1' },
+    }));
+
+    this.registerSubscriberRoutes();
+    this.registerMessageRoutes();
+    this.registerEventRoutes();
+    this.registerAttributeRoutes();
+    this.registerSegmentRoutes();
+
+    this.on('GET', '/journeys', (request) =>
+      this.paginateOffset(request, 'journeys', this.filter(this.journeys, request, ['status'])),
+    );
+    this.on('GET', '/journeys/:id', (_request, [id]) => this.find(this.journeys, id, 'Journey'));
+    this.on('GET', '/journeys/:id/stats', (request, [id]) =>
+      this.stats(this.journeys, id, 'Journey', request),
+    );
+
+    this.on('GET', '/sign-up-units', (request) =>
+      this.paginateOffset(request, 'signUpUnits', this.filter(this.signUpUnits, request, ['type'])),
+    );
+    this.on('GET', '/sign-up-units/:id', (_request, [id]) =>
+      this.find(this.signUpUnits, id, 'Sign-up unit'),
+    );
+    this.on('GET', '/sign-up-units/:id/stats', (request, [id]) =>
+      this.stats(this.signUpUnits, id, 'Sign-up unit', request),
+    );
+
+    this.on('GET', '/keywords', (request) =>
+      this.paginatePage(request, 'keywords', [...this.keywords.values()]),
+    );
+    this.on('GET', '/keywords/:id', (_request, [id]) => this.find(this.keywords, id, 'Keyword'));
+
+    this.registerWebhookRoutes();
+  }
+
+  private registerSubscriberRoutes(): void {
+    this.on('POST', '/subscriptions', (request) => {
+      const body = request.body ?? {};
+      const user = (body.user as Data | undefined) ?? {};
+      if (!user.phone && !user.email) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'A phone or email is required', 'user');
+      }
+      if (!body.signUpSourceId) {
+        return errorResponse(
+          400,
+          'INVALID_PARAMETER',
+          'signUpSourceId is required',
+          'signUpSourceId',
+        );
+      }
+
+      const existing = this.findSubscriber(user);
+      const now = new Date().toISOString();
+      const subscriber: Data = {
+        id: existing?.id ?? this.createId('user'),
+        ...existing,
+        ...user,
+        locale: body.locale ?? existing?.locale,
+        customAttributes: {
+          ...(existing?.customAttributes as Data | undefined),
+          ...(body.customAttributes as Data | undefined),
+        },
+        subscriptions: [
+          {
+            type: body.subscriptionType ?? 'MARKETING',
+            channel: user.phone ? 'TEXT' : 'EMAIL',
+            status: 'SUBSCRIBED',
+            subscribedAt: now,
+            updatedAt: now,
+          },
+        ],
+        updatedAt: now,
+      };
+      this.subscribers.set(String(subscriber.id), subscriber);
+
+      return {
+        status: 200,
+        body: {
+          user: { id: subscriber.id, ...user },
+          subscriptionResponses: subscriber.subscriptions,
+        },
+      };
+    });
+
+    this.on('GET', '/subscriptions', (request) => {
+      const subscriber = this.findSubscriber(request.query);
+      return subscriber
+        ? { status: 200, body: subscriber }
+        : errorResponse(404, 'NOT_FOUND', 'Subscriber not found');
+    });
+
+    this.on('POST', '/subscriptions/unsubscribe', (request) => {
+      const subscriber = this.findSubscriber(request.body?.user as Data | undefined);
+      if (!subscriber) {
+        return errorResponse(404, 'NOT_FOUND', 'Subscriber not found');
+      }
+      const now = new Date().toISOString();
+      subscriber.subscriptions = ((subscriber.subscriptions as Data[] | undefined) ?? []).map(
+        (subscription) => ({
+          ...subscription,
+          status: 'UNSUBSCRIBED',
+          unsubscribedAt: now,
+          updatedAt: now,
+        }),
+      );
+      subscriber.updatedAt = now;
+      return { status: 200, body: { id: subscriber.id, unsubscribed: true } };
+    });
+
+    this.on('GET', '/subscribers', (request) =>
+      this.paginateCursor(request, 'subscribers', this.updatedSince(this.subscribers, request)),
+    );
+
+    this.on('PATCH', '/subscribers', (request) => {
+      const body = request.body ?? {};
+      const user = (body.user as Data | undefined) ?? {};
+      const subscriber = this.findSubscriber(user);
+      if (!subscriber) {
+        return errorResponse(404, 'NOT_FOUND', 'Subscriber not found');
+      }
+      Object.assign(subscriber, user, {
+        locale: body.locale ?? subscriber.locale,
+        customAttributes: {
+          ...(subscriber.customAttributes as Data | undefined),
+          ...(body.customAttributes as Data | undefined),
+        },
+      });
+      return { status: 200, body: subscriber };
+    });
+  }
+
+  private registerMessageRoutes(): void {
+    const createMessage = (body: Data, phone: unknown): Data => {
+      const id = this.createId('msg');
+      const now = new Date().toISOString();
+      const message: Data = {
+        id,
+        phone,
+        body: body.body,
+        messageName: body.messageName,
+        externalId: body.externalId,
+        status: body.sendAt ? 'SCHEDULED' : 'QUEUED',
+        createdAt: now,
+        updatedAt: now,
+        ...(body.sendAt ? { sendAt: body.sendAt } : {}),
+      };
+      this.messages.set(id, message);
+      return message;
+    };
+
+    const validateMessage = (body: Data): IMockResponse | undefined => {
+      if (!body.to) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'to is required', 'to');
+      }
+      if (!body.body) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'body is required', 'body');
+      }
+      return undefined;
+    };
+
+    for (const path of ['/messages/send', '/messages/transactional']) {
+      this.on('POST', path, (request) => {
+        const body = request.body ?? {};
+        const invalid = validateMessage(body);
+        if (invalid) {
+          return invalid;
+        }
+        const message = createMessage(body, body.to);
+        return { status: 202, body: { messageId: message.id, status: message.status } };
+      });
+    }
+
+    this.on('POST', '/messages/bulk', (request) => {
+      const body = request.body ?? {};
+      const recipients = (body.recipients as Data[] | undefined) ?? [];
+      if (recipients.length === 0) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'recipients is required', 'recipients');
+      }
+      const messageIds = recipients.map(
+        (recipient) => createMessage({ ...body, ...recipient }, recipient.phone).id,
+      );
+      return { status: 202, body: { messageIds, recipients: recipients.length } };
+    });
+
+    this.on('GET', '/messages', (request) => {
+      const messages = this.filter(this.messages, request, [
+        'phone',
+        'messageName',
+        'externalId',
+      ]).filter((message) => this.isUpdatedSince(message, request));
+      return this.paginateCursor(request, 'messages', messages);
+    });
+    this.on('GET', '/messages/:id', (_request, [id]) => this.find(this.messages, id, 'Message'));
+    this.on('GET', '/messages/:id/status', (_request, [id]) => {
+      const message = this.messages.get(id);
+      return message
+        ? {
+            status: 200,
+            body: { messageId: id, status: message.status, updatedAt: message.updatedAt },
+          }
+        : errorResponse(404, 'NOT_FOUND', 'Message not found');
+    });
+  }
+
+  private registerEventRoutes(): void {
+    const trackEvent = (type: string, body: Data): IMockResponse => {
+      const user = (body.user as Data | undefined) ?? {};
+      if (!user.phone && !user.email) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'A phone or email is required', 'user');
+      }
+      this.events.push({ type, ...body });
+      return { status: 202, body: { success: true } };
+    };
+
+    this.on('POST', '/events/custom', (request) => {
+      const body = request.body ?? {};
+      if (!body.type) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'type is required', 'type');
+      }
+      return trackEvent(String(body.type), body);
+    });
+
+    this.on('POST', '/events/custom/batch', (request) => {
+      const events = (request.body?.events as Data[] | undefined) ?? [];
+      for (const event of events) {
+        this.events.push({ ...event });
+      }
+      return { status: 202, body: { success: true, accepted: events.length } };
+    });
+
+    this.on('POST', '/events/ecommerce/:type', (request, [type]) =>
+      trackEvent(type, request.body ?? {}),
+    );
+  }
+
+  private registerAttributeRoutes(): void {
+    const setAttributes = (update: Data): void => {
+      const user = (update.user as Data | undefined) ?? {};
+      const subscriber = this.findSubscriber(user) ?? { id: this.createId('user'), ...user };
+      subscriber.customAttributes = {
+        ...(subscriber.customAttributes as Data | undefined),
+        ...(update.properties as Data | undefined),
+      };
+      this.subscribers.set(String(subscriber.id), subscriber);
+    };
+
+    this.on('POST', '/attributes/custom', (request) => {
+      const body = request.body ?? {};
+      if (!body.properties || Object.keys(body.properties as Data).length === 0) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'properties is required', 'properties');
+      }
+      setAttributes(body);
+      return { status: 200, body: { success: true } };
+    });
+
+    this.on('POST', '/attributes/custom/batch', (request) => {
+      const updates = (request.body?.updates as Data[] | undefined) ?? [];
+      updates.forEach(setAttributes);
+      return { status: 200, body: { success: true, updated: updates.length } };
+    });
+
+    this.on('DELETE', '/attributes/custom', (request) => {
+      const body = request.body ?? {};
+      const subscriber = this.findSubscriber(body.user as Data | undefined);
+      if (subscriber?.customAttributes) {
+        delete (subscriber.customAttributes as Data)[String(body.attributeKey)];
+      }
+      return { status: 200, body: { success: true } };
+    });
+  }
+
+  private registerSegmentRoutes(): void {
+    this.on('POST', '/segments', (request) => {
+      const body = request.body ?? {};
+      if (!body.name) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'name is required', 'name');
+      }
+      const [segment] = this.seed(this.segments, [
+        { ...body, id: this.createId('seg'), createdAt: new Date().toISOString() },
+      ]);
+      return { status: 201, body: segment };
+    });
+
+    this.on('GET', '/segments', (request) =>
+      this.paginateCursor(request, 'segments', [...this.segments.values()]),
+    );
+    this.on('GET', '/segments/:id', (_request, [id]) => this.find(this.segments, id, 'Segment'));
+
+    this.on('PATCH', '/segments/:id', (request, [id]) => {
+      const segment = this.segments.get(id);
+      if (!segment) {
+        return errorResponse(404, 'NOT_FOUND', 'Segment not found');
+      }
+      Object.assign(segment, request.body);
+      return { status: 200, body: segment };
+    });
+
+    this.on('DELETE', '/segments/:id', (_request, [id]) => {
+      if (!this.segments.delete(id)) {
+        return errorResponse(404, 'NOT_FOUND', 'Segment not found');
+      }
+      return { status: 204 };
+    });
+
+    this.on('GET', '/segments/:id/members', (request, [id]) => {
+      if (!this.segments.has(id)) {
+        return errorResponse(404, 'NOT_FOUND', 'Segment not found');
+      }
+      return this.paginateCursor(request, 'members', this.segmentMembers.get(id) ?? []);
+    });
+  }
+
+  private registerWebhookRoutes(): void {
+    this.on('POST', '/webhooks', (request) => {
+      const body = request.body ?? {};
+      if (!body.url) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'url is required', 'url');
+      }
+      if ([...this.webhooks.values()].some((webhook) => webhook.url === body.url)) {
+        return errorResponse(409, 'CONFLICT', 'A webhook with this URL already exists', 'url');
+      }
+      const { secret: _secret, ...webhook } = body;
+      const [created] = this.seed(this.webhooks, [
+        { ...webhook, id: this.createId('wh'), enabled: true },
+      ]);
+      return { status: 201, body: created };
+    });
+
+    this.on('GET', '/webhooks', (request) =>
+      this.paginateCursor(request, 'webhooks', [...this.webhooks.values()]),
+    );
+    this.on('GET', '/webhooks/:id', (_request, [id]) => this.find(this.webhooks, id, 'Webhook'));
+
+    this.on('PATCH', '/webhooks/:id', (request, [id]) => {
+      const webhook = this.webhooks.get(id);
+      if (!webhook) {
+        return errorResponse(404, 'NOT_FOUND', 'Webhook not found');
+      }
+      const { secret: _secret, ...changes } = request.body ?? {};
+      Object.assign(webhook, changes);
+      return { status: 200, body: webhook };
+    });
+
+    this.on('POST', '/webhooks/:id/test', (request, [id]) => {
+      if (!this.webhooks.has(id)) {
+        return errorResponse(404, 'NOT_FOUND', 'Webhook not found');
+      }
+      if (!request.body?.event) {
+        return errorResponse(400, 'INVALID_PARAMETER', 'event is required', 'event');
+      }
+      return { status: 202, body: { deliveryId: this.createId('delivery'), status: 'QUEUED' } };
+    });
+
+    this.on('DELETE', '/webhooks/:id', (_request, [id]) => {
+      if (!this.webhooks.delete(id)) {
+        return errorResponse(404, 'NOT_FOUND', 'Webhook not found');
+      }
+      return { status: 204 };
+    });
+  }
+
+  private find(store: Map<string, Data>, id: string, name: string): IMockResponse {
+    const record = store.get(id);
+    return record
+      ? { status: 200, body: record }
+      : errorResponse(404, 'NOT_FOUND', `${name} not found`);
+  }
+
+  private stats(
+    store: Map<string, Data>,
+    id: string,
+    name: string,
+    request: IMockRequest,
+  ): IMockResponse {
+    if (!store.has(id)) {
+      return errorResponse(404, 'NOT_FOUND', `${name} not found`);
+    }
+    return {
+      status: 200,
+      body: {
+        id,
+        startDate: request.query.startDate ?? null,
+        endDate: request.query.endDate ?? null,
+        ...((store.get(id) as Data).stats as Data | undefined),
+      },
+    };
+  }
+
+  private filter(store: Map<string, Data>, request: IMockRequest, fields: string[]): Data[] {
+    return [...store.values()].filter((record) =>
+      fields.every(
+        (field) => request.query[field] === undefined || record[field] === request.query[field],
+      ),
+    );
+  }
+
+  private isUpdatedSince(record: Data, request: IMockRequest): boolean {
+    const since = request.query.updatedSince;
+    return since === undefined || String(record.updatedAt ?? '') >= since;
+  }
+
+  private updatedSince(store: Map<string, Data>, request: IMockRequest): Data[] {
+    return [...store.values()].filter((record) => this.isUpdatedSince(record, request));
+  }
+
+  private getLimit(request: IMockRequest): number {
+    const limit = Number(request.query.limit ?? DEFAULT_PAGE_SIZE);
+    return Math.max(1, Math.min(limit, 100));
+  }
+
+  private paginateCursor(request: IMockRequest, key: string, records: Data[]): IMockResponse {
+    const limit = this.getLimit(request);
+    const offset = request.query.cursor
+      ? Number(Buffer.from(request.query.cursor, 'base64').toString())
+      : 0;
+    const next = offset + limit;
+    return {
+      status: 200,
+      body: {
+        [key]: records.slice(offset, next),
+        nextCursor: next < records.length ? Buffer.from(String(next)).toString('base64') : null,
+      },
+    };
+  }
+
+  private paginateOffset(request: IMockRequest, key: string, records: Data[]): IMockResponse {
+    const limit = this.getLimit(request);
+    const offset = Number(request.query.offset ?? 0);
+    return {
+      status: 200,
+      body: {
+        [key]: records.slice(offset, offset + limit),
+        meta: { total: records.length, offset, limit },
+      },
+    };
+  }
+
+  private paginatePage(request: IMockRequest, key: string, records: Data[]): IMockResponse {
+    const limit = this.getLimit(request);
+    const page = Number(request.query.page ?? 1);
+    return {
+      status: 200,
+      body: {
+        [key]: records.slice((page - 1) * limit, page * limit),
+        meta: { page, totalPages: Math.max(1, Math.ceil(records.length / limit)) },
+      },
+    };
+  }
+}
@@ -0,0 +1,243 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { request as httpRequest } from 'http';
+import {
+  IDataObject,
+  IExecuteFunctions,
+  IHookFunctions,
+  INodeExecutionData,
+  INodeProperties,
+  INodeType,
+  IPollFunctions,
+  IRequestOptions,
+} from 'n8n-workflow';
+
+import { MOCK_API_KEY } from './AttentiveMockServer';
+
+/**
+ * Stand-in for n8n's request helper that sends requests over HTTP, throwing errors shaped like
+ * request-promise's StatusCodeError for error responses
+ * @param options - Request options built by the transport
+ * @returns Parsed response body, or the full response with resolveWithFullResponse
+ */
+export async function sendRequest(options: IRequestOptions): Promise<unknown> {
+  const url = new URL(options.uri as string);
+  for (const [key, value] of Object.entries((options.qs as IDataObject | undefined) ?? {})) {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  const payload = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+
+  const { statusCode, headers, body } = await new Promise<{
+    statusCode: number;
+    headers: IDataObject;
+    body: string;
+  }>((resolve, reject) => {
+    const request = httpRequest(
+      url,
+      { method: options.method ?? 'GET', headers: options.headers as IDataObject as never },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () =>
+          resolve({
+            statusCode: response.statusCode ?? 0,
+            headers: response.headers as IDataObject,
+            body: Buffer.concat(chunks).toString(),
+          }),
+        );
+      },
+    );
+    request.on('error', reject);
+    request.end(payload);
+  });
+
+  const parsed = body ? JSON.parse(body) : undefined;
+  if (statusCode >= 400) {
+    throw Object.assign(new Error(`${statusCode} - ${body}`), {
+      name: 'StatusCodeError',
+      statusCode,
+      error: parsed,
+      response: { statusCode, headers, body: parsed },
+    });
+  }
+  return options.resolveWithFullResponse ? { statusCode, headers, body: parsed } : parsed;
+}
+
+export interface IExecuteContextOptions {
+  node: INodeType;
+  baseUrl: string;
+  parameters: Record<string, unknown>;
+  items?: INodeExecutionData[];
+  apiKey?: string;
+  staticData?: IDataObject;
+  continueOnFail?: boolean;
+}
+
+/**
+ * Read a value by dotted path
+ * @param data - Object to read from
+ * @param path - Dotted path, e.g. "requestOptions.dryRun"
+ * @returns Value, or undefined
+ */
+function getPath(data: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === 'object' ? (value as IDataObject)[key] : undefined,
+      data,
+    );
+}
+
+/**
+ * Check whether a node property is displayed for the given parameters
+ * @param property - Node property
+ * @param parameters - Node parameters
+ * @returns true if every condition on a set parameter matches
+ */
+function isDisplayed(property: INodeProperties, parameters: Record<string, unknown>): boolean {
+  const show = property.displayOptions?.show ?? {};
+  return Object.entries(show).every(([name, values]) => {
+    const value = parameters[name.replace(/^\//, '')];
+    return value === undefined || (values as unknown[]).includes(value);
+  });
+}
+
+/**
+ * Create a getNodeParameter implementation for the given parameters.
+ *
+ * Parameters that are not set fall back to the getNodeParameter fallback, then to the default
+ * of the property shown for the configured resource and operation. A parameter given as a
+ * function is called with the item index, for values that differ per item.
+ * @param node - Node whose properties provide defaults
+ * @param parameters - Node parameters
+ * @returns Parameter resolver
+ */
+function createParameterResolver(node: INodeType, parameters: Record<string, unknown>) {
+  return (name: string, itemIndex: number, fallback?: unknown) => {
+    let value = getPath(parameters, name);
+    if (typeof value === 'function') {
+      value = (value as (index: number) => unknown)(itemIndex);
+    }
+    if (value !== undefined) {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+
+    const [root, ...path] = name.split('.');
+    const property = node.description.properties.find(
+      (candidate) => candidate.name === root && isDisplayed(candidate, parameters),
+    );
+    if (!property) {
+      throw new Error(`Could not get parameter "${name}"`);
+    }
+    return path.length > 0 ? getPath(property.default, path.join('.')) : property.default;
+  };
+}
+
+/**
+ * Build the context members shared by execute and poll contexts
+ * @param options - Node, server and parameters to run with
+ * @returns Credentials, node and request helpers
+ */
+function createBaseContext(options: IExecuteContextOptions) {
+  const { node, parameters } = options;
+  const staticData = options.staticData ?? {};
+
+  return {
+    getCredentials: async () => ({
+      apiKey: options.apiKey ?? MOCK_API_KEY,
+      environment: 'custom',
+      baseUrl: options.baseUrl,
+      apiVersion: 'v1',
+    }),
+    getNode: () => ({
+      id: 'attentive-node',
+      name: node.description.displayName,
+      type: node.description.name,
+      typeVersion: 1,
+      position: [0, 0],
+      parameters,
+      credentials: { attentiveApi: { id: 'mock-credential', name: 'Mock' } },
+    }),
+    getWorkflowStaticData: () => staticData,
+    helpers: { request: sendRequest },
+  };
+}
+
+/**
+ * Create an execution context that runs a node against a mock Attentive server
+ * @param options - Node, server and parameters to run with
+ * @returns Execution context
+ */
+export function createExecuteContext(options: IExecuteContextOptions): IExecuteFunctions {
+  const items = options.items ?? [{ json: {} }];
+  const getNodeParameter = createParameterResolver(options.node, options.parameters);
+
+  const context = {
+    ...createBaseContext(options),
+    getInputData: () => items,
+    getNodeParameter,
+    getExecutionId: () => 'mock-execution',
+    continueOnFail: () => options.continueOnFail ?? false,
+  };
+
+  return context as unknown as IExecuteFunctions;
+}
+
+/**
+ * Create a poll context that runs a polling trigger against a mock Attentive server
+ * @param options - Node, server, parameters and static data to poll with
+ * @param mode - "trigger" for scheduled polls, "manual" for test executions
+ * @returns Poll context
+ */
+export function createPollContext(
+  options: IExecuteContextOptions,
+  mode: 'trigger' | 'manual' = 'trigger',
+): IPollFunctions {
+  const getNodeParameter = createParameterResolver(options.node, options.parameters);
+
+  const context = {
+    ...createBaseContext(options),
+    getNodeParameter: (name: string, fallback?: unknown) => getNodeParameter(name, 0, fallback),
+    getMode: () => mode,
+    getActivationMode: () => 'activate',
+  };
+
+  return context as unknown as IPollFunctions;
+}
+
+/**
+ * Create a hook context that registers a webhook trigger against a mock Attentive server
+ * @param options - Node, server, parameters and static data to register with
+ * @param webhookUrl - URL n8n receives deliveries on
+ * @param mode - "trigger" for activations, "manual" for test registrations
+ * @returns Hook context
+ */
+export function createHookContext(
+  options: IExecuteContextOptions,
+  webhookUrl: string,
+  mode: 'trigger' | 'manual' = 'trigger',
+): IHookFunctions {
+  const getNodeParameter = createParameterResolver(options.node, options.parameters);
+
+  const context = {
+    ...createBaseContext(options),
+    getNodeParameter: (name: string, fallback?: unknown) => getNodeParameter(name, 0, fallback),
+    getNodeWebhookUrl: () => webhookUrl,
+    getWebhookName: () => 'default',
+    getMode: () => mode,
+    getActivationMode: () => 'activate',
+  };
+
+  return context as unknown as IHookFunctions;
+}
@@ -0,0 +1,87 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { attentiveApiRequest, getCredentialType } from '../../nodes/Attentive/transport';
+
+function createContext(authentication?: string) {
+  const requests: IDataObject[] = [];
+  const oAuth2Requests: Array<{ credentialType: string; options: IDataObject }> = [];
+  const credentialTypes: string[] = [];
+
+  const context = {
+    getCredentials: async (type: string) => {
+      credentialTypes.push(type);
+      return type === 'attentiveOAuth2Api'
+        ? { clientId: 'client', environment: 'custom', baseUrl: 'https://proxy.example.com' }
+        : { apiKey: 'test-key' };
+    },
+    getNode: () => ({
+      name: 'Attentive',
+      credentials: {
+        attentiveApi: { id: 'api-key-credential' },
+        attentiveOAuth2Api: { id: 'oauth2-credential' },
+      },
+    }),
+    getInputData: () => [{ json: {} }],
+    getNodeParameter: (name: string, _index: number, fallback: unknown) =>
+      name === 'authentication' && authentication !== undefined ? authentication : fallback,
+    helpers: {
+      request: async (options: IDataObject) => {
+        requests.push(options);
+        return { via: 'apiKey' };
+      },
+      requestOAuth2: async (credentialType: string, options: IDataObject) => {
+        oAuth2Requests.push({ credentialType, options });
+        return { via: 'oAuth2' };
+      },
+    },
+  };
+
+  return {
+    context: context as unknown as IExecuteFunctions,
+    requests,
+    oAuth2Requests,
+    credentialTypes,
+  };
+}
+
+describe('Authentication', () => {
+  describe('getCredentialType', () => {
+    it('should default to the API key credential', () => {
+      expect(getCredentialType.call(createContext().context)).toBe('attentiveApi');
+    });
+
+    it('should select the OAuth2 credential', () => {
+      expect(getCredentialType.call(createContext('oAuth2').context)).toBe('attentiveOAuth2Api');
+    });
+  });
+
+  describe('attentiveApiRequest', () => {
+    it('should send API key requests with a bearer header', async () => {
+      const { context, requests, oAuth2Requests } = createContext('apiKey');
+
+      expect(await attentiveApiRequest.call(context, 'GET', '/me')).toEqual({ via: 'apiKey' });
+      expect((requests[0].headers as IDataObject).Authorization).toBe('Bearer test-key');
+      expect(oAuth2Requests).toHaveLength(0);
+    });
+
+    it('should send OAuth2 requests through the OAuth2 helper', async () => {
+      const { context, requests, oAuth2Requests, credentialTypes } = createContext('oAuth2');
+
+      expect(await attentiveApiRequest.call(context, 'GET', '/me')).toEqual({ via: 'oAuth2' });
+      expect(credentialTypes).toEqual(['attentiveOAuth2Api']);
+      expect(requests).toHaveLength(0);
+      expect(oAuth2Requests[0].credentialType).toBe('attentiveOAuth2Api');
+      expect(oAuth2Requests[0].options).toMatchObject({
+        uri: 'https://proxy.example.com/v1/me',
+      });
+      expect((oAuth2Requests[0].options.headers as IDataObject).Authorization).toBeUndefined();
+    });
+  });
+});
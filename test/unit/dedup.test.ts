@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { AttentiveTrigger } from '../../nodes/Attentive/AttentiveTrigger.node';
+import {
+  MAX_SEEN_EVENTS,
+  checkDuplicateEvent,
+  getEventKey,
+  pruneSeenEvents,
+} from '../../nodes/Attentive/trigger/dedup';
+
+describe('Event Deduplication', () => {
+  const now = Date.parse('2024-01-15T10:00:00Z');
+  const delivered = {
+    event: 'message.delivered',
+    timestamp: '2024-01-15T09:59:00Z',
+    data: { messageId: 'msg_1', phone: '+19148440001' },
+  };
+
+  describe('getEventKey', () => {
+    it('should prefer the event id', () => {
+      expect(getEventKey({ ...delivered, id: 'evt_1' })).toBe('id:evt_1');
+      expect(getEventKey({ ...delivered, eventId: 'evt_2' })).toBe('id:evt_2');
+    });
+
+    it('should hash the type, timestamp and subject of events without an id', () => {
+      const key = getEventKey(delivered);
+
+      expect(key).toMatch(/^hash:[0-9a-f]{32}$/);
+      expect(getEventKey({ ...delivered, data: { ...delivered.data, body: 'Hi' } })).toBe(key);
+      expect(getEventKey({ ...delivered, event: 'message.clicked' })).not.toBe(key);
+      expect(getEventKey({ ...delivered, data: { messageId: 'msg_2' } })).not.toBe(key);
+    });
+  });
+
+  describe('checkDuplicateEvent', () => {
+    it('should flag redeliveries within the window', () => {
+      const staticData: IDataObject = {};
+
+      expect(checkDuplicateEvent(staticData, delivered, 60, now)).toMatchObject({
+        duplicate: false,
+        firstSeenAt: now,
+      });
+      expect(checkDuplicateEvent(staticData, delivered, 60, now + 30000)).toMatchObject({
+        duplicate: true,
+        firstSeenAt: now,
+      });
+      expect(checkDuplicateEvent(staticData, delivered, 60, now + 60000).duplicate).toBe(false);
+    });
+  });
+
+  describe('pruneSeenEvents', () => {
+    it('should keep at most the newest events', () => {
+      const seenEvents: IDataObject = {};
+      for (let index = 0; index <= MAX_SEEN_EVENTS; index++) {
+        seenEvents[`id:${index}`] = now + index;
+      }
+
+      pruneSeenEvents(seenEvents, 60000, now);
+
+      expect(Object.keys(seenEvents)).toHaveLength(MAX_SEEN_EVENTS);
+      expect(seenEvents['id:0']).toBeUndefined();
+    });
+  });
+
+  describe('AttentiveTrigger webhook', () => {
+    const trigger = new AttentiveTrigger();
+
+    const createContext = (
+      body: IDataObject,
+      options: IDataObject,
+      staticData: IDataObject,
+      typeVersion: number,
+    ) =>
+      ({
+        getBodyData: () => body,
+        getHeaderData: () => ({}),
+        getNode: () => ({ typeVersion }),
+        getNodeParameter: (name: string, fallback: unknown) =>
+          name === 'options' ? options : fallback,
+        getRequestObject: () => ({}),
+        getWorkflowStaticData: () => staticData,
+      }) as unknown as IWebhookFunctions;
+
+    const receive = (
+      body: IDataObject,
+      options: IDataObject,
+      staticData: IDataObject,
+      typeVersion = 1.1,
+    ) => trigger.webhook.call(createContext(body, options, staticData, typeVersion));
+
+    it('should start the workflow once per event', async () => {
+      const staticData: IDataObject = {};
+      const body = { ...delivered, timestamp: new Date().toISOString() };
+
+      const first = await receive(body, {}, staticData);
+      const retry = await receive(body, {}, staticData);
+
+      expect(first.workflowData?.[0][0].json).toMatchObject({ event: 'message.delivered' });
+      expect(retry).toEqual({ webhookResponse: { status: 200, body: 'Duplicate event' } });
+    });
+
+    it('should send duplicates to the second output when enabled', async () => {
+      const staticData: IDataObject = {};
+      const body = { ...delivered, id: 'evt_1' };
+      const options = { outputDuplicates: true };
+
+      const first = await receive(body, options, staticData);
+      const retry = await receive(body, options, staticData);
+
+      expect(first.workflowData?.[0]).toHaveLength(1);
+      expect(first.workflowData?.[1]).toEqual([]);
+      expect(retry.workflowData?.[0]).toEqual([]);
+      expect(retry.workflowData?.[1][0].json._attentive).toEqual({
+        duplicate: { key: 'id:evt_1', firstSeenAt: expect.any(String) },
+      });
+    });
+
+    it('should not remember events when deduplication is disabled', async () => {
+      const staticData: IDataObject = {};
+
+      await receive(delivered, { deduplicationWindow: 0 }, staticData);
+      const retry = await receive(delivered, { deduplicationWindow: 0 }, staticData);
+
+      expect(retry.workflowData?.[0]).toHaveLength(1);
+      expect(staticData).toEqual({});
+    });
+
+    it('should only deduplicate version 1 nodes when the window is set', async () => {
+      const staticData: IDataObject = {};
+
+      await receive(delivered, {}, staticData, 1);
+      const retry = await receive(delivered, {}, staticData, 1);
+      expect(retry.workflowData?.[0]).toHaveLength(1);
+      expect(staticData).toEqual({});
+
+      await receive(delivered, { deduplicationWindow: 60 }, staticData, 1);
+      expect(await receive(delivered, { deduplicationWindow: 60 }, staticData, 1)).toEqual({
+        webhookResponse: { status: 200, body: 'Duplicate event' },
+      });
+    });
+
+    it('should drop events older than the max event age', async () => {
+      const staticData: IDataObject = {};
+      const body = { ...delivered, timestamp: new Date(Date.now() - 600000).toISOString() };
+
+      expect(await receive(body, { maxEventAge: 300 }, staticData)).toEqual({
+        webhookResponse: { status: 200, body: 'Event too old' },
+      });
+      expect(staticData).toEqual({});
+    });
+  });
+});
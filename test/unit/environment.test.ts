@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  getBaseUrl,
+  getEnvironment,
+  getEnvironmentInfo,
+} from '../../nodes/Attentive/transport/environment';
+
+describe('Environment', () => {
+  describe('getBaseUrl', () => {
+    it('should default to the US production host', () => {
+      expect(getBaseUrl({ apiKey: 'key' })).toBe('https://api.attentivemobile.com/v1');
+    });
+
+    it('should use the production host with the API version', () => {
+      expect(getBaseUrl({ environment: 'production', apiVersion: 'v2' })).toBe(
+        'https://api.attentivemobile.com/v2',
+      );
+    });
+
+    it('should use a custom host without duplicate slashes', () => {
+      expect(
+        getBaseUrl({
+          environment: 'custom',
+          baseUrl: 'http://localhost:8080/',
+          apiVersion: '/v1/',
+        }),
+      ).toBe('http://localhost:8080/v1');
+    });
+
+    it('should keep using the base URL of credentials saved before the environment field', () => {
+      expect(getEnvironment({ baseUrl: 'https://api.attentivemobile.com/v1' })).toBe('production');
+      expect(getEnvironment({ baseUrl: 'http://localhost:8080/v1/' })).toBe('custom');
+      expect(getBaseUrl({ baseUrl: 'http://localhost:8080/v1/' })).toBe('http://localhost:8080/v1');
+    });
+  });
+
+  describe('getEnvironmentInfo', () => {
+    it('should describe production credentials', () => {
+      expect(getEnvironmentInfo({ environment: 'production' })).toEqual({
+        name: 'production',
+        apiVersion: 'v1',
+        baseUrl: 'https://api.attentivemobile.com/v1',
+      });
+    });
+
+    it('should describe custom credentials', () => {
+      expect(getEnvironment({ environment: 'custom' })).toBe('custom');
+      expect(getEnvironmentInfo({ environment: 'custom', baseUrl: 'https://proxy' })).toEqual({
+        name: 'custom',
+        apiVersion: 'v1',
+        baseUrl: 'https://proxy/v1',
+      });
+    });
+  });
+});
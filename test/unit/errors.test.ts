@@ -0,0 +1,139 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { INode, JsonObject } from 'n8n-workflow';
+
+import {
+  AttentiveApiError,
+  AttentiveAuthError,
+  AttentiveNotFoundError,
+  AttentiveRateLimitError,
+  AttentiveServerError,
+  AttentiveValidationError,
+  createAttentiveApiError,
+  getErrorType,
+  parseErrorDetails,
+} from '../../nodes/Attentive/transport/errors';
+
+const node: INode = {
+  id: '1',
+  name: 'Attentive',
+  type: 'n8n-nodes-attentive.attentive',
+  typeVersion: 1,
+  position: [0, 0],
+  parameters: {},
+};
+
+function requestError(statusCode: number, body: object, headers: object = {}): JsonObject {
+  return {
+    message: `${statusCode} - ${JSON.stringify(body)}`,
+    statusCode,
+    error: body,
+    response: { statusCode, headers, body },
+  } as unknown as JsonObject;
+}
+
+describe('Attentive API Errors', () => {
+  describe('getErrorType', () => {
+    it('should map status codes to error types', () => {
+      expect(getErrorType(400)).toBe('validation');
+      expect(getErrorType(422)).toBe('validation');
+      expect(getErrorType(401)).toBe('auth');
+      expect(getErrorType(403)).toBe('auth');
+      expect(getErrorType(404)).toBe('notFound');
+      expect(getErrorType(409)).toBe('conflict');
+      expect(getErrorType(429)).toBe('rateLimit');
+      expect(getErrorType(502)).toBe('server');
+      expect(getErrorType(undefined)).toBe('unknown');
+    });
+  });
+
+  describe('parseErrorDetails', () => {
+    it('should read the errors array with field paths', () => {
+      expect(
+        parseErrorDetails({
+          errors: [
+            { code: 'INVALID_PHONE', message: 'Phone is invalid', field: 'user.phone' },
+            { code: 'MISSING', message: 'Required', source: { pointer: '/signUpSourceId' } },
+          ],
+        }),
+      ).toEqual([
+        { code: 'INVALID_PHONE', message: 'Phone is invalid', field: 'user.phone' },
+        { code: 'MISSING', message: 'Required', field: '/signUpSourceId' },
+      ]);
+    });
+
+    it('should fall back to a top-level message', () => {
+      expect(parseErrorDetails({ message: 'Nope' })).toEqual([{ message: 'Nope' }]);
+      expect(parseErrorDetails(undefined)).toEqual([]);
+    });
+  });
+
+  describe('createAttentiveApiError', () => {
+    it('should create a validation error with codes, fields and request id', () => {
+      const error = createAttentiveApiError(
+        node,
+        requestError(
+          400,
+          { errors: [{ code: 'INVALID_PHONE', message: 'Phone is invalid', field: 'user.phone' }] },
+          { 'X-Request-Id': 'req-123' },
+        ),
+      );
+
+      expect(error).toBeInstanceOf(AttentiveValidationError);
+      expect(error).toBeInstanceOf(AttentiveApiError);
+      expect(error.statusCode).toBe(400);
+      expect(error.errorCodes).toEqual(['INVALID_PHONE']);
+      expect(error.fieldPaths).toEqual(['user.phone']);
+      expect(error.requestId).toBe('req-123');
+      expect(error.message).toContain('Phone is invalid');
+    });
+
+    it('should create the matching subclass for each status', () => {
+      expect(createAttentiveApiError(node, requestError(401, {}))).toBeInstanceOf(
+        AttentiveAuthError,
+      );
+      expect(createAttentiveApiError(node, requestError(404, {}))).toBeInstanceOf(
+        AttentiveNotFoundError,
+      );
+      expect(createAttentiveApiError(node, requestError(500, {}))).toBeInstanceOf(
+        AttentiveServerError,
+      );
+    });
+
+    it('should keep the Retry-After delay on rate limit errors', () => {
+      const error = createAttentiveApiError(
+        node,
+        requestError(429, { message: 'Slow down' }, { 'retry-after': '7' }),
+      );
+
+      expect(error).toBeInstanceOf(AttentiveRateLimitError);
+      expect(error.toOutput()).toMatchObject({
+        errorType: 'rateLimit',
+        statusCode: 429,
+        retryAfterMs: 7000,
+      });
+    });
+
+    it('should produce structured output for continue on fail', () => {
+      const error = createAttentiveApiError(
+        node,
+        requestError(409, { errors: [{ code: 'DUPLICATE', message: 'Already exists' }] }),
+      );
+
+      expect(error.toOutput()).toEqual({
+        error: error.message,
+        errorType: 'conflict',
+        statusCode: 409,
+        errorCodes: ['DUPLICATE'],
+        fieldPaths: [],
+        requestId: undefined,
+        errors: [{ code: 'DUPLICATE', message: 'Already exists' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { attentiveApiRequest } from '../../nodes/Attentive/transport';
+import {
+  IDEMPOTENCY_TTL_MS,
+  consumeIdempotencyStats,
+  deriveIdempotencyKey,
+  getCompletedRequest,
+  getNextIdempotencyKey,
+  recordCompletedRequest,
+  setIdempotencyItem,
+  setIdempotencyScope,
+} from '../../nodes/Attentive/transport/idempotency';
+
+function createContext(requestOptions: IDataObject, staticData: IDataObject = {}) {
+  const requests: IDataObject[] = [];
+  const context = {
+    getCredentials: async () => ({ apiKey: 'test-key' }),
+    getNode: () => ({
+      name: 'Attentive',
+      credentials: { attentiveApi: { id: 'idempotency-test' } },
+    }),
+    getInputData: () => [{ json: {} }],
+    getExecutionId: () => 'execution-1',
+    getWorkflowStaticData: () => staticData,
+    getNodeParameter: (name: string, _index: number, fallback: unknown) => {
+      if (name === 'requestOptions') {
+        return requestOptions;
+      }
+      if (name === 'requestOptions.idempotencyKey') {
+        return requestOptions.idempotencyKey ?? fallback;
+      }
+      return fallback;
+    },
+    helpers: {
+      request: async (options: IDataObject) => {
+        requests.push(options);
+        return { success: true, call: requests.length };
+      },
+    },
+  };
+  return { context: context as unknown as IExecuteFunctions, requests, staticData };
+}
+
+describe('Idempotency', () => {
+  describe('getNextIdempotencyKey', () => {
+    it('should derive the same keys when an item runs again', () => {
+      const first = {};
+      const second = {};
+      setIdempotencyScope(first, 'message.send');
+      setIdempotencyScope(second, 'message.send');
+
+      const keys = [getNextIdempotencyKey(first, 'exec'), getNextIdempotencyKey(first, 'exec')];
+      expect(keys[0]).toBe(deriveIdempotencyKey('exec', 0, 'message.send'));
+      expect(keys[1]).toBe(`${keys[0]}-1`);
+      expect(getNextIdempotencyKey(second, 'exec')).toBe(keys[0]);
+    });
+
+    it('should separate items and prefer user supplied keys', () => {
+      const context = {};
+      setIdempotencyScope(context, 'ecommerce.purchase');
+      const itemZero = getNextIdempotencyKey(context, 'exec');
+      setIdempotencyItem(context, 1);
+
+      expect(getNextIdempotencyKey(context, 'exec')).not.toBe(itemZero);
+      expect(getNextIdempotencyKey(context, 'exec', 'order-1001', 5)).toBe('order-1001');
+    });
+  });
+
+  describe('completed requests', () => {
+    it('should return recorded responses within the TTL', () => {
+      const staticData: IDataObject = {};
+      recordCompletedRequest(staticData, 'key', { id: 'msg_1' }, 1000);
+
+      expect(getCompletedRequest(staticData, 'key', 2000)).toEqual({ id: 'msg_1' });
+      expect(getCompletedRequest(staticData, 'key', 1000 + IDEMPOTENCY_TTL_MS + 1)).toBeUndefined();
+      expect(getCompletedRequest(staticData, 'other', 2000)).toBeUndefined();
+    });
+
+    it('should prune expired records', () => {
+      const staticData: IDataObject = {};
+      recordCompletedRequest(staticData, 'old', {}, 0);
+      recordCompletedRequest(staticData, 'new', {}, IDEMPOTENCY_TTL_MS + 1);
+
+      expect(Object.keys(staticData.idempotency as IDataObject)).toEqual(['new']);
+    });
+  });
+
+  describe('attentiveApiRequest', () => {
+    it('should send the key as header and skip completed requests', async () => {
+      const { context, requests } = createContext({ idempotency: 'header' });
+      setIdempotencyScope(context, 'customEvent.send');
+      await attentiveApiRequest.call(context, 'POST', '/events/custom', { type: 'x' });
+
+      const key = (requests[0].headers as IDataObject)['Idempotency-Key'];
+      expect(key).toBe(deriveIdempotencyKey('execution-1', 0, 'customEvent.send'));
+
+      // Run the same item again
+      setIdempotencyScope(context, 'customEvent.send');
+      const response = await attentiveApiRequest.call(context, 'POST', '/events/custom', {
+        type: 'x',
+      });
+
+      expect(requests).toHaveLength(1);
+      expect(response).toEqual({ success: true, call: 1 });
+      expect(consumeIdempotencyStats(context)).toEqual({ keys: [key, key], skipped: [key] });
+    });
+
+    it('should send the key as externalId of messages', async () => {
+      const { context, requests } = createContext({
+        idempotency: 'externalId',
+        idempotencyKey: 'order-1001',
+        skipCompletedRequests: false,
+      });
+      setIdempotencyScope(context, 'message.send');
+      await attentiveApiRequest.call(context, 'POST', '/messages/send', { to: '+1', body: 'Hi' });
+      await attentiveApiRequest.call(context, 'POST', '/purchases', { items: [] });
+
+      expect(requests[0].body).toMatchObject({ externalId: 'order-1001' });
+      expect((requests[1].headers as IDataObject)['Idempotency-Key']).toBe('order-1001-1');
+    });
+
+    it('should leave reads and disabled idempotency alone', async () => {
+      const { context, requests } = createContext({});
+      await attentiveApiRequest.call(context, 'POST', '/messages/send', { to: '+1' });
+
+      expect(requests[0].headers).not.toHaveProperty('Idempotency-Key');
+      expect(consumeIdempotencyStats(context)).toBeUndefined();
+    });
+  });
+});
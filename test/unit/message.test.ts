@@ -0,0 +1,272 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { executeMessageOperation } from '../../nodes/Attentive/actions/message';
+
+function createContext(
+  parameters: IDataObject,
+  items: IDataObject[] = [{}],
+  response: (options: IDataObject) => IDataObject = () => ({ id: 'bulk-1' }),
+  continueOnFail = false,
+) {
+  const requests: IDataObject[] = [];
+  const context = {
+    getCredentials: async () => ({ apiKey: 'test-key' }),
+    getNode: () => ({
+      name: 'Attentive',
+      credentials: { attentiveApi: { id: 'message-test' } },
+    }),
+    getInputData: () => items.map((json) => ({ json })),
+    continueOnFail: () => continueOnFail,
+    getNodeParameter: (name: string, _index: number, fallback: unknown) =>
+      parameters[name] ?? fallback,
+    helpers: {
+      request: async (options: IDataObject) => {
+        requests.push((options.body as IDataObject) ?? (options.qs as IDataObject));
+        return response(options);
+      },
+    },
+  };
+  return { context: context as unknown as IExecuteFunctions, requests };
+}
+
+describe('Message', () => {
+  describe('getAll', () => {
+    it('should filter messages and normalize their status', async () => {
+      const { context, requests } = createContext(
+        {
+          returnAll: false,
+          limit: 2,
+          filters: { phone: '+19148440001', startDate: '2024-01-15T00:00:00Z', messageName: '' },
+        },
+        [{}],
+        () => ({
+          messages: [
+            { id: 'msg_1', to: '+19148440001', status: 'DELIVERED' },
+            { id: 'msg_2', to: '+19148440001', status: 'SENT' },
+          ],
+        }),
+      );
+
+      const result = await executeMessageOperation.call(context, 'getAll', 0);
+
+      expect(requests).toEqual([
+        { phone: '+19148440001', startDate: '2024-01-15T00:00:00.000Z', limit: 2 },
+      ]);
+      expect(result.map((item) => [item.json.messageId, item.json.event])).toEqual([
+        ['msg_1', 'message.delivered'],
+        ['msg_2', 'message.sent'],
+      ]);
+    });
+  });
+
+  describe('send', () => {
+    const mms = { body: 'a'.repeat(1601), to: '+14155550100', quietHours: 'off' };
+    const mediaUrl = 'https://example.com/a.jpg';
+
+    it('should send a long MMS with a warning when no segment limit is set', async () => {
+      const { context, requests } = createContext({ ...mms, options: { mediaUrl } });
+
+      const [result] = await executeMessageOperation.call(context, 'send', 0);
+
+      expect(requests).toHaveLength(1);
+      expect((result.json._attentive as IDataObject).segments).toMatchObject({
+        channel: 'MMS',
+        warning: 'Message is 1601 characters, the MMS limit is 1600',
+      });
+    });
+
+    it('should fail a long MMS when a segment limit is set', async () => {
+      const { context, requests } = createContext({
+        ...mms,
+        options: { mediaUrl, maxSegments: 1 },
+      });
+
+      await expect(executeMessageOperation.call(context, 'send', 0)).rejects.toThrow(
+        'the MMS limit is 1600',
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('quiet hours', () => {
+    // A UTC send window opening in two hours, so the current time is always outside it
+    const utcTime = (offsetMinutes: number) =>
+      new Date(Date.now() + offsetMinutes * 60000).toISOString().slice(11, 16);
+    const quietHoursOptions = {
+      timezoneField: 'timezone',
+      sendWindowStart: utcTime(120),
+      sendWindowEnd: utcTime(180),
+    };
+
+    it('should schedule messages for the next send window by default', async () => {
+      const { context, requests } = createContext(
+        { to: '+14155550100', body: 'Hi', options: {}, quietHoursOptions },
+        [{ timezone: 'UTC' }],
+      );
+
+      const [result] = await executeMessageOperation.call(context, 'send', 0);
+
+      expect(requests[0].sendAt).toEqual(expect.stringContaining(`T${utcTime(120)}`));
+      expect((result.json._attentive as IDataObject).quietHours).toMatchObject({ deferred: true });
+    });
+
+    it('should not wait longer than the maximum wait', async () => {
+      const { context, requests } = createContext(
+        {
+          to: '+14155550100',
+          body: 'Hi',
+          options: {},
+          quietHours: 'wait',
+          quietHoursOptions: { ...quietHoursOptions, maxWait: 600 },
+        },
+        [{ timezone: 'UTC' }],
+      );
+
+      await expect(executeMessageOperation.call(context, 'send', 0)).rejects.toThrow(
+        'later than the max wait allows',
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('sendBulk', () => {
+    it('should personalize the message per recipient', async () => {
+      const { context, requests } = createContext({
+        body: 'Hi {{firstName | default: "there"}}',
+        quietHours: 'off',
+        templateData: 'attributes',
+        recipientSource: 'json',
+        recipientsJson: JSON.stringify([
+          { phone: '+14155550100', customAttributes: { firstName: 'Jane' } },
+          { phone: '+14155550101' },
+          {
+            phone: '+14155550102',
+            body: 'Welcome back {{firstName}}',
+            customAttributes: '{"firstName":"Al"}',
+          },
+        ]),
+        options: {},
+      });
+
+      const result = await executeMessageOperation.call(context, 'sendBulk', 0);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].json.id).toBe('bulk-1');
+      expect(requests).toEqual([
+        {
+          body: 'Hi there',
+          recipients: [
+            { phone: '+14155550100', customAttributes: { firstName: 'Jane' }, body: 'Hi Jane' },
+            { phone: '+14155550101' },
+            {
+              phone: '+14155550102',
+              customAttributes: { firstName: 'Al' },
+              body: 'Welcome back Al',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should send to all input items in chunks', async () => {
+      const { context, requests } = createContext(
+        {
+          body: 'Sale starts now',
+          quietHours: 'off',
+          recipientSource: 'inputItems',
+          recipientPhoneField: 'customer.phone',
+          recipientFields: { mediaUrlField: 'image' },
+          options: { chunkSize: 2 },
+        },
+        [
+          { customer: { phone: '1 (415) 555-0100' } },
+          { customer: { phone: '14155550101' }, image: 'https://example.com/a.jpg' },
+          { customer: { phone: '+14155550102' } },
+        ],
+      );
+
+      const [result] = await executeMessageOperation.call(context, 'sendBulk', 0);
+
+      expect(requests.map((request) => request.recipients)).toEqual([
+        [
+          { phone: '+14155550100' },
+          { phone: '+14155550101', mediaUrl: 'https://example.com/a.jpg' },
+        ],
+        [{ phone: '+14155550102' }],
+      ]);
+      expect(result.json).toMatchObject({
+        recipients: 3,
+        requests: 2,
+        failedRequests: 0,
+        batches: [
+          { success: true, recipients: ['+14155550100', '+14155550101'] },
+          { success: true, recipients: ['+14155550102'] },
+        ],
+      });
+    });
+
+    describe('with a failed chunk', () => {
+      const parameters = {
+        body: 'Sale starts now',
+        quietHours: 'off',
+        recipientSource: 'json',
+        recipientsJson: JSON.stringify([{ phone: '+14155550100' }, { phone: '+14155550101' }]),
+        options: { chunkSize: 1 },
+      };
+      const failSecondChunk = (options: IDataObject) => {
+        const [recipient] = (options.body as IDataObject).recipients as IDataObject[];
+        if (recipient.phone === '+14155550101') {
+          throw {
+            statusCode: 400,
+            error: { errors: [{ code: 'INVALID_PHONE', message: 'Phone is invalid' }] },
+          };
+        }
+        return { id: 'bulk-1' };
+      };
+
+      it('should fail the item', async () => {
+        const { context } = createContext(parameters, [{}], failSecondChunk);
+
+        await expect(executeMessageOperation.call(context, 'sendBulk', 0)).rejects.toMatchObject({
+          errorType: 'validation',
+          description: expect.stringContaining('1 of 2 bulk requests failed'),
+        });
+      });
+
+      it('should report the failed chunk when continuing on fail', async () => {
+        const { context } = createContext(parameters, [{}], failSecondChunk, true);
+
+        const [result] = await executeMessageOperation.call(context, 'sendBulk', 0);
+
+        expect(result.json).toMatchObject({
+          requests: 2,
+          failedRequests: 1,
+          batches: [
+            { success: true, recipients: ['+14155550100'] },
+            { success: false, recipients: ['+14155550101'], errorCodes: ['INVALID_PHONE'] },
+          ],
+        });
+      });
+    });
+
+    it('should reject invalid recipients', async () => {
+      const { context } = createContext({
+        body: 'Hi',
+        recipientSource: 'json',
+        recipientsJson: '{"phone": "+14155550100"}',
+        options: {},
+      });
+
+      await expect(executeMessageOperation.call(context, 'sendBulk', 0)).rejects.toThrow(
+        'Recipients (JSON) must be an array',
+      );
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  normalizeMessageStatus,
+  parseMessageStatus,
+} from '../../nodes/Attentive/utils/messageStatus';
+
+describe('Message Status', () => {
+  describe('parseMessageStatus', () => {
+    it('should map API and webhook statuses', () => {
+      expect(parseMessageStatus('DELIVERED')).toBe('delivered');
+      expect(parseMessageStatus('message.replied')).toBe('replied');
+      expect(parseMessageStatus('UNDELIVERED')).toBe('failed');
+      expect(parseMessageStatus('pending')).toBe('queued');
+      expect(parseMessageStatus('teleported')).toBeUndefined();
+      expect(parseMessageStatus(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('normalizeMessageStatus', () => {
+    it('should normalize a message with an explicit status', () => {
+      expect(
+        normalizeMessageStatus({
+          id: 'msg_1',
+          to: '+19148440001',
+          status: 'FAILED',
+          sentAt: '2024-01-15T10:00:00Z',
+          error: { code: '30003', message: 'Unreachable handset' },
+        }),
+      ).toEqual({
+        messageId: 'msg_1',
+        phone: '+19148440001',
+        messageName: null,
+        externalId: null,
+        status: 'failed',
+        event: 'message.failed',
+        sentAt: '2024-01-15T10:00:00Z',
+        failureReason: 'Unreachable handset',
+        updatedAt: null,
+      });
+    });
+
+    it('should derive the status from the latest lifecycle timestamp', () => {
+      expect(
+        normalizeMessageStatus({
+          messageId: 'msg_2',
+          phone: '+19148440001',
+          messageName: 'welcome',
+          sentAt: '2024-01-15T10:00:00Z',
+          deliveredAt: '2024-01-15T10:00:05Z',
+          clickedAt: '2024-01-15T10:30:00Z',
+        }),
+      ).toMatchObject({
+        status: 'clicked',
+        event: 'message.clicked',
+        messageName: 'welcome',
+        deliveredAt: '2024-01-15T10:00:05Z',
+        clickedAt: '2024-01-15T10:30:00Z',
+      });
+    });
+
+    it('should report statuses without a trigger event', () => {
+      expect(normalizeMessageStatus({ id: 'msg_3', status: 'QUEUED' })).toMatchObject({
+        status: 'queued',
+        event: null,
+      });
+      expect(normalizeMessageStatus({ id: 'msg_4' })).toMatchObject({
+        status: 'unknown',
+        event: null,
+      });
+    });
+  });
+});
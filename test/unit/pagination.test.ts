@@ -0,0 +1,179 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { attentivePaginate } from '../../nodes/Attentive/transport';
+import {
+  detectPaginationStyle,
+  extractItems,
+  getNextCursorQuery,
+  getNextPageQuery,
+  getPaginationMetadata,
+} from '../../nodes/Attentive/transport/pagination';
+
+function createContext(pages: (query: IDataObject) => IDataObject) {
+  const queries: IDataObject[] = [];
+  const context = {
+    getCredentials: async () => ({ apiKey: 'test-key' }),
+    getNode: () => ({
+      name: 'Attentive',
+      credentials: { attentiveApi: { id: 'pagination-test' } },
+    }),
+    getInputData: () => [{ json: {} }],
+    getNodeParameter: (_name: string, _index: number, fallback: unknown) => fallback,
+    helpers: {
+      request: async (options: IDataObject) => {
+        const query = { ...(options.qs as IDataObject) };
+        queries.push(query);
+        return pages(query);
+      },
+    },
+  };
+  return { context: context as unknown as IExecuteFunctions, queries };
+}
+
+const records = (from: number, count: number) =>
+  Array.from({ length: count }, (_, index) => ({ id: String(from + index) }));
+
+describe('Pagination', () => {
+  describe('extractItems', () => {
+    it('should prefer the given data key', () => {
+      expect(extractItems({ segments: [{ id: '1' }], data: [] }, 'segments')).toEqual([
+        { id: '1' },
+      ]);
+    });
+
+    it('should fall back to data and then to the first array', () => {
+      expect(extractItems({ data: [{ id: '1' }] }, 'segments')).toEqual([{ id: '1' }]);
+      expect(extractItems({ members: [{ id: '2' }] }, 'data')).toEqual([{ id: '2' }]);
+      expect(extractItems({ errors: [{ code: 'x' }] })).toEqual([]);
+    });
+  });
+
+  describe('detectPaginationStyle', () => {
+    it('should detect each style', () => {
+      expect(detectPaginationStyle({ nextCursor: 'abc' })).toBe('cursor');
+      expect(detectPaginationStyle({ links: { next: '/v1/segments?cursor=abc' } })).toBe('cursor');
+      expect(detectPaginationStyle({ meta: { page: 1, totalPages: 3 } })).toBe('page');
+      expect(detectPaginationStyle({ meta: { total: 10, offset: 0 } })).toBe('offset');
+      expect(detectPaginationStyle({ data: [] })).toBe('none');
+    });
+  });
+
+  describe('getNextCursorQuery', () => {
+    it('should read cursors and next links', () => {
+      expect(getNextCursorQuery({ meta: { nextCursor: 'abc' } })).toEqual({ cursor: 'abc' });
+      expect(
+        getNextCursorQuery({
+          links: { next: 'https://api.example.com/v1/segments?after=9&limit=2' },
+        }),
+      ).toEqual({ after: '9', limit: '2' });
+      expect(getNextCursorQuery({ links: { next: null } })).toBeUndefined();
+    });
+  });
+
+  describe('getNextPageQuery', () => {
+    it('should advance offsets until the total is reached', () => {
+      expect(getNextPageQuery({ meta: { total: 5 } }, 'offset', { limit: 2 }, 2, 2)).toEqual({
+        limit: 2,
+        offset: 2,
+      });
+      expect(
+        getNextPageQuery({ meta: { total: 4, offset: 2 } }, 'offset', {}, 2, 2),
+      ).toBeUndefined();
+    });
+
+    it('should advance page numbers until the last page', () => {
+      expect(getNextPageQuery({ meta: { page: 1, totalPages: 2 } }, 'page', {}, 2, 2)).toEqual({
+        page: 2,
+      });
+      expect(
+        getNextPageQuery({ meta: { page: 2, totalPages: 2 } }, 'page', {}, 2, 2),
+      ).toBeUndefined();
+    });
+
+    it('should stop on an empty page', () => {
+      expect(getNextPageQuery({ nextCursor: 'abc' }, 'cursor', {}, 0, 2)).toBeUndefined();
+    });
+  });
+
+  describe('attentivePaginate', () => {
+    it('should follow cursors across pages', async () => {
+      const { context, queries } = createContext((query) => {
+        if (!query.cursor) {
+          return { segments: records(0, 2), nextCursor: 'page-2' };
+        }
+        return { segments: records(2, 1), nextCursor: null };
+      });
+
+      const result = await attentivePaginate.call(
+        context,
+        'GET',
+        '/segments',
+        {},
+        {},
+        {
+          dataKey: 'segments',
+          pageSize: 2,
+        },
+      );
+
+      expect(result.items.map((item) => item.id)).toEqual(['0', '1', '2']);
+      expect(result).toMatchObject({ truncated: false, pages: 2, style: 'cursor' });
+      expect(queries[1]).toEqual({ limit: 2, cursor: 'page-2' });
+    });
+
+    it('should keep paging offsets when meta.total is missing', async () => {
+      const { context } = createContext((query) => {
+        const offset = Number(query.offset || 0);
+        return { members: records(offset, offset < 4 ? 2 : 1) };
+      });
+
+      const result = await attentivePaginate.call(
+        context,
+        'GET',
+        '/segments/1/members',
+        {},
+        {},
+        {
+          dataKey: 'members',
+          pageSize: 2,
+        },
+      );
+
+      expect(result.items).toHaveLength(5);
+      expect(result).toMatchObject({ truncated: false, style: 'offset' });
+    });
+
+    it('should respect max items and report truncation', async () => {
+      const { context, queries } = createContext((query) => ({
+        data: records(Number(query.offset || 0), Number(query.limit)),
+        meta: { total: 50, offset: Number(query.offset || 0) },
+      }));
+
+      const result = await attentivePaginate.call(
+        context,
+        'GET',
+        '/journeys',
+        {},
+        {},
+        {
+          dataKey: 'journeys',
+          maxItems: 3,
+        },
+      );
+
+      expect(result.items).toHaveLength(3);
+      expect(result.truncated).toBe(true);
+      expect(queries).toEqual([{ limit: 3 }]);
+      expect(getPaginationMetadata(result)).toEqual({
+        pagination: { truncated: true, returned: 3, pages: 1, style: 'offset' },
+      });
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  buildTriggerPayload,
+  normalizePollEvent,
+  normalizeWebhookBody,
+} from '../../nodes/Attentive/trigger/payload';
+import {
+  IPollEvent,
+  diffJourneyStatuses,
+  diffSegmentMembers,
+  getMessageEvents,
+  getPollStateKey,
+  getSubscriptionEvents,
+  selectNewEvents,
+} from '../../nodes/Attentive/trigger/poll';
+
+const NOW = '2024-03-01T12:00:00.000Z';
+
+const event = (key: string, timestamp: string): IPollEvent => ({
+  key,
+  event: 'message.sent',
+  timestamp,
+  data: {},
+  raw: {},
+});
+
+describe('Poll Trigger', () => {
+  describe('buildTriggerPayload', () => {
+    it('should build the same shape for webhook and polled events', () => {
+      const body = { event: 'message.sent', timestamp: NOW, data: { messageId: 'msg_1' } };
+
+      expect(normalizeWebhookBody(body)).toEqual({
+        event: 'message.sent',
+        timestamp: NOW,
+        data: { messageId: 'msg_1' },
+        raw: body,
+      });
+      expect(buildTriggerPayload('message.sent', { messageId: 'msg_1' }, body, NOW)).toEqual(
+        normalizeWebhookBody(body),
+      );
+    });
+
+    it('should fall back to the body and the current time', () => {
+      const payload = normalizeWebhookBody({ type: 'subscription.created', phone: '+1' });
+
+      expect(payload.event).toBe('subscription.created');
+      expect(payload.data).toEqual({ type: 'subscription.created', phone: '+1' });
+      expect(typeof payload.timestamp).toBe('string');
+    });
+  });
+
+  describe('normalizePollEvent', () => {
+    it('should build the simplified webhook payload of the event', () => {
+      const [created] = getSubscriptionEvents(
+        {
+          id: 'sub_1',
+          phone: '+14155550100',
+          subscriptions: [{ type: 'MARKETING', channel: 'TEXT', status: 'SUBSCRIBED' }],
+        },
+        NOW,
+      );
+
+      expect(normalizePollEvent(created)).toEqual({
+        event: 'subscription.created',
+        eventId: null,
+        timestamp: NOW,
+        subscriberId: 'sub_1',
+        phone: '+14155550100',
+        email: null,
+        subscriptionType: 'MARKETING',
+        channel: 'TEXT',
+        signUpSourceId: null,
+      });
+    });
+
+    it('should keep the details of events only the poll trigger emits', () => {
+      const [changed] = diffJourneyStatuses(
+        { journey_1: 'draft' },
+        [{ id: 'journey_1', name: 'Welcome', status: 'active' }],
+        NOW,
+      ).events;
+
+      expect(normalizePollEvent(changed)).toMatchObject({
+        event: 'journey.status_changed',
+        timestamp: NOW,
+        journeyId: 'journey_1',
+        status: 'active',
+        previousStatus: 'draft',
+      });
+    });
+  });
+
+  describe('getPollStateKey', () => {
+    it('should not depend on the order of the selected events', () => {
+      expect(getPollStateKey('messages', { events: ['message.sent', 'message.failed'] })).toBe(
+        getPollStateKey('messages', { events: ['message.failed', 'message.sent'] }),
+      );
+      expect(getPollStateKey('segmentMembers', { segmentId: 'seg_1' })).not.toBe(
+        getPollStateKey('segmentMembers', { segmentId: 'seg_2' }),
+      );
+    });
+  });
+
+  describe('getSubscriptionEvents', () => {
+    it('should derive one event per subscription status', () => {
+      const events = getSubscriptionEvents(
+        {
+          id: 'user_1',
+          phone: '+19148440001',
+          subscriptions: [
+            { type: 'MARKETING', channel: 'TEXT', status: 'SUBSCRIBED', subscribedAt: NOW },
+            {
+              type: 'TRANSACTIONAL',
+              channel: 'TEXT',
+              status: 'UNSUBSCRIBED',
+              unsubscribedAt: '2024-03-02T00:00:00Z',
+            },
+            { type: 'MARKETING', channel: 'EMAIL', status: 'PENDING' },
+          ],
+        },
+        NOW,
+      );
+
+      expect(events.map(({ event, timestamp }) => [event, timestamp])).toEqual([
+        ['subscription.created', NOW],
+        ['subscription.opted_out', '2024-03-02T00:00:00.000Z'],
+      ]);
+      expect(events[0].data).toEqual({
+        subscriberId: 'user_1',
+        phone: '+19148440001',
+        email: null,
+        type: 'MARKETING',
+        channel: 'TEXT',
+        status: 'SUBSCRIBED',
+      });
+    });
+  });
+
+  describe('getMessageEvents', () => {
+    it('should derive the event of the current status', () => {
+      const [delivered] = getMessageEvents(
+        { id: 'msg_1', status: 'DELIVERED', deliveredAt: NOW },
+        '2024-03-05T00:00:00.000Z',
+      );
+
+      expect(delivered).toMatchObject({ key: 'msg_1:delivered', event: 'message.delivered' });
+      expect(delivered.timestamp).toBe(NOW);
+    });
+
+    it('should skip statuses without a trigger event', () => {
+      expect(getMessageEvents({ id: 'msg_1', status: 'QUEUED' }, NOW)).toEqual([]);
+    });
+  });
+
+  describe('selectNewEvents', () => {
+    it('should keep events after the watermark, oldest first', () => {
+      const result = selectNewEvents(
+        [
+          event('b', '2024-03-01T12:00:02.000Z'),
+          event('old', '2024-03-01T11:00:00.000Z'),
+          event('a', '2024-03-01T12:00:01.000Z'),
+        ],
+        { watermark: NOW },
+      );
+
+      expect(result.events.map(({ key }) => key)).toEqual(['a', 'b']);
+      expect(result.watermark).toBe('2024-03-01T12:00:02.000Z');
+      expect(result.seen).toEqual(['b']);
+    });
+
+    it('should drop events at the watermark that were already emitted', () => {
+      const result = selectNewEvents([event('a', NOW), event('b', NOW)], {
+        watermark: NOW,
+        seen: ['a'],
+      });
+
+      expect(result.events.map(({ key }) => key)).toEqual(['b']);
+      expect(result.watermark).toBe(NOW);
+      expect(result.seen).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('diffSegmentMembers', () => {
+    it('should report added and removed members', () => {
+      const { events, snapshot } = diffSegmentMembers(
+        ['user_1', 'user_2'],
+        [{ id: 'user_2' }, { phone: '+19148440001' }],
+        'seg_1',
+        NOW,
+      );
+
+      expect(events.map(({ event, data }) => [event, data.memberId])).toEqual([
+        ['segment.member_added', '+19148440001'],
+        ['segment.member_removed', 'user_1'],
+      ]);
+      expect(snapshot).toEqual({ members: ['user_2', '+19148440001'] });
+    });
+  });
+
+  describe('diffJourneyStatuses', () => {
+    it('should report journeys whose status changed', () => {
+      const { events, snapshot } = diffJourneyStatuses(
+        { journey_1: 'active', journey_2: 'draft' },
+        [
+          { id: 'journey_1', status: 'active' },
+          { id: 'journey_2', name: 'Welcome', status: 'paused' },
+        ],
+        NOW,
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0].data).toEqual({
+        journeyId: 'journey_2',
+        name: 'Welcome',
+        status: 'paused',
+        previousStatus: 'draft',
+      });
+      expect(snapshot).toEqual({ journey_1: 'active', journey_2: 'paused' });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  formatLocalTime,
+  getNextAllowedTime,
+  getPhoneTimezone,
+  isValidTimezone,
+  parseTimeOfDay,
+  resolveRecipientTimezone,
+} from '../../nodes/Attentive/utils/quietHours';
+
+describe('Quiet Hours', () => {
+  describe('getPhoneTimezone', () => {
+    it('should resolve North American numbers by area code', () => {
+      expect(getPhoneTimezone('+14155550100')).toEqual({
+        country: 'US',
+        timezone: 'America/Los_Angeles',
+      });
+      expect(getPhoneTimezone('+13125550100')).toEqual({
+        country: 'US',
+        timezone: 'America/Chicago',
+      });
+      expect(getPhoneTimezone('+16045550100')).toEqual({
+        country: 'CA',
+        timezone: 'America/Los_Angeles',
+      });
+      expect(getPhoneTimezone('+12125550100')).toEqual({
+        country: 'US',
+        timezone: 'America/New_York',
+      });
+    });
+
+    it('should resolve other countries by country code', () => {
+      expect(getPhoneTimezone('+447911123456')).toEqual({
+        country: 'GB',
+        timezone: 'Europe/London',
+      });
+      expect(getPhoneTimezone('+353851234567')).toEqual({
+        country: 'IE',
+        timezone: 'Europe/Dublin',
+      });
+      expect(getPhoneTimezone('+999123')).toBeUndefined();
+    });
+  });
+
+  describe('resolveRecipientTimezone', () => {
+    it('should prefer a valid timezone attribute', () => {
+      expect(resolveRecipientTimezone('+12125550100', 'America/Denver')).toEqual({
+        timezone: 'America/Denver',
+        country: 'US',
+        source: 'attribute',
+      });
+      expect(resolveRecipientTimezone('+12125550100', 'Mars/Olympus').source).toBe('phone');
+    });
+
+    it('should fall back to the default timezone', () => {
+      expect(resolveRecipientTimezone('+999123', undefined, 'Europe/Paris')).toEqual({
+        timezone: 'Europe/Paris',
+        source: 'default',
+      });
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('should parse HH:mm', () => {
+      expect(parseTimeOfDay('08:30')).toBe(510);
+      expect(parseTimeOfDay('9:00')).toBe(540);
+      expect(() => parseTimeOfDay('8am')).toThrow('Invalid time of day');
+    });
+  });
+
+  describe('getNextAllowedTime', () => {
+    it('should allow sending inside the window', () => {
+      // 20:00 in Los Angeles
+      const now = new Date('2024-01-16T04:00:00Z');
+      expect(getNextAllowedTime(now, 'America/Los_Angeles')).toBe(now);
+    });
+
+    it('should defer to the next morning after the window closed', () => {
+      // 22:00 in Los Angeles
+      const now = new Date('2024-01-16T06:00:00Z');
+      expect(getNextAllowedTime(now, 'America/Los_Angeles').toISOString()).toBe(
+        '2024-01-16T16:00:00.000Z',
+      );
+    });
+
+    it('should defer to the same morning before the window opens', () => {
+      // 01:00 in New York
+      const now = new Date('2024-01-16T06:00:00Z');
+      expect(getNextAllowedTime(now, 'America/New_York').toISOString()).toBe(
+        '2024-01-16T13:00:00.000Z',
+      );
+    });
+
+    it('should account for daylight saving time changes', () => {
+      // 01:00 EST, clocks move to EDT at 02:00
+      const now = new Date('2024-03-10T06:00:00Z');
+      expect(getNextAllowedTime(now, 'America/New_York').toISOString()).toBe(
+        '2024-03-10T12:00:00.000Z',
+      );
+    });
+
+    it('should use custom windows', () => {
+      // 10:30 in London
+      const now = new Date('2024-01-16T10:30:00Z');
+      expect(
+        getNextAllowedTime(now, 'Europe/London', { start: '11:00', end: '20:00' }).toISOString(),
+      ).toBe('2024-01-16T11:00:00.000Z');
+      expect(getNextAllowedTime(now, 'Europe/London', { start: '22:00', end: '11:00' })).toBe(now);
+    });
+  });
+
+  describe('formatLocalTime', () => {
+    it('should format the wall clock time', () => {
+      expect(formatLocalTime(new Date('2024-01-16T06:00:00Z'), 'America/Los_Angeles')).toBe(
+        '2024-01-15 22:00',
+      );
+    });
+  });
+
+  describe('isValidTimezone', () => {
+    it('should validate IANA names', () => {
+      expect(isValidTimezone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  DEFAULT_REQUESTS_PER_SECOND,
+  TokenBucket,
+  consumeLimiterStats,
+  getEndpointClass,
+  getRateLimiter,
+  getRequestsPerSecond,
+  recordLimiterStats,
+} from '../../nodes/Attentive/transport/rateLimiter';
+
+describe('Rate Limiter', () => {
+  describe('getEndpointClass', () => {
+    it('should classify endpoints', () => {
+      expect(getEndpointClass('/messages/send')).toBe('messages');
+      expect(getEndpointClass('/events/custom')).toBe('events');
+      expect(getEndpointClass('/subscriptions/unsubscribe')).toBe('subscriptions');
+      expect(getEndpointClass('/subscribers')).toBe('subscriptions');
+      expect(getEndpointClass('/attributes/custom')).toBe('attributes');
+      expect(getEndpointClass('/segments/123')).toBe('management');
+    });
+  });
+
+  describe('getRequestsPerSecond', () => {
+    it('should fall back to the default budget', () => {
+      expect(getRequestsPerSecond({}, 'messages')).toBe(DEFAULT_REQUESTS_PER_SECOND.messages);
+    });
+
+    it('should use a configured budget', () => {
+      const requestOptions = {
+        rateLimits: { limit: [{ endpointClass: 'events', requestsPerSecond: 3 }] },
+      };
+      expect(getRequestsPerSecond(requestOptions, 'events')).toBe(3);
+      expect(getRequestsPerSecond(requestOptions, 'messages')).toBe(
+        DEFAULT_REQUESTS_PER_SECOND.messages,
+      );
+    });
+  });
+
+  describe('TokenBucket', () => {
+    it('should grant tokens immediately up to capacity', async () => {
+      const bucket = new TokenBucket(5);
+      for (let i = 0; i < 5; i++) {
+        expect(await bucket.acquire()).toEqual({ waitMs: 0, queueDepth: 0 });
+      }
+    });
+
+    it('should queue requests over budget instead of failing', async () => {
+      const bucket = new TokenBucket(20);
+      const results = await Promise.all(Array.from({ length: 22 }, () => bucket.acquire()));
+      const queued = results.filter((result) => result.queueDepth > 0);
+
+      expect(queued).toHaveLength(2);
+      expect(Math.max(...queued.map((result) => result.waitMs))).toBeGreaterThan(0);
+      expect(bucket.queueDepth).toBe(0);
+    });
+  });
+
+  describe('getRateLimiter', () => {
+    it('should share buckets per credential and endpoint class', () => {
+      const first = getRateLimiter('credential-1', 'messages', 10);
+      expect(getRateLimiter('credential-1', 'messages', 10)).toBe(first);
+      expect(getRateLimiter('credential-2', 'messages', 10)).not.toBe(first);
+      expect(getRateLimiter('credential-1', 'events', 10)).not.toBe(first);
+    });
+  });
+
+  describe('limiter stats', () => {
+    it('should aggregate and reset stats per context', () => {
+      const context = {};
+      recordLimiterStats(context, 'messages', { waitMs: 0, queueDepth: 0 });
+      recordLimiterStats(context, 'events', { waitMs: 120, queueDepth: 3 });
+
+      expect(consumeLimiterStats(context)).toEqual({
+        requests: 2,
+        totalWaitMs: 120,
+        maxWaitMs: 120,
+        maxQueueDepth: 3,
+        endpointClasses: ['messages', 'events'],
+      });
+      expect(consumeLimiterStats(context)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+
+import { AttentiveValidationError } from '../../nodes/Attentive/transport';
+import {
+  buildResourceLocator,
+  buildVersionedResourceLocator,
+  getResourceId,
+} from '../../nodes/Attentive/methods';
+
+function createContext(value: unknown, status = 200) {
+  const requests: IDataObject[] = [];
+  const context = {
+    getCredentials: async () => ({ apiKey: 'test-key' }),
+    getNode: () => ({ name: 'Attentive', credentials: { attentiveApi: { id: 'locator-test' } } }),
+    getInputData: () => [{ json: {} }],
+    getNodeParameter: (name: string, _index: number, fallback: unknown) =>
+      name === 'segmentId' ? value : fallback,
+    helpers: {
+      request: async (options: IDataObject) => {
+        requests.push(options);
+        if (status !== 200) {
+          throw { statusCode: status, error: { message: 'Segment not found' } };
+        }
+        return { id: 'seg_1' };
+      },
+    },
+  };
+  return { context: context as unknown as IExecuteFunctions, requests };
+}
+
+describe('Resource Locator', () => {
+  describe('buildResourceLocator', () => {
+    const field = buildResourceLocator('segment', { displayName: 'Segment', name: 'segmentId' });
+    const urlMode = field.modes?.find((mode) => mode.name === 'url');
+
+    it('should offer list, ID and URL modes', () => {
+      expect(field.modes?.map((mode) => mode.name)).toEqual(['list', 'id', 'url']);
+      expect(field.modes?.[0].typeOptions?.searchListMethod).toBe('searchSegments');
+    });
+
+    it('should extract the ID from Attentive UI URLs', () => {
+      const regex = new RegExp((urlMode?.extractValue as { regex: string }).regex);
+
+      expect('https://ui.attentivemobile.com/segments/12345'.match(regex)?.[1]).toBe('12345');
+      expect(
+        'https://ui.attentivemobile.com/subscribers/segments/678?tab=members'.match(regex)?.[1],
+      ).toBe('678');
+      expect('https://ui.attentivemobile.com/journeys/12345'.match(regex)).toBeNull();
+    });
+  });
+
+  describe('buildVersionedResourceLocator', () => {
+    it('should keep a plain ID field for version 1 nodes', () => {
+      const [legacy, locator] = buildVersionedResourceLocator(
+        'segment',
+        {
+          displayName: 'Segment',
+          name: 'segmentId',
+          displayOptions: { show: { resource: ['segment'] } },
+        },
+        { displayName: 'Segment ID', description: 'The ID of the segment' },
+      );
+
+      expect(legacy).toMatchObject({ name: 'segmentId', type: 'string', default: '' });
+      expect(legacy.displayOptions?.show).toEqual({ resource: ['segment'], '@version': [1] });
+      expect(locator.type).toBe('resourceLocator');
+      expect(locator.displayOptions?.show).toEqual({
+        resource: ['segment'],
+        '@version': [{ _cnd: { gte: 1.1 } }],
+      });
+    });
+  });
+
+  describe('getResourceId', () => {
+    it('should return the ID without a request unless validation is asked for', async () => {
+      const { context, requests } = createContext(' seg_1 ');
+
+      expect(await getResourceId.call(context, 'segmentId', 'segment', 0)).toBe('seg_1');
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should validate each ID once per execution', async () => {
+      const { context, requests } = createContext('seg_1');
+
+      await getResourceId.call(context, 'segmentId', 'segment', 0, true);
+      await getResourceId.call(context, 'segmentId', 'segment', 1, true);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].uri).toBe('https://api.attentivemobile.com/v1/segments/seg_1');
+    });
+
+    it('should explain IDs that do not exist', async () => {
+      const { context } = createContext('missing', 404);
+
+      const error = await getResourceId
+        .call(context, 'segmentId', 'segment', 0, true)
+        .catch((caught: Error) => caught);
+
+      expect(error).toBeInstanceOf(AttentiveValidationError);
+      expect((error as Error).message).toBe('Segment "missing" does not exist');
+    });
+
+    it('should reject empty selections', async () => {
+      const { context } = createContext({ mode: 'list', value: '' });
+
+      await expect(getResourceId.call(context, 'segmentId', 'segment', 0)).rejects.toThrow(
+        'No segment selected',
+      );
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  DEFAULT_RETRY_OPTIONS,
+  computeBackoffMs,
+  getErrorStatusCode,
+  getRetryAfterMs,
+  getRetryDelayMs,
+  isRetryableError,
+  resolveRetryOptions,
+} from '../../nodes/Attentive/transport/retry';
+
+describe('Retry Helpers', () => {
+  describe('resolveRetryOptions', () => {
+    it('should return defaults when no options are set', () => {
+      expect(resolveRetryOptions({})).toEqual(DEFAULT_RETRY_OPTIONS);
+    });
+
+    it('should apply max attempts and max total wait', () => {
+      const options = resolveRetryOptions({ maxAttempts: 5, maxTotalWait: 10 });
+      expect(options.maxAttempts).toBe(5);
+      expect(options.maxTotalWaitMs).toBe(10000);
+    });
+
+    it('should never allow fewer than one attempt', () => {
+      expect(resolveRetryOptions({ maxAttempts: 0 }).maxAttempts).toBe(1);
+    });
+  });
+
+  describe('getErrorStatusCode', () => {
+    it('should read the status from the error or its response', () => {
+      expect(getErrorStatusCode({ statusCode: 429 })).toBe(429);
+      expect(getErrorStatusCode({ response: { status: 503 } })).toBe(503);
+      expect(getErrorStatusCode({ message: 'ECONNRESET' })).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry 429 and 503 for every method', () => {
+      expect(isRetryableError({ statusCode: 429 }, 'POST')).toBe(true);
+      expect(isRetryableError({ statusCode: 503 }, 'POST')).toBe(true);
+    });
+
+    it('should retry other server errors only for idempotent methods', () => {
+      expect(isRetryableError({ statusCode: 500 }, 'GET')).toBe(true);
+      expect(isRetryableError({ statusCode: 500 }, 'POST')).toBe(false);
+      expect(isRetryableError({ statusCode: 500 }, 'POST', true)).toBe(true);
+    });
+
+    it('should retry network errors only for idempotent methods', () => {
+      expect(isRetryableError({ code: 'ECONNRESET' }, 'DELETE')).toBe(true);
+      expect(isRetryableError({ code: 'ECONNRESET' }, 'PATCH')).toBe(false);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryableError({ statusCode: 400 }, 'GET')).toBe(false);
+      expect(isRetryableError({ statusCode: 404 }, 'GET')).toBe(false);
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('should parse delay seconds', () => {
+      expect(getRetryAfterMs({ response: { headers: { 'retry-after': '2' } } })).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('2024-01-15T10:00:00Z');
+      const error = { response: { headers: { 'Retry-After': 'Mon, 15 Jan 2024 10:00:05 GMT' } } };
+      expect(getRetryAfterMs(error, now)).toBe(5000);
+    });
+
+    it('should ignore missing or invalid headers', () => {
+      expect(getRetryAfterMs({})).toBeUndefined();
+      expect(getRetryAfterMs({ response: { headers: { 'retry-after': 'soon' } } })).toBeUndefined();
+    });
+  });
+
+  describe('computeBackoffMs', () => {
+    it('should grow exponentially up to the max delay', () => {
+      const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 100, maxDelayMs: 1000 };
+      expect(computeBackoffMs(1, options, () => 1)).toBe(100);
+      expect(computeBackoffMs(3, options, () => 1)).toBe(400);
+      expect(computeBackoffMs(10, options, () => 1)).toBe(1000);
+    });
+
+    it('should apply jitter', () => {
+      const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 100 };
+      expect(computeBackoffMs(2, options, () => 0.5)).toBe(100);
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should prefer Retry-After over backoff', () => {
+      const error = { statusCode: 429, response: { headers: { 'retry-after': '3' } } };
+      expect(getRetryDelayMs(error, 1, DEFAULT_RETRY_OPTIONS)).toBe(3000);
+    });
+  });
+});
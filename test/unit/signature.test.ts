@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { AttentiveTrigger } from '../../nodes/Attentive/AttentiveTrigger.node';
+import {
+  computeSignature,
+  isTimestampWithinTolerance,
+  parseEventTime,
+  parseSecrets,
+  verifySignature,
+} from '../../nodes/Attentive/utils/signature';
+
+describe('Webhook Signature', () => {
+  const payload = '{"type":"message.delivered","timestamp":"2024-01-15T10:00:00Z"}';
+
+  describe('computeSignature', () => {
+    it('should compute a hex HMAC-SHA256 digest', () => {
+      expect(computeSignature('secret', payload)).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('parseSecrets', () => {
+    it('should combine primary and additional secrets', () => {
+      expect(parseSecrets('new', 'old, older\nnew')).toEqual(['new', 'old', 'older']);
+    });
+
+    it('should ignore empty values', () => {
+      expect(parseSecrets('', ' , ')).toEqual([]);
+    });
+  });
+
+  describe('verifySignature', () => {
+    it('should accept a valid signature', () => {
+      const signature = computeSignature('secret', payload);
+      expect(verifySignature(payload, signature, ['secret'])).toBe(true);
+    });
+
+    it('should accept prefixed and base64 signatures', () => {
+      const hex = computeSignature('secret', payload);
+      const base64 = Buffer.from(hex, 'hex').toString('base64');
+      expect(verifySignature(payload, `sha256=${hex}`, ['secret'])).toBe(true);
+      expect(verifySignature(payload, base64, ['secret'])).toBe(true);
+    });
+
+    it('should accept any active secret during rotation', () => {
+      const signature = computeSignature('old', payload);
+      expect(verifySignature(payload, signature, ['new', 'old'])).toBe(true);
+    });
+
+    it('should reject a signature for a different payload or secret', () => {
+      const signature = computeSignature('secret', payload);
+      expect(verifySignature(`${payload} `, signature, ['secret'])).toBe(false);
+      expect(verifySignature(payload, signature, ['other'])).toBe(false);
+      expect(verifySignature(payload, 'garbage', ['secret'])).toBe(false);
+    });
+  });
+
+  describe('parseEventTime', () => {
+    it('should parse ISO strings and Unix seconds or milliseconds', () => {
+      const time = Date.parse('2024-01-15T10:00:00Z');
+
+      expect(parseEventTime('2024-01-15T10:00:00Z')).toBe(time);
+      expect(parseEventTime(time / 1000)).toBe(time);
+      expect(parseEventTime(String(time))).toBe(time);
+      expect(parseEventTime('')).toBeUndefined();
+      expect(parseEventTime('yesterday')).toBeUndefined();
+    });
+  });
+
+  describe('isTimestampWithinTolerance', () => {
+    const now = Date.parse('2024-01-15T10:00:00Z');
+
+    it('should accept ISO and Unix timestamps within tolerance', () => {
+      expect(isTimestampWithinTolerance('2024-01-15T09:58:00Z', 300, now)).toBe(true);
+      expect(isTimestampWithinTolerance(now / 1000 - 60, 300, now)).toBe(true);
+      expect(isTimestampWithinTolerance(String(now - 60000), 300, now)).toBe(true);
+    });
+
+    it('should reject old, missing or invalid timestamps', () => {
+      expect(isTimestampWithinTolerance('2024-01-15T09:00:00Z', 300, now)).toBe(false);
+      expect(isTimestampWithinTolerance(undefined, 300, now)).toBe(false);
+      expect(isTimestampWithinTolerance('yesterday', 300, now)).toBe(false);
+    });
+  });
+
+  describe('AttentiveTrigger webhook', () => {
+    const trigger = new AttentiveTrigger();
+    const secret = 'whsec_test';
+
+    const receive = (body: IDataObject) => {
+      const rawBody = JSON.stringify(body);
+      const context = {
+        getBodyData: () => body,
+        getHeaderData: () => ({ 'x-attentive-signature': computeSignature(secret, rawBody) }),
+        getNode: () => ({ typeVersion: 1.1 }),
+        getNodeParameter: (name: string, fallback: unknown) =>
+          name === 'options' ? { secret } : fallback,
+        getRequestObject: () => ({ rawBody: Buffer.from(rawBody) }),
+        getWorkflowStaticData: () => ({}),
+      } as unknown as IWebhookFunctions;
+      return trigger.webhook.call(context);
+    };
+
+    it('should accept signed deliveries without a timestamp', async () => {
+      const response = await receive({ event: 'message.delivered', data: { messageId: 'msg_1' } });
+
+      expect(response.webhookResponse).toBeUndefined();
+      expect(response.workflowData?.[0]).toHaveLength(1);
+    });
+
+    it('should reject signed deliveries with a timestamp outside the tolerance', async () => {
+      expect(
+        await receive({ event: 'message.delivered', timestamp: '2024-01-15T09:00:00Z' }),
+      ).toEqual({ webhookResponse: { status: 401, body: 'Timestamp outside tolerance' } });
+    });
+  });
+});
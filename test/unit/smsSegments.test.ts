@@ -0,0 +1,104 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  calculateSegments,
+  expandShortLinks,
+  getMmsLengthMessage,
+  getSegmentLimitMessage,
+  SHORT_LINK_LENGTH,
+} from '../../nodes/Attentive/utils/smsSegments';
+
+describe('SMS Segments', () => {
+  describe('calculateSegments', () => {
+    it('should fit 160 GSM-7 characters in one segment', () => {
+      expect(calculateSegments('a'.repeat(160))).toMatchObject({
+        channel: 'SMS',
+        encoding: 'GSM-7',
+        units: 160,
+        segments: 1,
+        perSegmentLength: 160,
+      });
+    });
+
+    it('should use 153 character segments for longer GSM-7 messages', () => {
+      expect(calculateSegments('a'.repeat(161))).toMatchObject({
+        segments: 2,
+        perSegmentLength: 153,
+      });
+    });
+
+    it('should count extended characters twice', () => {
+      expect(calculateSegments('Price: 10€ {promo}')).toMatchObject({
+        encoding: 'GSM-7',
+        characters: 18,
+        extendedCharacters: 3,
+        units: 21,
+      });
+      expect(calculateSegments('€'.repeat(81)).segments).toBe(2);
+    });
+
+    it('should switch to UCS-2 for non GSM-7 characters', () => {
+      const info = calculateSegments(`${'a'.repeat(70)}🎉`);
+      expect(info).toMatchObject({
+        encoding: 'UCS-2',
+        unicodeCharacters: ['🎉'],
+        units: 72,
+        segments: 2,
+        perSegmentLength: 67,
+      });
+    });
+
+    it('should account for short links', () => {
+      const body = 'Shop now https://example.com/collections/summer-sale?utm_source=sms';
+      const info = calculateSegments(body, { useShortLinks: true });
+      expect(info.shortLinks).toBe(1);
+      expect(info.units).toBe('Shop now '.length + SHORT_LINK_LENGTH);
+    });
+
+    it('should send messages with media as a single MMS', () => {
+      expect(
+        calculateSegments('a'.repeat(500), { mediaUrl: 'https://example.com/a.jpg' }),
+      ).toMatchObject({ channel: 'MMS', segments: 1 });
+    });
+
+    it('should handle empty bodies', () => {
+      expect(calculateSegments('').segments).toBe(0);
+    });
+  });
+
+  describe('expandShortLinks', () => {
+    it('should replace every URL', () => {
+      const { body, shortLinks } = expandShortLinks('a http://x.co b https://y.co/z');
+      expect(shortLinks).toBe(2);
+      expect(body).toBe(`a ${'x'.repeat(SHORT_LINK_LENGTH)} b ${'x'.repeat(SHORT_LINK_LENGTH)}`);
+    });
+  });
+
+  describe('getSegmentLimitMessage', () => {
+    it('should describe messages over the limit', () => {
+      expect(getSegmentLimitMessage(calculateSegments('a'.repeat(161)), 1)).toBe(
+        'Message needs 2 GSM-7 segments, the limit is 1',
+      );
+      expect(getSegmentLimitMessage(calculateSegments(`${'a'.repeat(70)}ü😀`), 1)).toContain(
+        'non GSM-7 characters: 😀',
+      );
+    });
+
+    it('should accept messages within the limit or without a limit', () => {
+      expect(getSegmentLimitMessage(calculateSegments('a'.repeat(161)), 2)).toBeUndefined();
+      expect(getSegmentLimitMessage(calculateSegments('a'.repeat(500)), 0)).toBeUndefined();
+    });
+
+    it('should enforce the MMS length limit only with a segment limit', () => {
+      const info = calculateSegments('a'.repeat(1601), { mediaUrl: 'https://example.com/a.jpg' });
+      expect(getSegmentLimitMessage(info, 1)).toContain('MMS limit is 1600');
+      expect(getSegmentLimitMessage(info, 0)).toBeUndefined();
+      expect(getMmsLengthMessage(info)).toContain('MMS limit is 1600');
+    });
+  });
+});
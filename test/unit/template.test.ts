@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { formatCurrency, formatDate, renderTemplate } from '../../nodes/Attentive/utils/template';
+
+describe('Message Templates', () => {
+  const data = {
+    firstName: 'jane',
+    vip: true,
+    order: { total: 1234.5, placedAt: '2024-01-15T10:30:00Z' },
+  };
+
+  describe('renderTemplate', () => {
+    it('should replace placeholders, including nested paths', () => {
+      expect(renderTemplate('Hi {{firstName}}, you spent {{ order.total }}', data).text).toBe(
+        'Hi jane, you spent 1234.5',
+      );
+    });
+
+    it('should apply filters in order', () => {
+      expect(renderTemplate('{{firstName | capitalize}} {{firstName | upper}}', data).text).toBe(
+        'Jane JANE',
+      );
+      expect(renderTemplate('{{ order.total | currency: "GBP", "en-GB" }}', data).text).toBe(
+        '£1,234.50',
+      );
+      expect(renderTemplate('{{order.placedAt | date: "MMM D, YYYY"}}', data).text).toBe(
+        'Jan 15, 2024',
+      );
+    });
+
+    it('should use defaults for missing values', () => {
+      const result = renderTemplate('Hi {{lastName | default: "there" | upper}}!', data);
+      expect(result.text).toBe('Hi THERE!');
+      expect(result.missing).toEqual([]);
+    });
+
+    it('should report missing variables', () => {
+      const result = renderTemplate('Hi {{lastName}}{{#if coupon}} {{coupon}}{{/if}}', data);
+      expect(result.text).toBe('Hi ');
+      expect(result.variables).toEqual(['lastName', 'coupon']);
+      expect(result.missing).toEqual(['lastName']);
+    });
+
+    it('should render conditional blocks', () => {
+      const template = '{{#if vip}}VIP {{firstName}}{{else}}Guest{{/if}}{{#if not coupon}}!{{/if}}';
+      expect(renderTemplate(template, data).text).toBe('VIP jane!');
+      expect(renderTemplate(template, { coupon: 'SAVE10' }).text).toBe('Guest');
+    });
+
+    it('should throw on invalid templates', () => {
+      expect(() => renderTemplate('{{#if vip}}VIP', data)).toThrow('Missing {{/if}}');
+      expect(() => renderTemplate('{{else}}', data)).toThrow('Unexpected {{else}}');
+      expect(() => renderTemplate('{{firstName | reverse}}', data)).toThrow(
+        'Unknown template filter "reverse"',
+      );
+    });
+  });
+
+  describe('formatDate', () => {
+    it('should accept ISO strings and Unix timestamps', () => {
+      expect(formatDate('2024-01-15T10:30:00Z', 'DD/MM/YY HH:mm')).toBe('15/01/24 10:30');
+      expect(formatDate(1705314600)).toBe('2024-01-15');
+      expect(() => formatDate('soon')).toThrow('Invalid date');
+    });
+  });
+
+  describe('formatCurrency', () => {
+    it('should default to US dollars', () => {
+      expect(formatCurrency('19.9')).toBe('$19.90');
+      expect(() => formatCurrency('free')).toThrow('Invalid amount');
+    });
+  });
+});
@@ -5,6 +5,8 @@
  * See LICENSE file for details.
  */
 
+import { IExecuteFunctions } from 'n8n-workflow';
+
 import {
   formatPhoneNumber,
   isValidE164,
@@ -12,8 +14,20 @@ import {
   parseCustomAttributes,
   parseProductItems,
   getTimestamp,
+  getValueByPath,
+  chunkArray,
+  runWithConcurrency,
+  isValidEmail,
+  buildUserIdentifier,
+  buildUserIdentifierQuery,
+  diffSubscriberFields,
+  extractSubscriber,
 } from '../../nodes/Attentive/utils';
 
+const executeFunctions = {
+  getNode: () => ({ name: 'Attentive' }),
+} as unknown as IExecuteFunctions;
+
 describe('Utility Functions', () => {
   describe('formatPhoneNumber', () => {
     it('should add + prefix to digits only', () => {
@@ -204,4 +218,134 @@ describe('Utility Functions', () => {
       expect(result).toMatch(/2024-01-15/);
     });
   });
+
+  describe('getValueByPath', () => {
+    it('should read nested values', () => {
+      const input = { customer: { phone: '+19148440001', tags: ['vip'] } };
+      expect(getValueByPath(input, 'customer.phone')).toBe('+19148440001');
+      expect(getValueByPath(input, 'customer.tags.0')).toBe('vip');
+    });
+
+    it('should return undefined for missing paths', () => {
+      expect(getValueByPath({ a: 'value' }, 'a.b')).toBeUndefined();
+      expect(getValueByPath({ a: 'value' }, '')).toBeUndefined();
+    });
+  });
+
+  describe('chunkArray', () => {
+    it('should split items into chunks', () => {
+      expect(chunkArray([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+      expect(chunkArray([], 2)).toEqual([]);
+    });
+  });
+
+  describe('runWithConcurrency', () => {
+    it('should keep results in input order and limit parallel calls', async () => {
+      let active = 0;
+      let maxActive = 0;
+
+      const results = await runWithConcurrency([30, 10, 20, 5], 2, async (delay, index) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        active--;
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3]);
+      expect(maxActive).toBe(2);
+    });
+  });
+
+  describe('isValidEmail', () => {
+    it('should validate email addresses', () => {
+      expect(isValidEmail('name@email.com')).toBe(true);
+      expect(isValidEmail('name@email')).toBe(false);
+      expect(isValidEmail('name email@x.com')).toBe(false);
+    });
+  });
+
+  describe('buildUserIdentifier', () => {
+    it('should build the user object for each identifier type', () => {
+      expect(buildUserIdentifier('phone', '1-914-844-0001', executeFunctions)).toEqual({
+        phone: '+19148440001',
+      });
+      expect(buildUserIdentifier('email', ' Name@Email.com ', executeFunctions)).toEqual({
+        email: 'name@email.com',
+      });
+      expect(buildUserIdentifier('subscriberId', '12345', executeFunctions)).toEqual({
+        id: '12345',
+      });
+      expect(buildUserIdentifier('clientUserId', 'crm-42', executeFunctions)).toEqual({
+        externalIdentifiers: { clientUserId: 'crm-42' },
+      });
+    });
+
+    it('should reject invalid identifiers', () => {
+      expect(() => buildUserIdentifier('phone', 'phone', executeFunctions)).toThrow(
+        'Invalid phone number format',
+      );
+      expect(() => buildUserIdentifier('email', 'nope', executeFunctions)).toThrow(
+        'Invalid email address',
+      );
+      expect(() => buildUserIdentifier('subscriberId', 'a b', executeFunctions)).toThrow(
+        'Invalid subscriber ID',
+      );
+      expect(() => buildUserIdentifier('clientUserId', ' ', executeFunctions)).toThrow(
+        'must not be empty',
+      );
+    });
+  });
+
+  describe('buildUserIdentifierQuery', () => {
+    it('should convert user objects into lookup queries', () => {
+      expect(buildUserIdentifierQuery({ email: 'name@email.com' })).toEqual({
+        email: 'name@email.com',
+      });
+      expect(buildUserIdentifierQuery({ externalIdentifiers: { clientUserId: 'crm-42' } })).toEqual(
+        { clientUserId: 'crm-42' },
+      );
+    });
+  });
+
+  describe('extractSubscriber', () => {
+    it('should find the subscriber record', () => {
+      expect(extractSubscriber({ subscriber: { id: '1' } })).toEqual({ id: '1' });
+      expect(extractSubscriber({ data: [{ id: '2' }] })).toEqual({ id: '2' });
+      expect(extractSubscriber({ phone: '+19148440001' })).toEqual({ phone: '+19148440001' });
+    });
+
+    it('should return undefined when the subscriber does not exist', () => {
+      expect(extractSubscriber({ data: [] })).toBeUndefined();
+      expect(extractSubscriber({})).toBeUndefined();
+    });
+  });
+
+  describe('diffSubscriberFields', () => {
+    const existing = {
+      email: 'old@email.com',
+      locale: 'en-US',
+      customAttributes: { firstName: 'John', tier: 'gold' },
+    };
+
+    it('should report only changed fields', () => {
+      expect(
+        diffSubscriberFields(existing, {
+          email: 'OLD@email.com',
+          locale: 'fr-FR',
+          customAttributes: { firstName: 'John', tier: 'platinum', city: 'Paris' },
+        }),
+      ).toEqual({
+        locale: { from: 'en-US', to: 'fr-FR' },
+        'customAttributes.tier': { from: 'gold', to: 'platinum' },
+        'customAttributes.city': { from: null, to: 'Paris' },
+      });
+    });
+
+    it('should return no changes when everything matches', () => {
+      expect(
+        diffSubscriberFields(existing, { email: '', customAttributes: { firstName: 'John' } }),
+      ).toEqual({});
+    });
+  });
 });
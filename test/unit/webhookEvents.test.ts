@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { INode } from 'n8n-workflow';
+
+import {
+  buildSampleWebhookBody,
+  expandWebhookEvents,
+  getWebhookEventDefinition,
+  getWebhookEventOptions,
+} from '../../nodes/Attentive/trigger/events';
+import { normalizeWebhookEvent } from '../../nodes/Attentive/trigger/payload';
+import {
+  WEBHOOK_EVENT_CATEGORIES,
+  WEBHOOK_EVENT_REGISTRY,
+  WEBHOOK_EVENTS,
+} from '../../nodes/Attentive/types/AttentiveTypes';
+
+describe('Webhook Events', () => {
+  describe('WEBHOOK_EVENT_REGISTRY', () => {
+    it('should name each event after its category', () => {
+      for (const event of WEBHOOK_EVENTS) {
+        expect(event.startsWith(`${WEBHOOK_EVENT_REGISTRY[event].category}.`)).toBe(true);
+      }
+    });
+
+    it('should have events in every category', () => {
+      const categories = new Set(
+        WEBHOOK_EVENTS.map((event) => WEBHOOK_EVENT_REGISTRY[event].category),
+      );
+
+      expect([...categories].sort()).toEqual(Object.keys(WEBHOOK_EVENT_CATEGORIES).sort());
+    });
+  });
+
+  describe('getWebhookEventDefinition', () => {
+    it('should look up events in the registry', () => {
+      expect(getWebhookEventDefinition('email.opened')).toEqual({
+        category: 'email',
+        description: 'Email was opened',
+        payloadType: 'message',
+      });
+      expect(getWebhookEventDefinition('toString')).toBeUndefined();
+      expect(getWebhookEventDefinition('journey.completed')).toBeUndefined();
+    });
+  });
+
+  describe('getWebhookEventOptions', () => {
+    it('should offer a wildcard per category and every event', () => {
+      const options = getWebhookEventOptions();
+
+      expect(options).toHaveLength(
+        Object.keys(WEBHOOK_EVENT_CATEGORIES).length + WEBHOOK_EVENTS.length,
+      );
+      expect(options).toContainEqual(
+        expect.objectContaining({ name: 'All Message Events', value: 'message.*' }),
+      );
+      expect(options).toContainEqual({
+        name: 'Sign-Up Unit Submitted',
+        value: 'sign_up_unit.submitted',
+        description: 'Sign-up unit form was submitted',
+      });
+    });
+  });
+
+  describe('expandWebhookEvents', () => {
+    const node = { name: 'Attentive' } as INode;
+
+    it('should expand wildcards into the events of the category', () => {
+      expect(expandWebhookEvents(node, ['subscription.*'])).toEqual([
+        'subscription.created',
+        'subscription.opted_out',
+      ]);
+    });
+
+    it('should keep the order and drop repeated events', () => {
+      expect(expandWebhookEvents(node, ['journey.exited', 'journey.*', 'custom.event'])).toEqual([
+        'journey.exited',
+        'journey.entered',
+        'custom.event',
+      ]);
+    });
+
+    it('should reject unknown categories', () => {
+      expect(() => expandWebhookEvents(node, ['sms.*'])).toThrow(
+        expect.objectContaining({
+          message: 'Unknown event category "sms"',
+          errorType: 'validation',
+          description: expect.stringContaining('message.*'),
+        }),
+      );
+      expect(() => expandWebhookEvents(node, ['toString.*'])).toThrow('Unknown event category');
+    });
+  });
+
+  describe('buildSampleWebhookBody', () => {
+    it('should build deliveries the trigger normalizes into the typed payload', () => {
+      const timestamp = new Date('2024-01-15T10:00:00Z');
+
+      for (const event of WEBHOOK_EVENTS) {
+        const payload = normalizeWebhookEvent(buildSampleWebhookBody(event, timestamp));
+
+        expect(payload).toMatchObject({ event, timestamp: timestamp.toISOString() });
+        expect(Object.values(payload)).not.toContain(null);
+      }
+    });
+
+    it('should give every sample a new event id', () => {
+      expect(buildSampleWebhookBody('message.sent').id).not.toBe(
+        buildSampleWebhookBody('message.sent').id,
+      );
+    });
+  });
+});
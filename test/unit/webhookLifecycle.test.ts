@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  getWebhookDrift,
+  hashSecret,
+  isOrphanedWebhook,
+  isWebhookDisabled,
+} from '../../nodes/Attentive/trigger/lifecycle';
+
+describe('Webhook Lifecycle', () => {
+  const url = 'https://n8n.example.com/webhook/node-1/webhook';
+  const desired = { url, events: ['message.sent', 'message.delivered'], secret: 'whsec_1' };
+  const registered = {
+    id: 'wh_1',
+    url,
+    events: ['message.delivered', 'message.sent'],
+    enabled: true,
+  };
+
+  describe('getWebhookDrift', () => {
+    it('should not report a matching webhook', () => {
+      expect(getWebhookDrift(registered, desired, hashSecret('whsec_1'))).toEqual([]);
+    });
+
+    it('should report changed events, URL and secret', () => {
+      expect(
+        getWebhookDrift(
+          { ...registered, url: 'https://old.example.com/webhook/node-1/webhook' },
+          { ...desired, events: ['message.sent'] },
+          hashSecret('whsec_0'),
+        ),
+      ).toEqual(['url', 'events', 'secret']);
+    });
+
+    it('should only report an unknown secret when one is set', () => {
+      expect(getWebhookDrift(registered, { ...desired, secret: '' })).toEqual([]);
+      expect(getWebhookDrift(registered, desired)).toEqual(['secret']);
+      expect(getWebhookDrift(registered, { ...desired, secret: '' }, hashSecret('x'))).toEqual([
+        'secret',
+      ]);
+    });
+
+    it('should report disabled webhooks', () => {
+      expect(
+        getWebhookDrift({ ...registered, enabled: false }, { ...desired, secret: '' }),
+      ).toEqual(['disabled']);
+    });
+  });
+
+  describe('isWebhookDisabled', () => {
+    it('should read the enabled flag and the status', () => {
+      expect(isWebhookDisabled(registered)).toBe(false);
+      expect(isWebhookDisabled({ status: 'DISABLED' })).toBe(true);
+      expect(isWebhookDisabled({ status: 'active' })).toBe(false);
+    });
+  });
+
+  describe('isOrphanedWebhook', () => {
+    it('should match other registrations of the node on the same n8n instance', () => {
+      expect(
+        isOrphanedWebhook(
+          { id: 'wh_2', url: 'https://n8n.example.com/webhook-test/node-1/webhook' },
+          url,
+          'wh_1',
+        ),
+      ).toBe(true);
+      expect(isOrphanedWebhook({ id: 'wh_2', url }, url, 'wh_1')).toBe(true);
+      expect(isOrphanedWebhook(registered, url, 'wh_1')).toBe(false);
+    });
+
+    it('should not match other nodes or hosts', () => {
+      expect(
+        isOrphanedWebhook(
+          { id: 'wh_2', url: 'https://n8n.example.com/webhook/node-2/webhook' },
+          url,
+        ),
+      ).toBe(false);
+      expect(
+        isOrphanedWebhook(
+          { id: 'wh_2', url: 'https://other.example.com/webhook/node-1/webhook' },
+          url,
+        ),
+      ).toBe(false);
+      expect(isOrphanedWebhook({ id: 'wh_2', url: 'not a url' }, url)).toBe(false);
+    });
+  });
+});
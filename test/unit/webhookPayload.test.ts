@@ -0,0 +1,171 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { AttentiveTrigger } from '../../nodes/Attentive/AttentiveTrigger.node';
+import { normalizeWebhookEvent } from '../../nodes/Attentive/trigger/payload';
+
+describe('Webhook Payloads', () => {
+  const timestamp = '2024-01-15T10:00:00.000Z';
+
+  describe('normalizeWebhookEvent', () => {
+    it('should normalize a nested subscription event', () => {
+      expect(
+        normalizeWebhookEvent({
+          id: 'evt_1',
+          type: 'subscription.created',
+          timestamp,
+          data: {
+            user: { id: 'user_1', phone: '+19148440001' },
+            subscription: { type: 'MARKETING', channel: 'TEXT' },
+            signUpSourceId: 'source_1',
+          },
+        }),
+      ).toEqual({
+        event: 'subscription.created',
+        eventId: 'evt_1',
+        timestamp,
+        subscriberId: 'user_1',
+        phone: '+19148440001',
+        email: null,
+        subscriptionType: 'MARKETING',
+        channel: 'TEXT',
+        signUpSourceId: 'source_1',
+      });
+    });
+
+    it('should normalize a top-level opt-out', () => {
+      expect(
+        normalizeWebhookEvent({
+          event: 'subscription.opted_out',
+          timestamp: Date.parse(timestamp) / 1000,
+          email: 'jane@example.com',
+          subscriptionType: 'MARKETING',
+          reason: 'STOP',
+        }),
+      ).toMatchObject({
+        event: 'subscription.opted_out',
+        eventId: null,
+        timestamp,
+        email: 'jane@example.com',
+        reason: 'STOP',
+      });
+    });
+
+    it('should read message fields from their known locations', () => {
+      expect(
+        normalizeWebhookEvent({
+          event: 'message.clicked',
+          timestamp,
+          data: { id: 'msg_1', to: '+19148440001', link: { url: 'https://example.com/sale' } },
+        }),
+      ).toMatchObject({
+        messageId: 'msg_1',
+        phone: '+19148440001',
+        linkUrl: 'https://example.com/sale',
+      });
+
+      expect(
+        normalizeWebhookEvent({
+          event: 'message.replied',
+          data: { messageId: 'msg_2', reply: { body: 'YES' } },
+        }),
+      ).toMatchObject({ messageId: 'msg_2', replyText: 'YES' });
+
+      expect(
+        normalizeWebhookEvent({
+          event: 'message.failed',
+          data: { messageId: 'msg_3', error: { code: '30003', message: 'Unreachable handset' } },
+        }),
+      ).toMatchObject({ failureReason: 'Unreachable handset', failureCode: '30003' });
+    });
+
+    it('should normalize the fields of each payload type', () => {
+      expect(
+        normalizeWebhookEvent({
+          event: 'journey.exited',
+          data: { journey: { id: 'journey_1', name: 'Welcome' }, reason: 'COMPLETED' },
+        }),
+      ).toMatchObject({ journeyId: 'journey_1', journeyName: 'Welcome', exitReason: 'COMPLETED' });
+
+      expect(
+        normalizeWebhookEvent({
+          event: 'purchase.attributed',
+          data: { order: { id: 'order_1', total: '49.90', currency: 'USD' }, messageId: 'msg_1' },
+        }),
+      ).toMatchObject({
+        orderId: 'order_1',
+        messageId: 'msg_1',
+        journeyId: null,
+        revenue: 49.9,
+        currency: 'USD',
+      });
+
+      expect(
+        normalizeWebhookEvent({
+          event: 'custom_attribute.updated',
+          data: { user: { email: 'jane@example.com' }, properties: { tier: 'gold' } },
+        }),
+      ).toMatchObject({ email: 'jane@example.com', attributes: { tier: 'gold' } });
+
+      expect(
+        normalizeWebhookEvent({
+          event: 'email.bounced',
+          data: { id: 'msg_1', email: 'jane@example.com', reason: 'Mailbox full' },
+        }),
+      ).toMatchObject({ messageId: 'msg_1', failureReason: 'Mailbox full', failureCode: null });
+    });
+
+    it('should keep only the shared fields of unknown events', () => {
+      expect(
+        normalizeWebhookEvent({ event: 'journey.completed', timestamp, data: { phone: '+1' } }),
+      ).toEqual({
+        event: 'journey.completed',
+        eventId: null,
+        timestamp,
+        subscriberId: null,
+        phone: '+1',
+        email: null,
+      });
+    });
+  });
+
+  describe('Simplify', () => {
+    const trigger = new AttentiveTrigger();
+    const body = { event: 'message.delivered', timestamp, data: { messageId: 'msg_1' } };
+
+    const receive = async (parameters: IDataObject) => {
+      const context = {
+        getBodyData: () => body,
+        getHeaderData: () => ({}),
+        getNode: () => ({ typeVersion: 1.1 }),
+        getNodeParameter: (name: string, fallback: unknown) => parameters[name] ?? fallback,
+        getRequestObject: () => ({}),
+        getWorkflowStaticData: () => ({}),
+      } as unknown as IWebhookFunctions;
+      const response = await trigger.webhook.call(context);
+      return response.workflowData?.[0][0].json;
+    };
+
+    it('should output the normalized payload when enabled', async () => {
+      expect(await receive({ options: {}, simplify: true })).toMatchObject({
+        event: 'message.delivered',
+        messageId: 'msg_1',
+      });
+    });
+
+    it('should output the event as received otherwise', async () => {
+      expect(await receive({ options: {} })).toEqual({
+        event: 'message.delivered',
+        timestamp,
+        data: { messageId: 'msg_1' },
+        raw: body,
+      });
+    });
+  });
+});